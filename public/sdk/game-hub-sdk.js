@@ -0,0 +1,71 @@
+/*
+  Game hub SDK: lets a game report scores, achievements and game over to the
+  hub's player overlay. Include it in the game's page:
+
+    <script src="https://<your hub>/sdk/game-hub-sdk.js"></script>
+    <script>
+      GameHub.ready();
+      GameHub.reportScore(120);
+      GameHub.unlockAchievement('first-win', 'First win');
+      GameHub.gameOver(480);
+      GameHub.onConnected(function () { ... });
+    </script>
+
+  Messages are posted to the parent window; the hub only accepts them from the
+  game's own frame and the origins listed for the game. Outside the hub every
+  call is a no-op. The message format is defined in src/lib/gameSdk.ts.
+*/
+(function () {
+  var SOURCE = 'game-hub-sdk';
+  var VERSION = 1;
+  var connected = false;
+  var listeners = [];
+
+  var post = function (message) {
+    if (window.parent === window) return;
+    message.source = SOURCE;
+    message.version = VERSION;
+    // Scores aren't secret and the game can't know the hub's origin
+    window.parent.postMessage(message, '*');
+  };
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== window.parent || !data || data.source !== SOURCE || data.type !== 'connected') return;
+    connected = true;
+    listeners.forEach(function (listener) {
+      listener(data.version);
+    });
+  });
+
+  window.GameHub = {
+    version: VERSION,
+
+    // Call once the game has loaded, and again after a restart
+    ready: function () {
+      post({ type: 'ready' });
+    },
+
+    reportScore: function (score) {
+      post({ type: 'score', score: Number(score) });
+    },
+
+    unlockAchievement: function (id, name) {
+      post({ type: 'achievement', id: String(id), name: name === undefined ? String(id) : String(name) });
+    },
+
+    // The score is optional; the last reported score is used without one
+    gameOver: function (score) {
+      post({ type: 'game_over', score: score === undefined ? null : Number(score) });
+    },
+
+    isConnected: function () {
+      return connected;
+    },
+
+    // Called when the hub answers ready()
+    onConnected: function (listener) {
+      listeners.push(listener);
+    }
+  };
+})();
@@ -0,0 +1,209 @@
+/*
+  Service worker for the installable app.
+
+  - App shell: index.html is network-first with the cached copy as fallback;
+    hashed build assets under /assets/ are cache-first since they never change
+  - Offline games: same-origin games an admin marked "available offline" get a
+    cache each (offline-game-<id>) holding the page and the files it links to,
+    rebuilt when the game's url changes
+  - Everything else on our origin is network-first, falling back to any cache;
+    files an offline game requests while it plays join its cache
+  - Hosted game bundles (/hosted/<id>/...) get their content type from the file
+    extension and a sandbox CSP, whatever the storage proxy sent
+  - Other origins (Supabase, third-party games) are left alone
+
+  The page talks to this worker through src/lib/offlineGames.ts.
+*/
+
+const SHELL_CACHE = 'app-shell-v1';
+const GAME_CACHE_PREFIX = 'offline-game-';
+// Entry in each game's cache recording the page it was built from
+const GAME_SOURCE_KEY = '/__offline-game-source';
+const HOSTED_PREFIX = '/hosted/';
+
+// The types that matter for a page to run; keep in step with BUNDLE_CONTENT_TYPES in src/lib/gameBundles.ts
+const HOSTED_CONTENT_TYPES = {
+  html: 'text/html',
+  htm: 'text/html',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  css: 'text/css',
+  json: 'application/json',
+  svg: 'image/svg+xml',
+  wasm: 'application/wasm'
+};
+// Even when opened directly, a hosted game must not run with our origin
+const HOSTED_SANDBOX = 'sandbox allow-scripts allow-pointer-lock allow-popups allow-forms';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(['/', '/index.html', '/manifest.webmanifest', '/icon.svg'])));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('app-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isSameOrigin = (url) => new URL(url, self.location.href).origin === self.location.origin;
+
+// Files an offline game loads from its scripts (levels, sprites, sounds) aren't
+// in its page, so they are added to the game's cache as it requests them
+const saveForOfflineGame = async (clientId, request, response) => {
+  const client = clientId && (await self.clients.get(clientId));
+  if (!client) return;
+
+  const keys = await caches.keys();
+  for (const key of keys.filter((name) => name.startsWith(GAME_CACHE_PREFIX))) {
+    const cache = await caches.open(key);
+    if (await cache.match(client.url, { ignoreSearch: true })) {
+      await cache.put(request, response);
+      return;
+    }
+  }
+};
+
+const networkFirst = async (request, { fallback, clientId } = {}) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok && request.mode === 'navigate' && request.destination === 'document') {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    } else if (response.ok && request.mode !== 'navigate') {
+      saveForOfflineGame(clientId, request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request, { ignoreSearch: request.mode === 'navigate' })) || (fallback && (await caches.match(fallback)));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const asHostedFile = (request, response) => {
+  // Opaque and error responses can't be (or needn't be) rewritten
+  if (response.type === 'opaqueredirect' || !response.ok) return response;
+
+  const { pathname } = new URL(request.url);
+  const extension = pathname.slice(pathname.lastIndexOf('.') + 1).toLowerCase();
+  const headers = new Headers(response.headers);
+  if (HOSTED_CONTENT_TYPES[extension]) headers.set('Content-Type', HOSTED_CONTENT_TYPES[extension]);
+  headers.set('Content-Security-Policy', HOSTED_SANDBOX);
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || !isSameOrigin(request.url)) return;
+
+  const { pathname } = new URL(request.url);
+  if (pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (pathname.startsWith(HOSTED_PREFIX)) {
+    event.respondWith(networkFirst(request, { clientId: event.clientId }).then((response) => asHostedFile(request, response)));
+  } else if (request.mode === 'navigate' && request.destination === 'document') {
+    // Deep links like /play/<id> all load the app
+    event.respondWith(networkFirst(request, { fallback: '/index.html' }));
+  } else {
+    event.respondWith(networkFirst(request, { clientId: event.clientId }));
+  }
+});
+
+// Files a game page links to directly: scripts, styles, images, audio and so on
+const linkedUrls = (html, baseUrl) => {
+  const urls = new Set();
+  const pattern = /\b(?:src|href|data-src|poster)\s*=\s*["']([^"'#]+)["']/gi;
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    try {
+      const url = new URL(match[1], baseUrl);
+      if (url.origin === self.location.origin) urls.add(url.href);
+    } catch {
+      // Not a URL
+    }
+  }
+  return Array.from(urls);
+};
+
+const cachedSource = async (cacheName) => {
+  const cache = await caches.open(cacheName);
+  const marker = await cache.match(GAME_SOURCE_KEY);
+  return marker ? marker.text() : null;
+};
+
+// A game whose url changed under the same id gets its cache rebuilt from the new page
+const cacheGame = async ({ id, url }) => {
+  const cacheName = GAME_CACHE_PREFIX + id;
+  const pageUrl = new URL(url, self.location.href).href;
+  if (await caches.has(cacheName)) {
+    if ((await cachedSource(cacheName)) === pageUrl) return;
+    await caches.delete(cacheName);
+  }
+
+  const response = await fetch(pageUrl);
+  if (!response.ok) throw new Error(`${pageUrl} returned ${response.status}`);
+
+  const cache = await caches.open(cacheName);
+  const html = await response.clone().text();
+  await cache.put(pageUrl, response);
+  // One missing file shouldn't stop the rest being cached
+  await Promise.all(linkedUrls(html, pageUrl).map((assetUrl) => cache.add(assetUrl).catch(() => {})));
+  // Written last, so a cache interrupted halfway is rebuilt next time
+  await cache.put(GAME_SOURCE_KEY, new Response(pageUrl));
+};
+
+// Caches newly listed games and drops games that are no longer listed
+const syncGames = async (games) => {
+  const wanted = new Set(games.map((game) => GAME_CACHE_PREFIX + game.id));
+  const keys = await caches.keys();
+  await Promise.all(
+    keys
+      .filter((key) => key.startsWith(GAME_CACHE_PREFIX) && !wanted.has(key))
+      .map((key) => caches.delete(key))
+  );
+
+  const failed = [];
+  for (const game of games) {
+    try {
+      await cacheGame(game);
+    } catch (error) {
+      failed.push({ id: game.id, message: String(error && error.message ? error.message : error) });
+    }
+  }
+  return failed;
+};
+
+self.addEventListener('message', (event) => {
+  const { data } = event;
+  const reply = (message) => event.ports[0] && event.ports[0].postMessage(message);
+
+  if (data && data.type === 'cache-urls') {
+    // Build files the page loaded before this worker took over
+    event.waitUntil(
+      caches.open(SHELL_CACHE)
+        .then((cache) => Promise.all(data.urls.filter(isSameOrigin).map((url) => cache.add(url).catch(() => {}))))
+        .then(() => reply({ ok: true }))
+    );
+  } else if (data && data.type === 'sync-offline-games') {
+    event.waitUntil(syncGames(data.games).then((failed) => reply({ ok: failed.length === 0, failed })));
+  }
+});
@@ -0,0 +1,79 @@
+// Checks every game URL for dead links and pages that refuse to be framed.
+//
+//   npm run check-links -- [--file catalog.json] [--dry-run] [--json] [--origin https://hub.example] [--timeout 10000]
+//
+// With VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set, games are read from Supabase and the
+// results saved on them (unless --dry-run). With --file, an exported JSON catalog is checked instead.
+// Exits with status 1 when any link is broken.
+import { readFile } from 'node:fs/promises';
+import { createClient } from '@supabase/supabase-js';
+import { LinkTarget, checkLinks, describeLinkHealth, isBrokenLink } from '../src/lib/linkHealth';
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(`--${name}`);
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const file = option('file');
+const dryRun = flag('dry-run') || Boolean(file);
+const asJson = flag('json');
+const timeoutMs = Number(option('timeout') ?? 10000);
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(2);
+};
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = !file && supabaseUrl && serviceKey ? createClient(supabaseUrl, serviceKey) : null;
+
+const loadTargets = async (): Promise<(LinkTarget & { title: string })[]> => {
+  if (file) {
+    const parsed = JSON.parse(await readFile(file, 'utf8'));
+    const games = Array.isArray(parsed) ? parsed : parsed?.games;
+    if (!Array.isArray(games)) fail(`${file} is not an exported JSON catalog`);
+    return games;
+  }
+  if (!supabase) {
+    return fail('Set VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or pass --file catalog.json');
+  }
+
+  const { data, error } = await supabase.from('games').select('id, title, url').is('deleted_at', null);
+  if (error) fail(`Could not load games: ${error.message}`);
+  return data ?? [];
+};
+
+const targets = await loadTargets();
+const results = await checkLinks(targets, {
+  timeoutMs,
+  embedOrigin: option('origin'),
+  onProgress: asJson ? undefined : (done, total) => process.stderr.write(`\rChecked ${done}/${total}`)
+});
+if (!asJson) process.stderr.write('\n');
+
+if (supabase && !dryRun) {
+  for (const { gameId, health } of results) {
+    const { error } = await supabase.from('games').update(health).eq('id', gameId);
+    if (error) console.error(`Could not save link health for ${gameId}: ${error.message}`);
+  }
+}
+
+const titles = new Map(targets.map(target => [target.id, target.title]));
+const broken = results.filter(result => isBrokenLink(result.health));
+
+if (asJson) {
+  console.log(JSON.stringify(results, null, 2));
+} else {
+  results.forEach(({ gameId, checkedUrl, health }) => {
+    const timing = health.link_response_ms === null ? '' : ` (${health.link_response_ms} ms)`;
+    console.log(`${isBrokenLink(health) ? 'BROKEN' : 'ok    '}  ${titles.get(gameId) ?? gameId}: ${
+      checkedUrl ? describeLinkHealth(health) + timing : 'no URL to check'
+    }`);
+  });
+  console.log(`\n${broken.length} of ${results.length} links broken${dryRun ? '' : ', results saved'}`);
+}
+
+process.exit(broken.length > 0 ? 1 : 0);
@@ -1,223 +1,621 @@
-import React, { useState, useEffect } from 'react';
-import { Gamepad2, Plus, Edit3, Trash2, Save, X, Bell, RefreshCw, Wifi, WifiOff } from 'lucide-react';
-
-// Fallback interface if Supabase isn't connected
-interface Game {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  color: string;
-  url: string;
-  created_at: string;
-  updated_at: string;
-}
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useAppLocation } from './hooks/useAppLocation';
+import { usePlayerLists } from './hooks/usePlayerLists';
+import { useToasts } from './hooks/useToasts';
+import { Gamepad2, Plus, Edit3, Trash2, Save, X, Wifi, WifiOff, LogOut, Lock, AlertTriangle, ArrowDownUp, Tags, Heart, History, UserRound, BarChart3, Link2Off, ScrollText, ArchiveRestore, Lightbulb, Inbox, Layers, HardDriveDownload, GitMerge } from 'lucide-react';
+import AdminLoginModal from './components/AdminLoginModal';
+import CatalogTransferModal from './components/CatalogTransferModal';
+import CategoryIcon from './components/CategoryIcon';
+import CategoryManagerModal from './components/CategoryManagerModal';
+import CollectionManagerModal from './components/CollectionManagerModal';
+import CoverImageInput from './components/CoverImageInput';
+import DuplicateFinderModal from './components/DuplicateFinderModal';
+import GameCover from './components/GameCover';
+import PinnedGamesRow from './components/PinnedGamesRow';
+import PublicationBadge from './components/PublicationBadge';
+import PlayerAccountModal from './components/PlayerAccountModal';
+import ChangeNotification from './components/ChangeNotification';
+import EmbedPreview from './components/EmbedPreview';
+import FieldError from './components/FieldError';
+import GameBundleInput from './components/GameBundleInput';
+import GameDetail from './components/GameDetail';
+import FeaturedCarousel from './components/FeaturedCarousel';
+import GameHistoryModal from './components/GameHistoryModal';
+import GamePlayer from './components/GamePlayer';
+import GameStatsModal from './components/GameStatsModal';
+import HighlightedText from './components/HighlightedText';
+import LinkHealthModal from './components/LinkHealthModal';
+import TagsInput from './components/TagsInput';
+import ToastList from './components/ToastList';
+import VirtualGameGrid from './components/VirtualGameGrid';
+import SubmissionQueueModal from './components/SubmissionQueueModal';
+import SuggestGameModal from './components/SuggestGameModal';
+import SyncConflictsModal from './components/SyncConflictsModal';
+import TrashModal from './components/TrashModal';
+import { AdminSession, AuthService, PlayerAccountService, hasRole } from './lib/auth';
+import { connectBackend } from './lib/backend';
+import { ConnectionState, Game, GameInputType, GameRepository, GameSourceKind, GameStatus, GameWriteOptions } from './lib/gameRepository';
+import { localAuthService } from './lib/localAuth';
+import { GameServiceError, errorMessage, isDuplicateError, isValidationError } from './lib/errors';
+import { GAME_LIMITS, GameFieldErrors, hasFieldErrors, validateGameFields, validateNewGame } from './lib/gameValidation';
+import { isEmbedCode } from './lib/embed';
+import { OfflineQueue, SyncConflict } from './lib/offlineQueue';
+import {
+  StorageUsage,
+  canCacheOffline,
+  formatBytes,
+  getCachedGameIds,
+  getStorageUsage,
+  isOfflineGame,
+  syncOfflineGames
+} from './lib/offlineGames';
+import { buildPath, canGoBack, getCurrentLocation, navigate } from './lib/router';
+import { Category, CategoryStore, withGameCategories } from './lib/categories';
+import { GAME_COLORS, colorLabel } from './lib/palette';
+import { CoverImageStore } from './lib/images';
+import { PlayerListEntry, PlayerListRemote } from './lib/playerLists';
+import { GamePlayStats, PlayAnalyticsStore, SORT_ORDERS, SortOrder, createPlayEvent } from './lib/playAnalytics';
+import { matchedTerms } from './lib/search';
+import { GameCatalog, GameQuery, HIDE_BROKEN_GAMES, PAGE_SIZE, applyChangesToPages } from './lib/gameCatalog';
+import { LinkChecker } from './lib/linkChecker';
+import { GameHistory } from './lib/gameHistory';
+import { SubmissionStore } from './lib/submissions';
+import { Collection, CollectionStore } from './lib/collections';
+import { LeaderboardStore } from './lib/leaderboards';
+import { GameBundleStore, gameSourceKind } from './lib/gameBundles';
+import { describeLinkHealth, isBrokenLink } from './lib/linkHealth';
+import {
+  GAME_STATUSES,
+  PUBLICATION_FILTERS,
+  PublicationFilter,
+  ScheduledRelease,
+  fromLocalDateTimeInput,
+  gameStatus,
+  isGameLive,
+  splitDueReleases,
+  toLocalDateTimeInput
+} from './lib/gamePublication';
+import { INPUT_TYPES } from './lib/gameMetadata';
+import { DuplicateMatch, GameMergeStore, duplicateUrlKey, titleKey } from './lib/duplicates';
+import {
+  ChangeSummary,
+  GameChange,
+  applyGameChanges,
+  createOptimisticWriteTracker,
+  emptyChangeSummary,
+  summarizeChanges
+} from './lib/gameChanges';
 
-const categories = ['All', 'Arcade', 'Puzzle', 'Multiplayer', 'Action', 'Strategy', 'Sports'];
-
-// Fallback localStorage service
-const localStorageService = {
-  async getGames(): Promise<Game[]> {
-    const stored = localStorage.getItem('unblockedGames');
-    return stored ? JSON.parse(stored) : [];
-  },
-
-  async addGame(game: Omit<Game, 'id' | 'created_at' | 'updated_at'>): Promise<Game | null> {
-    const games = await this.getGames();
-    const newGame: Game = {
-      ...game,
-      id: Date.now().toString(),
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
-    games.unshift(newGame);
-    localStorage.setItem('unblockedGames', JSON.stringify(games));
-    
-    // Trigger storage event for cross-tab sync
-    localStorage.setItem('gameUpdate', Date.now().toString());
-    
-    return newGame;
-  },
-
-  async updateGame(id: string, updates: Partial<Omit<Game, 'id' | 'created_at' | 'updated_at'>>): Promise<Game | null> {
-    const games = await this.getGames();
-    const gameIndex = games.findIndex(g => g.id === id);
-    if (gameIndex === -1) return null;
-    
-    const updatedGame = {
-      ...games[gameIndex],
-      ...updates,
-      updated_at: new Date().toISOString()
-    };
-    games[gameIndex] = updatedGame;
-    localStorage.setItem('unblockedGames', JSON.stringify(games));
-    
-    // Trigger storage event for cross-tab sync
-    localStorage.setItem('gameUpdate', Date.now().toString());
-    
-    return updatedGame;
-  },
-
-  async deleteGame(id: string): Promise<boolean> {
-    const games = await this.getGames();
-    const filteredGames = games.filter(g => g.id !== id);
-    localStorage.setItem('unblockedGames', JSON.stringify(filteredGames));
-    
-    // Trigger storage event for cross-tab sync
-    localStorage.setItem('gameUpdate', Date.now().toString());
-    
-    return true;
-  },
-
-  subscribeToChanges(callback: (games: Game[]) => void) {
-    const handleStorageChange = async (e: StorageEvent) => {
-      if (e.key === 'gameUpdate') {
-        const games = await this.getGames();
-        callback(games);
-      }
-    };
+const emptyNewGame = {
+  title: '',
+  description: '',
+  category: 'Arcade',
+  color: 'bg-blue-500',
+  url: '',
+  source_kind: 'external' as GameSourceKind,
+  sandbox_policy: '',
+  allow_policy: '',
+  sdk_origins: '',
+  offline_available: false,
+  cover_image_url: '',
+  thumbnail_url: '',
+  tags: [] as string[],
+  status: 'published' as GameStatus,
+  publish_at: null as string | null,
+  how_to_play: '',
+  min_players: null as number | null,
+  max_players: null as number | null,
+  input_types: [] as GameInputType[],
+  mobile_friendly: null as boolean | null,
+  developer: '',
+  developer_url: ''
+};
+
+const SOURCE_KIND_OPTIONS: { value: GameSourceKind; label: string }[] = [
+  { value: 'external', label: 'Link' },
+  { value: 'embed', label: 'Embed code' },
+  { value: 'hosted', label: 'Upload' }
+];
+
+// Catches releases scheduled after the page loaded
+const RELEASE_POLL_MS = 5 * 60 * 1000;
+// Fetching a release just after its time leaves room for the server's clock
+const RELEASE_GRACE_MS = 2000;
+
+const formSectionHeading = 'pt-2 text-xs font-semibold uppercase tracking-wide text-gray-500 border-b pb-1';
+
+// Blank player counts mean the game doesn't say
+const parsePlayerCount = (value: string) => (value ? Number(value) : null);
+
+const SORT_ORDER_KEY = 'gameSortOrder';
 
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
+const loadSortOrder = (): SortOrder => {
+  const stored = localStorage.getItem(SORT_ORDER_KEY);
+  return SORT_ORDERS.some(order => order.value === stored) ? (stored as SortOrder) : 'newest';
+};
+
+// Back closes the player or detail page when we opened it; a deep link falls back to the home page
+const closeGameView = () => {
+  const { route, query } = getCurrentLocation();
+  if (route.view !== 'play' && route.view !== 'game') return;
+
+  if (canGoBack()) {
+    window.history.back();
+  } else {
+    navigate({ route: { view: 'home' }, query }, { replace: true });
   }
 };
 
 function App() {
-  const [gameService, setGameService] = useState<any>(null);
-  const [isSupabaseConnected, setIsSupabaseConnected] = useState(false);
+  const location = useAppLocation();
+  const [repository, setRepository] = useState<GameRepository | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('local');
+  const [offlineQueue, setOfflineQueue] = useState<OfflineQueue | null>(null);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showCatalogTransfer, setShowCatalogTransfer] = useState(false);
+  const [categoryStore, setCategoryStore] = useState<CategoryStore | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [coverImageStore, setCoverImageStore] = useState<CoverImageStore | null>(null);
+  const [bundleStore, setBundleStore] = useState<GameBundleStore | null>(null);
+  const [playerAccounts, setPlayerAccounts] = useState<PlayerAccountService | null>(null);
+  const [playerListRemote, setPlayerListRemote] = useState<PlayerListRemote | null>(null);
+  const [playerUserId, setPlayerUserId] = useState<string | null>(null);
+  const [showPlayerAccount, setShowPlayerAccount] = useState(false);
+  const [gameMerges, setGameMerges] = useState<GameMergeStore | null>(null);
+  // Merged duplicate id -> the game it was merged into
+  const [mergedIds, setMergedIds] = useState<Record<string, string>>({});
+  const { lists: playerLists, toggleFavorite, recordPlay } = usePlayerLists(playerListRemote, playerUserId, mergedIds);
+  const [playAnalytics, setPlayAnalytics] = useState<PlayAnalyticsStore | null>(null);
+  const [playStats, setPlayStats] = useState<GamePlayStats[]>([]);
+  const [sortOrder, setSortOrder] = useState<SortOrder>(loadSortOrder);
+  const [showStats, setShowStats] = useState(false);
+  const [catalog, setCatalog] = useState<GameCatalog | null>(null);
+  const [linkChecker, setLinkChecker] = useState<LinkChecker | null>(null);
+  const [showLinkHealth, setShowLinkHealth] = useState(false);
+  const [gameHistory, setGameHistory] = useState<GameHistory | null>(null);
+  const [historyGame, setHistoryGame] = useState<Game | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showDuplicateFinder, setShowDuplicateFinder] = useState(false);
+  const [submissionStore, setSubmissionStore] = useState<SubmissionStore | null>(null);
+  const [showSuggestGame, setShowSuggestGame] = useState(false);
+  const [showSubmissions, setShowSubmissions] = useState(false);
+  const [pendingSubmissionCount, setPendingSubmissionCount] = useState(0);
+  const [collectionStore, setCollectionStore] = useState<CollectionStore | null>(null);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [showCollectionManager, setShowCollectionManager] = useState(false);
+  const [leaderboards, setLeaderboards] = useState<LeaderboardStore | null>(null);
+  const [offlineGameIds, setOfflineGameIds] = useState<Set<string>>(new Set());
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const { toasts, showToast, askToConfirm, dismissToast } = useToasts();
+  const [formErrors, setFormErrors] = useState<GameFieldErrors>({});
+  // Games the form's title or link look like; `key` is what they were checked against
+  const [duplicateWarning, setDuplicateWarning] = useState<{ key: string; matches: DuplicateMatch[] } | null>(null);
+  // The pages of the current query loaded so far
   const [games, setGames] = useState<Game[]>([]);
+  const [hasMoreGames, setHasMoreGames] = useState(false);
+  const [categoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
+  const [pinnedGames, setPinnedGames] = useState<Game[]>([]);
+  const [searchSuggestion, setSearchSuggestion] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState('All');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedGame, setSelectedGame] = useState<Game | null>(null);
-  const [isAdminMode, setIsAdminMode] = useState(false);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  // The game on the detail page or in the player
+  const [openGame, setOpenGame] = useState<Game | null>(null);
+  const [authService, setAuthService] = useState<AuthService>(localAuthService);
+  const [adminSession, setAdminSession] = useState<AdminSession | null>(null);
+  const [showLogin, setShowLogin] = useState(false);
   const [showAddGame, setShowAddGame] = useState(false);
   const [editingGame, setEditingGame] = useState<Game | null>(null);
   const [secretSequence, setSecretSequence] = useState('');
-  const [showNotification, setShowNotification] = useState(false);
-  const [isOnline, setIsOnline] = useState(true);
+  const [changeSummary, setChangeSummary] = useState<ChangeSummary>(emptyChangeSummary);
   const [isLoading, setIsLoading] = useState(true);
-  const [lastGameCount, setLastGameCount] = useState(0);
 
-  // Initialize Supabase service
+  // Connect to the best available backend; the first page of games loads once the catalog is set
   useEffect(() => {
-    const initializeSupabase = async () => {
-      setIsLoading(true);
+    const initializeBackend = async () => {
+      const backend = await connectBackend();
+      setRepository(backend.repository);
+      setAuthService(backend.authService);
+      setOfflineQueue(backend.offlineQueue);
+      setCategoryStore(backend.categoryStore);
+      setCoverImageStore(backend.coverImageStore);
+      setBundleStore(backend.bundleStore);
+      setPlayerAccounts(backend.playerAccounts);
+      setPlayerListRemote(backend.playerListRemote);
+      setPlayAnalytics(backend.playAnalytics);
+      backend.playAnalytics.getStats().then(setPlayStats);
+      setConnectionState(backend.repository.getConnectionState());
       try {
-        const supabaseModule = await import('./lib/supabase');
-        setGameService(supabaseModule.gameService);
-        setIsSupabaseConnected(true);
-        // Load games after Supabase is connected
-        const fetchedGames = await supabaseModule.gameService.getGames();
-        setGames(fetchedGames);
-        setLastGameCount(fetchedGames.length);
+        setCategories(await backend.categoryStore.getCategories());
       } catch (error) {
-        console.warn('Supabase not available, using localStorage fallback');
-        setIsSupabaseConnected(false);
-        // Load games from localStorage
-        const fetchedGames = await localStorageService.getGames();
-        setGames(fetchedGames);
-        setLastGameCount(fetchedGames.length);
+        console.error('Failed to load categories:', error);
       }
-      setIsLoading(false);
+      setLinkChecker(backend.linkChecker);
+      setGameHistory(backend.history);
+      setSubmissionStore(backend.submissions);
+      setCollectionStore(backend.collectionStore);
+      backend.collectionStore.getCollections().then(setCollections);
+      setLeaderboards(backend.leaderboards);
+      setGameMerges(backend.merges);
+      backend.merges.getMergedIds().then(setMergedIds);
+      setCatalog(backend.catalog);
     };
 
-    initializeSupabase();
+    initializeBackend();
   }, []);
 
-  // Get the appropriate service
-  const getGameService = () => gameService || localStorageService;
+  // The latest list, for naming deleted games in change notifications
+  const gamesRef = useRef(games);
+  const writeTracker = useRef(createOptimisticWriteTracker());
 
-  const [newGame, setNewGame] = useState({
-    title: '',
-    description: '',
-    category: 'Arcade',
-    color: 'bg-blue-500',
-    url: ''
-  });
+  useEffect(() => {
+    gamesRef.current = games;
+  }, [games]);
 
-  const colors = [
-    'bg-blue-500', 'bg-red-500', 'bg-green-500', 'bg-yellow-500',
-    'bg-purple-500', 'bg-pink-500', 'bg-indigo-500', 'bg-orange-500'
-  ];
+  const { route } = location;
+  const searchTerm = location.query;
 
-  const filteredGames = games.filter(game => {
-    const matchesCategory = selectedCategory === 'All' || game.category === selectedCategory;
-    const matchesSearch = game.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         game.description.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesCategory && matchesSearch;
-  });
+  // The grid keeps its filters while a detail page or the player is open on top of it
+  useEffect(() => {
+    if (route.view === 'category') {
+      setSelectedCategory(route.category);
+      setSelectedTag(null);
+    } else if (route.view === 'tag') {
+      setSelectedCategory('All');
+      setSelectedTag(route.tag);
+    } else if (route.view === 'home') {
+      setSelectedCategory('All');
+      setSelectedTag(null);
+    }
+  }, [route]);
 
-  // Load admin mode state from localStorage on mount
+  // Resolve /game/:id and /play/:id, fetching the game if it isn't in the loaded list
   useEffect(() => {
-    const savedAdminMode = localStorage.getItem('adminMode');
-    if (savedAdminMode === 'true') {
-      setIsAdminMode(true);
+    if (route.view !== 'play' && route.view !== 'game') {
+      setOpenGame(null);
+      return;
     }
-  }, []);
 
-  // Save admin mode state to localStorage whenever it changes
+    const knownGame = games.find(g => g.id === route.gameId);
+    if (knownGame) {
+      setOpenGame(knownGame);
+      return;
+    }
+    if (!repository || isLoading) return;
+
+    repository.getGame(route.gameId).then(game => {
+      // Local repositories return every game, so players' links to unpublished ones go home
+      if (game && (adminSession !== null || isGameLive(game))) {
+        setOpenGame(game);
+      } else {
+        navigate({ route: { view: 'home' }, query: location.query }, { replace: true });
+      }
+    });
+  }, [route, games, repository, isLoading, location.query, adminSession]);
+
+  // Until the effect above catches up, the previous game isn't shown under the new route
+  const routedGame = (route.view === 'play' || route.view === 'game') && openGame?.id === route.gameId ? openGame : null;
+  const selectedGame = route.view === 'play' ? routedGame : null;
+  const detailGame = route.view === 'game' ? routedGame : null;
+
+  const playingGameId = selectedGame?.id ?? null;
+
+  // Record a play whenever the player overlay opens a game
   useEffect(() => {
-    localStorage.setItem('adminMode', isAdminMode.toString());
-  }, [isAdminMode]);
+    if (playingGameId) recordPlay(playingGameId);
+  }, [playingGameId, recordPlay]);
 
-  // Load games from Supabase on mount
+  // Time each session from opening the player until it closes (or the page goes away)
   useEffect(() => {
-    // Don't load games here since we're loading them in the Supabase initialization
-  }, []);
+    if (!playingGameId || !playAnalytics) return;
 
-  // Subscribe to real-time changes
+    const startedAt = new Date();
+    let recorded = false;
+    const finishSession = () => {
+      if (recorded) return;
+      recorded = true;
+      playAnalytics
+        .recordPlay(createPlayEvent(playingGameId, startedAt))
+        .then(() => playAnalytics.getStats())
+        .then(setPlayStats)
+        .catch(error => console.error('Failed to record play:', error));
+    };
+
+    window.addEventListener('pagehide', finishSession);
+    return () => {
+      window.removeEventListener('pagehide', finishSession);
+      finishSession();
+    };
+  }, [playingGameId, playAnalytics]);
+
+  // Follow the signed-in player account, if the backend has accounts
   useEffect(() => {
-    if (!gameService && !isSupabaseConnected) return;
-    
-    const unsubscribe = getGameService().subscribeToChanges((updatedGames) => {
-      setGames(prevGames => {
-        // Only show notification if games were added (not on initial load or deletions)
-        if (prevGames.length > 0 && updatedGames.length > prevGames.length) {
-          setShowNotification(true);
-        }
-        setLastGameCount(updatedGames.length);
-        return updatedGames;
-      });
-    });
+    if (!playerAccounts) return;
+    playerAccounts.getUserId().then(setPlayerUserId);
+    return playerAccounts.onUserChange(setPlayerUserId);
+  }, [playerAccounts]);
+
+  const favoriteIds = new Set(playerLists.favorites.map(entry => entry.gameId));
+  // Pinned and collection games may be on pages that haven't loaded, so fetch them by id
+  const pinnedIds = [
+    ...[...playerLists.favorites, ...playerLists.recent].map(entry => entry.gameId),
+    ...collections.flatMap(collection => collection.game_ids)
+  ];
+  const pinnedKey = Array.from(new Set(pinnedIds)).sort().join(',');
+  useEffect(() => {
+    if (!catalog) return;
+    catalog.getGamesByIds(pinnedKey ? pinnedKey.split(',') : []).then(setPinnedGames);
+  }, [catalog, pinnedKey]);
+
+  const gamesForIds = (ids: string[]) =>
+    ids
+      .map(id => pinnedGames.find(g => g.id === id))
+      .filter((game): game is Game => game !== undefined && (isAdminMode || isGameLive(game)));
+
+  const gamesForEntries = (entries: PlayerListEntry[]) => gamesForIds(entries.map(entry => entry.gameId));
+
+  const featuredCollection = collections.find(collection => collection.is_featured) ?? null;
+
+  const isAdminMode = adminSession !== null;
+  const canDeleteGames = hasRole(adminSession, 'admin');
 
-    return unsubscribe;
-  }, [gameService, isSupabaseConnected]);
+  const [newGame, setNewGame] = useState(emptyNewGame);
+  // Admins can narrow the grid to one publication state
+  const [publicationFilter, setPublicationFilter] = useState<PublicationFilter>('all');
 
-  // Monitor online status
+  const categoryList = withGameCategories(categories, Object.keys(categoryCounts));
+  const totalGames = Object.values(categoryCounts).reduce((sum, count) => sum + count, 0);
+
+  const handleSortChange = (order: SortOrder) => {
+    setSortOrder(order);
+    localStorage.setItem(SORT_ORDER_KEY, order);
+  };
+
+  // Wait for a pause in typing before searching
+  const [debouncedSearch, setDebouncedSearch] = useState(searchTerm.trim());
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 200);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const gameQuery: GameQuery = useMemo(() => ({
+    category: selectedCategory === 'All' ? null : selectedCategory,
+    tag: selectedTag,
+    search: debouncedSearch,
+    sort: sortOrder,
+    // Admins always see broken games so they can fix them
+    hideBroken: HIDE_BROKEN_GAMES && !isAdminMode,
+    publication: isAdminMode ? publicationFilter : 'published'
+  }), [selectedCategory, selectedTag, debouncedSearch, sortOrder, isAdminMode, publicationFilter]);
+  // Collections only show on the unfiltered home page
+  const showCollections = !gameQuery.category && !gameQuery.tag && !gameQuery.search;
+  const gameQueryRef = useRef(gameQuery);
+  // Set while a page is being fetched, so scrolling doesn't request it twice
+  const isLoadingMoreRef = useRef(false);
+  // Bumped to reload the grid after bulk changes
+  const [catalogVersion, setCatalogVersion] = useState(0);
+
+  // Load the first page whenever the filters change
   useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
+    if (!catalog) return;
+    gameQueryRef.current = gameQuery;
+    let cancelled = false;
 
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
+    catalog.getPage(gameQuery, 0, PAGE_SIZE)
+      .then(async page => {
+        if (cancelled) return;
+        setGames(page.games);
+        setHasMoreGames(page.hasMore);
+        const suggestion = page.games.length === 0 && gameQuery.search
+          ? await catalog.suggestSearch(gameQuery.search)
+          : null;
+        if (!cancelled) setSearchSuggestion(suggestion);
+      })
+      .catch(error => console.error('Failed to load games:', error))
+      .finally(() => setIsLoading(false));
 
     return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
+      cancelled = true;
     };
-  }, []);
+  }, [catalog, gameQuery, catalogVersion]);
 
-  const loadGames = async () => {
-    setIsLoading(true);
+  const handleLoadMoreGames = async () => {
+    if (!catalog || isLoadingMoreRef.current) return;
+    isLoadingMoreRef.current = true;
+    const query = gameQuery;
     try {
-      const fetchedGames = await getGameService().getGames();
-      setGames(fetchedGames);
+      const page = await catalog.getPage(query, games.length, PAGE_SIZE);
+      // Drop the page if the filters changed while it loaded
+      if (gameQueryRef.current === query) {
+        setGames(prev => [...prev, ...page.games.filter(game => !prev.some(g => g.id === game.id))]);
+        setHasMoreGames(page.hasMore);
+      }
     } catch (error) {
-      console.error('Failed to load games:', error);
-      setIsOnline(false);
+      console.error('Failed to load more games:', error);
     } finally {
-      setIsLoading(false);
+      isLoadingMoreRef.current = false;
     }
   };
 
+  const refreshCategoryCounts = () => {
+    catalog?.getCategoryCounts(isAdminMode).then(setCategoryCounts);
+  };
+
+  // Admins' counts include games players can't see yet
+  useEffect(() => {
+    if (!catalog) return;
+    catalog.getCategoryCounts(isAdminMode)
+      .then(setCategoryCounts)
+      .catch(error => console.error('Failed to load category counts:', error));
+  }, [catalog, isAdminMode]);
+
+  // Our own changes: patch the loaded pages and counts without refetching
+  const applyLocalChange = (change: GameChange) => {
+    writeTracker.current.record(change);
+    setGames(prev => applyChangesToPages(prev, [change], gameQuery));
+    setPinnedGames(prev => applyGameChanges(prev, [change]));
+    refreshCategoryCounts();
+  };
+
+  const highlightTermsFor = (game: Game) => (gameQuery.search ? matchedTerms(gameQuery.search, game) : []);
+
+  // Restore the admin session and follow sign-in/sign-out from the active auth service
+  useEffect(() => {
+    authService.getSession().then(setAdminSession);
+    return authService.onSessionChange(setAdminSession);
+  }, [authService]);
+
+  // Changes made elsewhere, from the real-time feed or a scheduled release coming due
+  const handleRemoteChanges = useCallback((changes: GameChange[]) => {
+    // Our own writes are already applied; only announce what other people changed
+    // Link checks leave updated_at alone and aren't worth announcing either, and
+    // games that aren't live wait for their release to be announced. Deletes without
+    // a title are purges of games that were announced when they went to the trash.
+    const announced = changes.filter(change =>
+      !writeTracker.current.consumeEcho(change) &&
+      (change.type === 'delete'
+        ? change.title !== undefined || gamesRef.current.some(g => g.id === change.id)
+        : isGameLive(change.game)) &&
+      (change.type !== 'update' ||
+        gamesRef.current.find(g => g.id === change.game.id)?.updated_at !== change.game.updated_at)
+    );
+    if (announced.length > 0) {
+      setChangeSummary(summary => summarizeChanges(summary, announced, gamesRef.current));
+    }
+    setGames(prevGames => applyChangesToPages(prevGames, changes, gameQueryRef.current));
+    setPinnedGames(prevGames => applyGameChanges(prevGames, changes));
+    catalog?.getCategoryCounts(isAdminMode).then(setCategoryCounts);
+  }, [catalog, isAdminMode]);
+
+  // Subscribe to real-time changes
+  useEffect(() => {
+    if (!repository) return;
+    return repository.subscribeToChanges(handleRemoteChanges);
+  }, [repository, handleRemoteChanges]);
+
+  // Scheduled games go live without a database change, so time their releases here
+  useEffect(() => {
+    if (!catalog) return;
+    let cancelled = false;
+    let releaseTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const release = (pending: ScheduledRelease[]) => {
+      const { due, nextInMs } = splitDueReleases(pending);
+      if (due.length > 0) {
+        catalog.getGamesByIds(due.map(({ id }) => id))
+          .then(released => {
+            if (cancelled) return;
+            const live = released.filter(game => isGameLive(game));
+            if (live.length > 0) handleRemoteChanges(live.map(game => ({ type: 'insert', game })));
+          })
+          .catch(error => console.error('Failed to load released games:', error));
+      }
+      if (nextInMs !== null) {
+        const rest = pending.filter(scheduled => !due.includes(scheduled));
+        releaseTimer = setTimeout(() => release(rest), nextInMs + RELEASE_GRACE_MS);
+      }
+    };
+
+    const loadReleases = () => {
+      catalog.getScheduledReleases()
+        .then(releases => {
+          if (cancelled) return;
+          clearTimeout(releaseTimer);
+          release(releases);
+        })
+        .catch(error => console.error('Failed to load scheduled games:', error));
+    };
+
+    loadReleases();
+    const poll = setInterval(loadReleases, RELEASE_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(releaseTimer);
+      clearInterval(poll);
+    };
+  }, [catalog, handleRemoteChanges]);
+
+  // Keep collections in sync with other admins
+  useEffect(() => {
+    if (!collectionStore) return;
+    return collectionStore.subscribeToChanges(async () => {
+      setCollections(await collectionStore.getCollections());
+    });
+  }, [collectionStore]);
+
+  // Keep categories in sync with other admins
+  useEffect(() => {
+    if (!categoryStore) return;
+    return categoryStore.subscribeToChanges(async () => {
+      setCategories(await categoryStore.getCategories());
+    });
+  }, [categoryStore]);
+
+  // Monitor connection status
+  useEffect(() => {
+    if (!repository) return;
+    return repository.onConnectionStateChange(setConnectionState);
+  }, [repository]);
+
+  // Track changes waiting in the offline outbox and any conflicts found on replay
+  useEffect(() => {
+    if (!offlineQueue) return;
+
+    const updateSyncState = () => {
+      setPendingChanges(offlineQueue.getPendingCount());
+      setSyncConflicts(offlineQueue.getConflicts());
+    };
+
+    updateSyncState();
+    return offlineQueue.onChange(updateSyncState);
+  }, [offlineQueue]);
+
+  // Changes when an admin marks or unmarks a loaded game, or moves it
+  const offlineGamesKey = games.filter(isOfflineGame).map(game => `${game.id}:${game.url}`).join(' ');
+
+  // Have the service worker cache the games marked for offline play and drop the rest.
+  // The catalog lists them all, since marked games may be on pages not loaded yet.
+  useEffect(() => {
+    if (!catalog) return;
+
+    const refreshOfflineState = async () => {
+      setOfflineGameIds(new Set(await getCachedGameIds()));
+      setStorageUsage(await getStorageUsage());
+    };
+
+    const syncGames = async () => {
+      if (connectionState !== 'offline' && navigator.onLine) {
+        try {
+          const result = await syncOfflineGames(await catalog.getOfflineGames());
+          if (result && !result.ok) console.warn('Some games could not be saved for offline play:', result.failed);
+        } catch (error) {
+          console.error('Failed to sync offline games:', error);
+        }
+      }
+      await refreshOfflineState();
+    };
+
+    syncGames();
+  }, [catalog, connectionState, offlineGamesKey]);
+
+
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
+      // Shortcuts are suspended while a game is open; keys pressed on the player's
+      // toolbar belong to the game too, except Escape to leave it
+      if (selectedGame) {
+        if (event.key === 'Escape' && !document.fullscreenElement) closeGameView();
+        return;
+      }
+
       if (event.key === '\\') {
         event.preventDefault();
         window.open('https://classroom.google.com', '_blank');
       }
       if (event.key === 'Escape') {
-        setSelectedGame(null);
+        closeGameView();
         setShowAddGame(false);
         setEditingGame(null);
       }
@@ -230,136 +628,307 @@ function App() {
         setSecretSequence(newSequence);
       }
       
+      // The old unlock phrase now only opens the sign-in dialog
       if (newSequence.includes('admin123')) {
-        setIsAdminMode(true);
+        setShowLogin(true);
         setSecretSequence('');
       }
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [secretSequence]);
+  }, [secretSequence, selectedGame]);
 
   const handleGameClick = (game: Game) => {
     if (!isAdminMode) {
-      setSelectedGame(game);
+      navigate({ route: { view: 'game', gameId: game.id }, query: location.query });
     }
   };
 
+  const handlePlayGame = (game: Game) => {
+    navigate({ route: { view: 'play', gameId: game.id }, query: location.query });
+  };
+
+  const handleTagClick = (tag: string) => {
+    navigate({ route: { view: 'tag', tag }, query: location.query });
+  };
+
   const handleBackToGames = () => {
-    setSelectedGame(null);
+    closeGameView();
+  };
+
+  const handleSearchChange = (query: string) => {
+    // Replace rather than push so every keystroke doesn't become a history entry
+    navigate({ route: location.route, query }, { replace: true });
+  };
+
+  const handleCategoryClick = (category: string) => {
+    navigate({
+      route: category === 'All' ? { view: 'home' } : { view: 'category', category },
+      query: location.query
+    });
+  };
+
+  const handleMutationError = (error: unknown, fallback = 'Could not save your changes. Please try again.') => {
+    if (!(error instanceof GameServiceError)) console.error('Game change failed:', error);
+    showToast(errorMessage(error, fallback), 'error');
+  };
+
+  // Field problems go next to the inputs; everything else becomes a toast
+  const handleFormError = (error: unknown) => {
+    if (isValidationError(error)) {
+      setFormErrors(error.fieldErrors);
+    } else {
+      handleMutationError(error);
+    }
+  };
+
+  // Games may keep a category that was removed, so editing one doesn't force a new pick
+  const formCategories = (currentCategory?: string) =>
+    categories.length > 0 ? [...categories.map(c => c.name), ...(currentCategory ? [currentCategory] : [])] : null;
+
+  const closeGameForm = () => {
+    setShowAddGame(false);
+    setEditingGame(null);
+    setNewGame(emptyNewGame);
+    setFormErrors({});
+    setDuplicateWarning(null);
+  };
+
+  // The first save of a title or link that looks like another game's is stopped
+  // with a warning; saving again with the same title and link goes ahead
+  const duplicateKey = `${titleKey(newGame.title)}\n${duplicateUrlKey(newGame.url)}`;
+  const writeOptions = { allowDuplicates: duplicateWarning?.key === duplicateKey };
+
+  const handleSaveError = (error: unknown) => {
+    if (isDuplicateError(error)) {
+      setDuplicateWarning({ key: duplicateKey, matches: error.duplicates });
+    } else {
+      handleFormError(error);
+    }
   };
 
   const handleAddGame = async () => {
-    if (newGame.title && newGame.url) {
-      const addedGame = await getGameService().addGame(newGame);
+    if (!repository) return;
+    const errors = validateNewGame(newGame, { categories: formCategories() });
+    setFormErrors(errors);
+    if (hasFieldErrors(errors)) return;
+
+    try {
+      const addedGame = await repository.addGame(newGame, writeOptions);
       if (addedGame) {
-        setGames(prev => {
-          const newGames = [addedGame, ...prev];
-          setLastGameCount(newGames.length);
-          return newGames;
-        });
-        setNewGame({
-          title: '',
-          description: '',
-          category: 'Arcade',
-          color: 'bg-blue-500',
-          url: ''
-        });
-        setShowAddGame(false);
+        applyLocalChange({ type: 'insert', game: addedGame });
+        showToast(`Added ${addedGame.title}.`, 'success');
+        closeGameForm();
       }
+    } catch (error) {
+      handleSaveError(error);
     }
   };
 
+  // Each source needs a different kind of url; going back to the game's own source restores it
+  const handleSourceKindChange = (kind: GameSourceKind) => {
+    if (kind === newGame.source_kind) return;
+    const url = editingGame && gameSourceKind(editingGame) === kind ? editingGame.url : '';
+    setNewGame({
+      ...newGame,
+      source_kind: kind,
+      url,
+      offline_available: newGame.offline_available && canCacheOffline(url)
+    });
+  };
+
   const handleEditGame = (game: Game) => {
     setEditingGame(game);
+    setFormErrors({});
+    setDuplicateWarning(null);
     setNewGame({
       title: game.title,
       description: game.description,
       category: game.category,
       color: game.color,
-      url: game.url
+      url: game.url,
+      source_kind: gameSourceKind(game),
+      sandbox_policy: game.sandbox_policy ?? '',
+      allow_policy: game.allow_policy ?? '',
+      sdk_origins: game.sdk_origins ?? '',
+      offline_available: game.offline_available ?? false,
+      cover_image_url: game.cover_image_url ?? '',
+      thumbnail_url: game.thumbnail_url ?? '',
+      tags: game.tags ?? [],
+      status: gameStatus(game),
+      publish_at: game.publish_at ?? null,
+      how_to_play: game.how_to_play ?? '',
+      min_players: game.min_players ?? null,
+      max_players: game.max_players ?? null,
+      input_types: game.input_types ?? [],
+      mobile_friendly: game.mobile_friendly ?? null,
+      developer: game.developer ?? '',
+      developer_url: game.developer_url ?? ''
     });
   };
 
   const handleUpdateGame = async () => {
-    if (editingGame && newGame.title && newGame.url) {
-      const updatedGame = await getGameService().updateGame(editingGame.id, newGame);
+    if (!repository || !editingGame) return;
+    const errors = validateGameFields(newGame, { categories: formCategories(editingGame.category) });
+    setFormErrors(errors);
+    if (hasFieldErrors(errors)) return;
+
+    try {
+      const updatedGame = await repository.updateGame(editingGame.id, newGame, writeOptions);
       if (updatedGame) {
-        setGames(prev => {
-          const newGames = prev.map(game => 
-            game.id === editingGame.id ? updatedGame : game
-          );
-          setLastGameCount(newGames.length);
-          return newGames;
-        });
-        setEditingGame(null);
-        setNewGame({
-          title: '',
-          description: '',
-          category: 'Arcade',
-          color: 'bg-blue-500',
-          url: ''
-        });
+        applyLocalChange({ type: 'update', game: updatedGame });
+        showToast(`Saved ${updatedGame.title}.`, 'success');
+        closeGameForm();
+      } else {
+        showToast('This game no longer exists.', 'error');
       }
+    } catch (error) {
+      handleSaveError(error);
     }
   };
 
   const handleDeleteGame = async (gameId: string) => {
-    if (confirm('Are you sure you want to delete this game?')) {
-      const success = await getGameService().deleteGame(gameId);
-      if (success) {
-        setGames(prev => {
-          const newGames = prev.filter(game => game.id !== gameId);
-          setLastGameCount(newGames.length);
-          return newGames;
-        });
+    if (!repository) return;
+    if (!(await askToConfirm('Move this game to the trash? You can restore it from Trash.', 'Move to trash'))) return;
+
+    try {
+      if (await repository.deleteGame(gameId)) {
+        applyLocalChange({ type: 'delete', id: gameId });
+        showToast('Moved to the trash.', 'success');
       } else {
-        alert('Failed to delete game. Please try again.');
+        showToast('This game is already gone.', 'error');
       }
+    } catch (error) {
+      handleMutationError(error, 'Could not move the game to the trash. Please try again.');
     }
   };
 
-  const handleExitAdminMode = () => {
-    setIsAdminMode(false);
+  const handleSignedIn = (session: AdminSession) => {
+    setAdminSession(session);
+    setShowLogin(false);
+  };
+
+  const handleExitAdminMode = async () => {
+    await authService.signOut();
+    setAdminSession(null);
     setShowAddGame(false);
     setEditingGame(null);
   };
 
-  const handleReloadGames = async () => {
-    setIsLoading(true);
+  const handleOpenAddGame = () => {
+    // Default to the first category when the usual default no longer exists
+    const defaultCategory = categoryList.some(c => c.name === emptyNewGame.category)
+      ? emptyNewGame.category
+      : categoryList[0]?.name ?? emptyNewGame.category;
+    setNewGame({ ...emptyNewGame, category: defaultCategory });
+    setFormErrors({});
+    setDuplicateWarning(null);
+    setShowAddGame(true);
+  };
+
+  const handleCategoriesChanged = async () => {
+    if (!categoryStore) return;
     try {
-      const fetchedGames = await getGameService().getGames();
-      setGames(fetchedGames);
-      setLastGameCount(fetchedGames.length);
+      // Renames and merges also rewrite games, so reload both
+      setCategories(await categoryStore.getCategories());
+      refreshCategoryCounts();
+      setCatalogVersion(version => version + 1);
     } catch (error) {
-      console.error('Failed to reload games:', error);
-    } finally {
-      setIsLoading(false);
+      console.error('Failed to reload categories:', error);
     }
-    setShowNotification(false);
+  };
+
+  const refreshPendingSubmissions = () => {
+    if (!submissionStore || !hasRole(adminSession, 'editor')) return;
+    submissionStore
+      .getSubmissions('pending')
+      .then(pending => setPendingSubmissionCount(pending.length))
+      .catch(error => console.error('Failed to load suggestions:', error));
+  };
+
+  // The pending count is shown on the admin toolbar
+  useEffect(refreshPendingSubmissions, [submissionStore, adminSession]);
+
+  const handleApproveSubmission = async (
+    fields: Pick<Game, 'title' | 'description' | 'category' | 'url' | 'tags'>,
+    options: GameWriteOptions
+  ) => {
+    if (!repository) return null;
+    const game = await repository.addGame({ ...emptyNewGame, ...fields }, options);
+    if (game) applyLocalChange({ type: 'insert', game });
+    return game;
+  };
+
+  const reloadCollections = () => {
+    collectionStore?.getCollections().then(setCollections);
+  };
+
+  // Drag-and-drop in a collection row; shown right away, then saved
+  const handleReorderCollection = async (collection: Collection, gameIds: string[]) => {
+    if (!collectionStore) return;
+    setCollections(prev => prev.map(c => (c.id === collection.id ? { ...c, game_ids: gameIds } : c)));
+    try {
+      if (!(await collectionStore.setCollectionGames(collection.id, gameIds))) reloadCollections();
+    } catch (error) {
+      handleMutationError(error);
+      reloadCollections();
+    }
+  };
+
+  const handleBulkChange = () => {
+    refreshCategoryCounts();
+    setCatalogVersion(version => version + 1);
+  };
+
+  // Merged games went to the trash, and their plays and collection places moved
+  const handleGamesMerged = (ids: string[]) => {
+    handleBulkChange();
+    reloadCollections();
+    playAnalytics?.getStats().then(setPlayStats);
+    gameMerges?.getMergedIds().then(setMergedIds);
+    showToast(`Merged ${ids.length} duplicate${ids.length === 1 ? '' : 's'}.`, 'success');
+  };
+
+  const handleResolveConflict = async (conflictId: string, winner: 'local' | 'server') => {
+    if (!offlineQueue) return;
+    try {
+      await offlineQueue.resolveConflict(conflictId, winner);
+    } catch (error) {
+      handleMutationError(error);
+    }
+  };
+
+  const hasChangesToAnnounce = changeSummary.added.length + changeSummary.updated.length + changeSummary.removed.length > 0;
+
+  // Admins too: unlike a grid click in admin mode, this is a request to look at the game
+  const handleOpenChangedGame = (game: Game) => {
+    setChangeSummary(emptyChangeSummary);
+    navigate({ route: { view: 'game', gameId: game.id }, query: location.query });
   };
 
   const handleDismissNotification = () => {
-    setShowNotification(false);
+    setChangeSummary(emptyChangeSummary);
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-800">
       {/* Connection Status */}
       <div className={`fixed top-4 left-4 z-50 px-3 py-1 rounded-full text-sm font-medium ${
-        isSupabaseConnected && isOnline ? 'bg-green-500 text-white' : 
-        isSupabaseConnected ? 'bg-red-500 text-white' : 'bg-yellow-500 text-white'
+        connectionState === 'connected' ? 'bg-green-500 text-white' : 
+        connectionState === 'offline' ? 'bg-red-500 text-white' : 'bg-yellow-500 text-white'
       }`}>
-        {isSupabaseConnected && isOnline ? (
+        {connectionState === 'connected' ? (
           <div className="flex items-center gap-1">
             <Wifi className="w-3 h-3" />
             Cloud Sync
+            {pendingChanges > 0 && ` · Syncing ${pendingChanges}`}
           </div>
-        ) : isSupabaseConnected ? (
+        ) : connectionState === 'offline' ? (
           <div className="flex items-center gap-1">
             <WifiOff className="w-3 h-3" />
             Offline
+            {pendingChanges > 0 && ` · ${pendingChanges} pending`}
           </div>
         ) : (
           <div className="flex items-center gap-1">
@@ -369,94 +938,190 @@ function App() {
         )}
       </div>
 
-      {/* New Games Notification */}
-      {showNotification && (
-        <div className="fixed top-4 right-4 z-50 bg-green-500 text-white p-4 rounded-lg shadow-lg max-w-sm">
-          <div className="flex items-start gap-3">
-            <Bell className="w-5 h-5 mt-0.5 flex-shrink-0" />
-            <div className="flex-1">
-              <h4 className="font-bold mb-1">New Games Available!</h4>
-              <p className="text-sm mb-3">New games have been added to the collection.</p>
-              <div className="flex gap-2">
-                <button
-                  onClick={handleReloadGames}
-                  className="bg-white text-green-500 px-3 py-1 rounded text-sm font-medium hover:bg-gray-100 transition-colors flex items-center gap-1"
-                >
-                  <RefreshCw className="w-3 h-3" />
-                  Reload Now
-                </button>
-                <button
-                  onClick={handleDismissNotification}
-                  className="bg-green-600 text-white px-3 py-1 rounded text-sm font-medium hover:bg-green-700 transition-colors"
-                >
-                  Later
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+      {/* Catalog Change Notification */}
+      {hasChangesToAnnounce && (
+        <ChangeNotification
+          summary={changeSummary}
+          onOpenGame={handleOpenChangedGame}
+          onDismiss={handleDismissNotification}
+        />
       )}
 
+      <ToastList toasts={toasts} onDismiss={dismissToast} />
+
       {/* Game Player Overlay */}
+      {detailGame && (
+        <GameDetail
+          key={detailGame.id}
+          game={detailGame}
+          catalog={catalog}
+          availableOffline={offlineGameIds.has(detailGame.id)}
+          onPlay={() => handlePlayGame(detailGame)}
+          onClose={handleBackToGames}
+          onOpenGame={handleGameClick}
+          onSelectTag={handleTagClick}
+        />
+      )}
+
       {selectedGame && (
-        <div className="fixed inset-0 z-40 bg-black bg-opacity-90 flex items-center justify-center p-4">
-          <div className="w-full h-full max-w-6xl max-h-full bg-white rounded-lg overflow-hidden relative">
-            <div className="flex items-center justify-between p-4 bg-gray-100 border-b">
-              <h2 className="text-xl font-bold text-gray-800">{selectedGame.title}</h2>
-              <button
-                onClick={handleBackToGames}
-                className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
-              >
-                Back to Games
-              </button>
-            </div>
-            {selectedGame.url.includes('<') ? (
-              <div 
-                className="w-full h-full"
-                style={{ height: 'calc(100% - 73px)' }}
-                dangerouslySetInnerHTML={{ __html: selectedGame.url }}
-              />
-            ) : (
-              <iframe
-                src={selectedGame.url}
-                className="w-full h-full border-none"
-                title={selectedGame.title}
-                style={{ height: 'calc(100% - 73px)' }}
-                allow="fullscreen; autoplay; encrypted-media"
-                allowFullScreen
-              />
-            )}
-          </div>
-        </div>
+        <GamePlayer
+          key={selectedGame.id}
+          game={selectedGame}
+          leaderboards={leaderboards}
+          availableOffline={offlineGameIds.has(selectedGame.id)}
+          onClose={handleBackToGames}
+        />
+      )}
+
+      {/* Admin Sign In */}
+      {showLogin && (
+        <AdminLoginModal
+          authService={authService}
+          isFirstSetup={authService.mode === 'passcode' && !localAuthService.hasPasscode()}
+          onSignedIn={handleSignedIn}
+          onClose={() => setShowLogin(false)}
+        />
+      )}
+
+      {/* Offline Sync Conflicts */}
+      {showConflicts && (
+        <SyncConflictsModal
+          conflicts={syncConflicts}
+          onResolve={handleResolveConflict}
+          onClose={() => setShowConflicts(false)}
+        />
+      )}
+
+      {/* Category Manager */}
+      {showCategoryManager && categoryStore && (
+        <CategoryManagerModal
+          categoryStore={categoryStore}
+          categories={categories}
+          gameCounts={categoryCounts}
+          canDelete={canDeleteGames}
+          onChanged={handleCategoriesChanged}
+          onClose={() => setShowCategoryManager(false)}
+        />
+      )}
+
+      {/* Link Health */}
+      {showLinkHealth && repository && linkChecker && (
+        <LinkHealthModal
+          repository={repository}
+          linkChecker={linkChecker}
+          onChecked={handleBulkChange}
+          onClose={() => setShowLinkHealth(false)}
+        />
+      )}
+
+      {/* Game History */}
+      {historyGame && gameHistory && (
+        <GameHistoryModal
+          history={gameHistory}
+          game={historyGame}
+          onReverted={(game) => {
+            applyLocalChange({ type: 'update', game });
+            setHistoryGame(game);
+          }}
+          onClose={() => setHistoryGame(null)}
+        />
+      )}
+
+      {/* Trash */}
+      {showTrash && gameHistory && (
+        <TrashModal
+          history={gameHistory}
+          canManage={canDeleteGames}
+          onRestored={(game) => applyLocalChange({ type: 'insert', game })}
+          confirm={askToConfirm}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {/* Duplicate Games */}
+      {showDuplicateFinder && repository && gameMerges && (
+        <DuplicateFinderModal
+          repository={repository}
+          merges={gameMerges}
+          playStats={playStats}
+          confirm={askToConfirm}
+          onMerged={handleGamesMerged}
+          onClose={() => setShowDuplicateFinder(false)}
+        />
+      )}
+
+      {/* Player Suggestions */}
+      {showSuggestGame && submissionStore && (
+        <SuggestGameModal
+          submissions={submissionStore}
+          categories={categoryList}
+          onClose={() => setShowSuggestGame(false)}
+        />
+      )}
+
+      {/* Suggestion Queue */}
+      {showSubmissions && submissionStore && repository && (
+        <SubmissionQueueModal
+          submissions={submissionStore}
+          repository={repository}
+          categories={categoryList}
+          onApprove={handleApproveSubmission}
+          onReviewed={refreshPendingSubmissions}
+          confirm={askToConfirm}
+          onClose={() => setShowSubmissions(false)}
+        />
+      )}
+
+      {/* Play Stats */}
+      {showStats && repository && (
+        <GameStatsModal repository={repository} stats={playStats} onClose={() => setShowStats(false)} />
+      )}
+
+      {/* Player Account */}
+      {showPlayerAccount && playerAccounts && (
+        <PlayerAccountModal
+          playerAccounts={playerAccounts}
+          onSignedIn={() => setShowPlayerAccount(false)}
+          onClose={() => setShowPlayerAccount(false)}
+        />
+      )}
+
+      {/* Collection Manager */}
+      {showCollectionManager && collectionStore && repository && (
+        <CollectionManagerModal
+          collectionStore={collectionStore}
+          repository={repository}
+          collections={collections}
+          canDelete={canDeleteGames}
+          onChanged={reloadCollections}
+          onClose={() => setShowCollectionManager(false)}
+        />
+      )}
+
+      {/* Catalog Import/Export */}
+      {showCatalogTransfer && repository && (
+        <CatalogTransferModal
+          repository={repository}
+          onImported={handleBulkChange}
+          onClose={() => setShowCatalogTransfer(false)}
+        />
       )}
 
       {/* Add/Edit Game Modal */}
       {(showAddGame || editingGame) && (
         <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-full overflow-y-auto">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-xl font-bold">
                 {editingGame ? 'Edit Game' : 'Add New Game'}
               </h3>
-              <button
-                onClick={() => {
-                  setShowAddGame(false);
-                  setEditingGame(null);
-                  setNewGame({
-                    title: '',
-                    description: '',
-                    category: 'Arcade',
-                    color: 'bg-blue-500',
-                    url: ''
-                  });
-                }}
-                className="text-gray-500 hover:text-gray-700"
-              >
+              <button onClick={closeGameForm} className="text-gray-500 hover:text-gray-700">
                 <X className="w-5 h-5" />
               </button>
             </div>
             
             <div className="space-y-4">
+              <h4 className={formSectionHeading}>Basics</h4>
               <input
                 type="text"
                 placeholder="Game Title"
@@ -464,6 +1129,7 @@ function App() {
                 onChange={(e) => setNewGame({...newGame, title: e.target.value})}
                 className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
+              <FieldError message={formErrors.title} />
               
               <input
                 type="text"
@@ -472,51 +1138,324 @@ function App() {
                 onChange={(e) => setNewGame({...newGame, description: e.target.value})}
                 className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
+              <FieldError message={formErrors.description} />
               
               <select
                 value={newGame.category}
                 onChange={(e) => setNewGame({...newGame, category: e.target.value})}
                 className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                {categories.filter(cat => cat !== 'All').map(category => (
-                  <option key={category} value={category}>{category}</option>
+                {categoryList.map(category => (
+                  <option key={category.id} value={category.name}>{category.name}</option>
                 ))}
               </select>
+              <FieldError message={formErrors.category} />
               
+              <TagsInput
+                // Start from the saved tags whenever a different game is opened
+                key={editingGame?.id ?? 'new'}
+                tags={newGame.tags}
+                onChange={(tags) => setNewGame({...newGame, tags})}
+              />
+              <FieldError message={formErrors.tags} />
+
               <select
                 value={newGame.color}
                 onChange={(e) => setNewGame({...newGame, color: e.target.value})}
                 className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                {colors.map(color => (
+                {GAME_COLORS.map(color => (
                   <option key={color} value={color}>
-                    {color.replace('bg-', '').replace('-500', '')}
+                    {colorLabel(color)}
                   </option>
                 ))}
               </select>
+              <FieldError message={formErrors.color} />
               
-              <input
-                type="url"
-                placeholder="Game URL"
-                value={newGame.url}
-                onChange={(e) => setNewGame({...newGame, url: e.target.value})}
+              {coverImageStore && (
+                <CoverImageInput
+                  coverImageStore={coverImageStore}
+                  thumbnailUrl={newGame.thumbnail_url}
+                  onChange={(images) => setNewGame({
+                    ...newGame,
+                    cover_image_url: images?.cover_image_url ?? '',
+                    thumbnail_url: images?.thumbnail_url ?? ''
+                  })}
+                />
+              )}
+              <FieldError message={formErrors.cover_image_url ?? formErrors.thumbnail_url} />
+
+              <h4 className={formSectionHeading}>Game Source</h4>
+              <div className="flex rounded-lg border overflow-hidden text-sm" role="radiogroup" aria-label="Game source">
+                {SOURCE_KIND_OPTIONS
+                  // Uploads need Storage; a hosted game stays editable without it
+                  .filter(({ value }) => value !== 'hosted' || bundleStore || newGame.source_kind === 'hosted')
+                  .map(({ value, label }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      role="radio"
+                      aria-checked={newGame.source_kind === value}
+                      onClick={() => handleSourceKindChange(value)}
+                      className={`flex-1 px-3 py-2 transition-colors ${
+                        newGame.source_kind === value ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+              </div>
+              <FieldError message={formErrors.source_kind} />
+
+              {newGame.source_kind === 'hosted' ? (
+                bundleStore ? (
+                  <GameBundleInput
+                    bundleStore={bundleStore}
+                    url={newGame.url}
+                    onChange={(url) => setNewGame({ ...newGame, url })}
+                  />
+                ) : (
+                  <p className="text-sm text-gray-600">Uploading a new zip needs the cloud backend.</p>
+                )
+              ) : newGame.source_kind === 'embed' ? (
+                <textarea
+                  placeholder='Embed code, e.g. <iframe src="https://example.com/game"></iframe>'
+                  value={newGame.url}
+                  onChange={(e) => setNewGame({...newGame, url: e.target.value})}
+                  className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 h-24 font-mono text-xs"
+                />
+              ) : (
+                <input
+                  type="url"
+                  placeholder="Game URL (e.g. https://example.com/game.html)"
+                  value={newGame.url}
+                  // Offline play is only offered for links on this site
+                  onChange={(e) => setNewGame({
+                    ...newGame,
+                    url: e.target.value,
+                    offline_available: newGame.offline_available && canCacheOffline(e.target.value)
+                  })}
+                  className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+              <FieldError message={formErrors.url} />
+              {newGame.source_kind === 'embed' && (
+                <p className="text-xs text-gray-600">Embed code is sanitized and runs in a sandboxed frame.</p>
+              )}
+
+              {newGame.source_kind === 'embed' && isEmbedCode(newGame.url) && (
+                <EmbedPreview
+                  html={newGame.url}
+                  sandboxPolicy={newGame.sandbox_policy}
+                  allowPolicy={newGame.allow_policy}
+                />
+              )}
+
+              <details
+                className="text-sm text-gray-600"
+                // Opened when one of its fields is rejected, so the message is visible
+                open={Boolean(formErrors.sandbox_policy || formErrors.allow_policy || formErrors.sdk_origins) || undefined}
+              >
+                <summary className="cursor-pointer">Frame permissions</summary>
+                <div className="space-y-2 mt-2">
+                  <input
+                    type="text"
+                    placeholder="Sandbox (e.g. allow-scripts allow-pointer-lock)"
+                    value={newGame.sandbox_policy}
+                    onChange={(e) => setNewGame({...newGame, sandbox_policy: e.target.value})}
+                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Allow (e.g. fullscreen; autoplay; gamepad)"
+                    value={newGame.allow_policy}
+                    onChange={(e) => setNewGame({...newGame, allow_policy: e.target.value})}
+                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="text"
+                    placeholder="SDK origins (e.g. https://games.example.com)"
+                    value={newGame.sdk_origins}
+                    onChange={(e) => setNewGame({...newGame, sdk_origins: e.target.value})}
+                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <FieldError message={formErrors.sandbox_policy ?? formErrors.allow_policy ?? formErrors.sdk_origins} />
+                  <p className="text-xs">
+                    Leave blank for the defaults. Embed code always runs without same-origin access.
+                    Scores are only accepted from the SDK origins, or the game link's own origin.
+                  </p>
+                </div>
+              </details>
+
+              <label className={`flex items-start gap-2 text-sm ${canCacheOffline(newGame.url) ? 'text-gray-700' : 'text-gray-400'}`}>
+                <input
+                  type="checkbox"
+                  checked={newGame.offline_available}
+                  disabled={!canCacheOffline(newGame.url)}
+                  onChange={(e) => setNewGame({...newGame, offline_available: e.target.checked})}
+                  className="mt-0.5"
+                />
+                <span>
+                  Available offline
+                  <span className="block text-xs text-gray-500">
+                    {canCacheOffline(newGame.url)
+                      ? 'Players\' devices keep a copy of the game page and the files it links to.'
+                      : 'Only games hosted on this site can be saved for offline play.'}
+                  </span>
+                </span>
+              </label>
+
+              <h4 className={formSectionHeading}>Details</h4>
+              <textarea
+                placeholder="How to play: controls, goal, tips"
+                value={newGame.how_to_play}
+                onChange={(e) => setNewGame({...newGame, how_to_play: e.target.value})}
+                rows={4}
                 className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
-              
-              <div className="text-sm text-gray-600">
-                <p className="mb-2">URL Options:</p>
-                <ul className="list-disc list-inside space-y-1 text-xs">
-                  <li>Direct game URLs (e.g., https://example.com/game.html)</li>
-                  <li>HTML embed code (will be rendered directly)</li>
-                </ul>
+              <FieldError message={formErrors.how_to_play} />
+
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                Players
+                <input
+                  type="number"
+                  min={1}
+                  max={GAME_LIMITS.players}
+                  placeholder="Fewest"
+                  value={newGame.min_players ?? ''}
+                  onChange={(e) => setNewGame({...newGame, min_players: parsePlayerCount(e.target.value)})}
+                  className="w-24 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                to
+                <input
+                  type="number"
+                  min={1}
+                  max={GAME_LIMITS.players}
+                  placeholder="Most"
+                  value={newGame.max_players ?? ''}
+                  onChange={(e) => setNewGame({...newGame, max_players: parsePlayerCount(e.target.value)})}
+                  className="w-24 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
               </div>
-              
+              <FieldError message={formErrors.min_players ?? formErrors.max_players} />
+
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700" role="group" aria-label="Controls">
+                <span className="text-gray-600">Controls</span>
+                {INPUT_TYPES.map(({ value, label }) => (
+                  <label key={value} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={newGame.input_types.includes(value)}
+                      onChange={(e) => setNewGame({
+                        ...newGame,
+                        input_types: e.target.checked
+                          ? [...newGame.input_types, value]
+                          : newGame.input_types.filter(type => type !== value)
+                      })}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <FieldError message={formErrors.input_types} />
+
+              <select
+                value={newGame.mobile_friendly === null ? '' : String(newGame.mobile_friendly)}
+                onChange={(e) => setNewGame({
+                  ...newGame,
+                  mobile_friendly: e.target.value === '' ? null : e.target.value === 'true'
+                })}
+                className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Mobile support"
+              >
+                <option value="">Mobile support not known</option>
+                <option value="true">Works on phones and tablets</option>
+                <option value="false">Best on a computer</option>
+              </select>
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  placeholder="Developer"
+                  value={newGame.developer}
+                  onChange={(e) => setNewGame({...newGame, developer: e.target.value})}
+                  className="flex-1 min-w-0 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <input
+                  type="url"
+                  placeholder="Developer link (https://...)"
+                  value={newGame.developer_url}
+                  onChange={(e) => setNewGame({...newGame, developer_url: e.target.value})}
+                  className="flex-1 min-w-0 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <FieldError message={formErrors.developer ?? formErrors.developer_url} />
+
+              <h4 className={formSectionHeading}>Publishing</h4>
+              <div className="flex gap-2">
+                <select
+                  value={newGame.status}
+                  onChange={(e) => setNewGame({...newGame, status: e.target.value as GameStatus})}
+                  className="flex-1 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Status"
+                >
+                  {GAME_STATUSES.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <input
+                  type="datetime-local"
+                  value={toLocalDateTimeInput(newGame.publish_at)}
+                  onChange={(e) => setNewGame({...newGame, publish_at: fromLocalDateTimeInput(e.target.value)})}
+                  disabled={newGame.status !== 'published'}
+                  className="flex-1 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  aria-label="Publish at"
+                  title="Leave empty to publish right away"
+                />
+              </div>
+              <FieldError message={formErrors.status ?? formErrors.publish_at} />
+              <p className="text-xs text-gray-500 -mt-2">
+                Drafts and hidden games are only shown to admins. Published games with a future time go live then.
+              </p>
+
+              {duplicateWarning && (
+                <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-300 text-sm text-yellow-800">
+                  <p className="flex items-center gap-2 font-medium">
+                    <AlertTriangle className="w-4 h-4" />
+                    This looks like a game that's already here:
+                  </p>
+                  <ul className="mt-2 space-y-1">
+                    {duplicateWarning.matches.map(({ game, reason }) => (
+                      <li key={game.id} className="flex items-center gap-2">
+                        <a
+                          href={buildPath({ route: { view: 'game', gameId: game.id }, query: '' })}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-medium underline truncate"
+                        >
+                          {game.title}
+                        </a>
+                        <span className="text-yellow-700">{reason === 'url' ? 'same link' : 'similar title'}</span>
+                        <button
+                          onClick={() => handleEditGame(game)}
+                          className="ml-auto text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                        >
+                          Edit it instead
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <button
                 onClick={editingGame ? handleUpdateGame : handleAddGame}
                 className="w-full bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
               >
                 <Save className="w-4 h-4" />
-                {editingGame ? 'Update Game' : 'Add Game'}
+                {editingGame
+                  ? (duplicateWarning ? 'Save Anyway' : 'Update Game')
+                  : (duplicateWarning ? 'Add Anyway' : 'Add Game')}
               </button>
             </div>
           </div>
@@ -530,9 +1469,9 @@ function App() {
           <div className="flex items-center justify-center gap-3 mb-4">
             <Gamepad2 className="w-12 h-12 text-yellow-400" />
             <h1 className="text-5xl font-bold text-white">UnblockedHub</h1>
-            {isAdminMode && (
-              <div className="ml-4 px-3 py-1 bg-red-500 text-white text-sm rounded-full">
-                ADMIN MODE
+            {adminSession && (
+              <div className="ml-4 px-3 py-1 bg-red-500 text-white text-sm rounded-full" title={adminSession.identity}>
+                {adminSession.role.toUpperCase()} MODE
               </div>
             )}
           </div>
@@ -545,20 +1484,87 @@ function App() {
         {/* Admin Controls */}
         {isAdminMode && (
           <div className="mb-8 text-center">
-            <div className="flex items-center justify-center gap-4">
+            <div className="flex flex-wrap items-center justify-center gap-4">
               <button
-                onClick={() => setShowAddGame(true)}
+                onClick={handleOpenAddGame}
                 className="bg-green-500 text-white px-6 py-3 rounded-lg hover:bg-green-600 transition-colors flex items-center gap-2"
               >
                 <Plus className="w-5 h-5" />
                 Add New Game
               </button>
+              <button
+                onClick={() => setShowCategoryManager(true)}
+                className="bg-purple-500 text-white px-6 py-3 rounded-lg hover:bg-purple-600 transition-colors flex items-center gap-2"
+              >
+                <Tags className="w-5 h-5" />
+                Categories
+              </button>
+              <button
+                onClick={() => setShowCollectionManager(true)}
+                className="bg-indigo-500 text-white px-6 py-3 rounded-lg hover:bg-indigo-600 transition-colors flex items-center gap-2"
+              >
+                <Layers className="w-5 h-5" />
+                Collections
+              </button>
+              <button
+                onClick={() => setShowCatalogTransfer(true)}
+                className="bg-blue-500 text-white px-6 py-3 rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-2"
+              >
+                <ArrowDownUp className="w-5 h-5" />
+                Import / Export
+              </button>
+              <button
+                onClick={() => setShowStats(true)}
+                className="bg-teal-500 text-white px-6 py-3 rounded-lg hover:bg-teal-600 transition-colors flex items-center gap-2"
+              >
+                <BarChart3 className="w-5 h-5" />
+                Play Stats
+              </button>
+              <button
+                onClick={() => setShowLinkHealth(true)}
+                className="bg-orange-500 text-white px-6 py-3 rounded-lg hover:bg-orange-600 transition-colors flex items-center gap-2"
+              >
+                <Link2Off className="w-5 h-5" />
+                Link Health
+              </button>
+              <button
+                onClick={() => setShowSubmissions(true)}
+                className="bg-pink-500 text-white px-6 py-3 rounded-lg hover:bg-pink-600 transition-colors flex items-center gap-2"
+              >
+                <Inbox className="w-5 h-5" />
+                Suggestions{pendingSubmissionCount > 0 && ` (${pendingSubmissionCount})`}
+              </button>
+              <button
+                onClick={() => setShowTrash(true)}
+                className="bg-gray-500 text-white px-6 py-3 rounded-lg hover:bg-gray-600 transition-colors flex items-center gap-2"
+              >
+                <ArchiveRestore className="w-5 h-5" />
+                Trash
+              </button>
+              {canDeleteGames && (
+                <button
+                  onClick={() => setShowDuplicateFinder(true)}
+                  className="bg-amber-500 text-white px-6 py-3 rounded-lg hover:bg-amber-600 transition-colors flex items-center gap-2"
+                >
+                  <GitMerge className="w-5 h-5" />
+                  Duplicates
+                </button>
+              )}
+              {syncConflicts.length > 0 && (
+                <button
+                  onClick={() => setShowConflicts(true)}
+                  className="bg-yellow-500 text-white px-6 py-3 rounded-lg hover:bg-yellow-600 transition-colors flex items-center gap-2"
+                >
+                  <AlertTriangle className="w-5 h-5" />
+                  {syncConflicts.length} Sync Conflict{syncConflicts.length === 1 ? '' : 's'}
+                </button>
+              )}
               <button
                 onClick={handleExitAdminMode}
                 className="bg-gray-500 text-white px-6 py-3 rounded-lg hover:bg-gray-600 transition-colors flex items-center gap-2"
               >
-                <X className="w-5 h-5" />
-                Exit Admin Mode
+                <LogOut className="w-5 h-5" />
+                Sign Out
               </button>
             </div>
           </div>
@@ -571,28 +1577,143 @@ function App() {
               type="text"
               placeholder="Search games..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => handleSearchChange(e.target.value)}
               className="w-full px-4 py-3 rounded-xl bg-white bg-opacity-20 text-white placeholder-gray-300 border border-white border-opacity-30 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
             />
           </div>
 
           <div className="flex flex-wrap justify-center gap-4">
-            {categories.map((category) => (
+            {[{ name: 'All', icon: null, count: totalGames }, ...categoryList.map(category => ({
+              name: category.name,
+              icon: category.icon,
+              count: categoryCounts[category.name] ?? 0
+            }))].map(({ name, icon, count }) => (
               <button
-                key={category}
-                onClick={() => setSelectedCategory(category)}
-                className={`px-6 py-3 rounded-full font-medium transition-all duration-300 ${
-                  selectedCategory === category
+                key={name}
+                onClick={() => handleCategoryClick(name)}
+                className={`px-6 py-3 rounded-full font-medium transition-all duration-300 flex items-center gap-2 ${
+                  selectedCategory === name
                     ? 'bg-yellow-400 text-gray-900 shadow-lg scale-105'
                     : 'bg-white bg-opacity-20 text-white hover:bg-opacity-30'
                 }`}
               >
-                {category}
+                <CategoryIcon icon={icon} className="w-4 h-4" />
+                {name}
+                <span className="text-xs opacity-70">{count}</span>
               </button>
             ))}
           </div>
+
+          {selectedTag && (
+            <div className="flex justify-center mt-4">
+              <button
+                onClick={() => handleCategoryClick('All')}
+                className="flex items-center gap-2 px-4 py-2 rounded-full bg-yellow-400 text-gray-900 font-medium"
+                title="Show every tag"
+              >
+                #{selectedTag}
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-center gap-4 mt-6">
+            {isAdminMode && (
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                Show
+                <select
+                  value={publicationFilter}
+                  onChange={(e) => setPublicationFilter(e.target.value as PublicationFilter)}
+                  className="px-3 py-2 rounded-lg bg-white bg-opacity-20 text-white border border-white border-opacity-30 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                >
+                  {PUBLICATION_FILTERS.map(({ value, label }) => (
+                    <option key={value} value={value} className="text-gray-900">{label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              Sort by
+              <select
+                value={sortOrder}
+                onChange={(e) => handleSortChange(e.target.value as SortOrder)}
+                className="px-3 py-2 rounded-lg bg-white bg-opacity-20 text-white border border-white border-opacity-30 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+              >
+                {SORT_ORDERS.map(({ value, label }) => (
+                  <option key={value} value={value} className="text-gray-900">{label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
         </div>
 
+        {/* Featured Carousel and Collections */}
+        {!isLoading && showCollections && (
+          <>
+            {featuredCollection && (
+              <FeaturedCarousel
+                title={featuredCollection.name}
+                games={gamesForIds(featuredCollection.game_ids)}
+                onOpenGame={handleGameClick}
+              />
+            )}
+            {collections.filter(collection => !collection.is_featured).map(collection => (
+              <PinnedGamesRow
+                key={collection.id}
+                title={collection.name}
+                icon={Layers}
+                games={gamesForIds(collection.game_ids)}
+                onOpenGame={handleGameClick}
+                onReorder={isAdminMode ? (gameIds) => handleReorderCollection(collection, gameIds) : undefined}
+              />
+            ))}
+          </>
+        )}
+
+        {/* Favorites and Recently Played */}
+        {!isLoading && !isAdminMode && (
+          <>
+            <div className="flex justify-end gap-4 mb-4 text-sm text-gray-300">
+              <button
+                onClick={() => setShowSuggestGame(true)}
+                className="flex items-center gap-1 hover:text-white transition-colors"
+              >
+                <Lightbulb className="w-4 h-4" />
+                Suggest a game
+              </button>
+              {playerAccounts && (playerUserId ? (
+                <button
+                  onClick={() => playerAccounts.signOut()}
+                  className="flex items-center gap-1 hover:text-white transition-colors"
+                >
+                  <UserRound className="w-4 h-4" />
+                  Syncing your lists · Sign out
+                </button>
+              ) : (
+                <button
+                  onClick={() => setShowPlayerAccount(true)}
+                  className="flex items-center gap-1 hover:text-white transition-colors"
+                >
+                  <UserRound className="w-4 h-4" />
+                  Sign in to sync favorites
+                </button>
+              ))}
+            </div>
+            <PinnedGamesRow
+              title="Favorites"
+              icon={Heart}
+              games={gamesForEntries(playerLists.favorites)}
+              onOpenGame={handleGameClick}
+            />
+            <PinnedGamesRow
+              title="Recently Played"
+              icon={History}
+              games={gamesForEntries(playerLists.recent)}
+              onOpenGame={handleGameClick}
+            />
+          </>
+        )}
+
         {/* Loading State */}
         {isLoading && (
           <div className="text-center py-12">
@@ -603,13 +1724,26 @@ function App() {
 
         {/* Games Grid */}
         {!isLoading && games.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredGames.map((game) => (
+          <VirtualGameGrid
+            games={games}
+            hasMore={hasMoreGames}
+            onLoadMore={handleLoadMoreGames}
+            renderCard={(game) => (
               <div
                 key={game.id}
                 onClick={() => handleGameClick(game)}
                 className="group cursor-pointer bg-white bg-opacity-10 backdrop-blur-sm rounded-2xl p-6 border border-white border-opacity-20 hover:bg-opacity-20 hover:scale-105 transition-all duration-300 hover:shadow-2xl relative"
               >
+                {isAdminMode && isBrokenLink(game) && (
+                  <div
+                    className="absolute top-2 left-2 flex items-center gap-1 px-2 py-1 bg-red-600 text-white text-xs rounded-full"
+                    title={describeLinkHealth(game)}
+                  >
+                    <Link2Off className="w-3 h-3" />
+                    Broken link
+                  </div>
+                )}
+
                 {isAdminMode && (
                   <div className="absolute top-2 right-2 flex gap-2">
                     <button
@@ -624,26 +1758,78 @@ function App() {
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleDeleteGame(game.id);
+                        setHistoryGame(game);
                       }}
-                      className="p-1 bg-red-500 text-white rounded hover:bg-red-600"
+                      className="p-1 bg-gray-600 text-white rounded hover:bg-gray-700"
+                      title="History"
                     >
-                      <Trash2 className="w-4 h-4" />
+                      <ScrollText className="w-4 h-4" />
                     </button>
+                    {canDeleteGames && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteGame(game.id);
+                        }}
+                        className="p-1 bg-red-500 text-white rounded hover:bg-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 )}
+
+                {!isAdminMode && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleFavorite(game.id);
+                    }}
+                    className="absolute top-2 right-2 p-1 text-white hover:scale-110 transition-transform"
+                    title={favoriteIds.has(game.id) ? 'Remove from favorites' : 'Add to favorites'}
+                  >
+                    <Heart className={`w-5 h-5 ${favoriteIds.has(game.id) ? 'fill-red-500 text-red-500' : ''}`} />
+                  </button>
+                )}
                 
-                <div className={`w-12 h-12 ${game.color} rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform duration-300`}>
-                  <Gamepad2 className="w-6 h-6 text-white" />
-                </div>
+                <GameCover game={game} />
                 
-                <h3 className="text-xl font-bold text-white mb-2">{game.title}</h3>
-                <p className="text-gray-300 mb-3">{game.description}</p>
+                <h3 className="text-xl font-bold text-white mb-2">
+                  <HighlightedText text={game.title} terms={highlightTermsFor(game)} />
+                </h3>
+                <p className="text-gray-300 mb-3">
+                  <HighlightedText text={game.description} terms={highlightTermsFor(game)} />
+                </p>
+                {game.tags && game.tags.length > 0 && (
+                  <p className="text-xs text-gray-400 mb-3">
+                    {game.tags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleTagClick(tag);
+                        }}
+                        className="mr-2 hover:text-yellow-300"
+                        title={`Games tagged ${tag}`}
+                      >
+                        #<HighlightedText text={tag} terms={highlightTermsFor(game)} />
+                      </button>
+                    ))}
+                  </p>
+                )}
                 
                 <div className="flex items-center justify-between">
-                  <span className="px-3 py-1 bg-white bg-opacity-20 rounded-full text-sm text-gray-200">
-                    {game.category}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="px-3 py-1 bg-white bg-opacity-20 rounded-full text-sm text-gray-200">
+                      <HighlightedText text={game.category} terms={highlightTermsFor(game)} />
+                    </span>
+                    {isAdminMode && <PublicationBadge game={game} />}
+                    {offlineGameIds.has(game.id) && (
+                      <span className="text-green-300" title="Playable offline">
+                        <HardDriveDownload className="w-4 h-4" />
+                      </span>
+                    )}
+                  </div>
                   {!isAdminMode && (
                     <button className="text-yellow-400 hover:text-yellow-300 transition-colors">
                       Play →
@@ -651,9 +1837,9 @@ function App() {
                   )}
                 </div>
               </div>
-            ))}
-          </div>
-        ) : !isLoading && (
+            )}
+          />
+        ) : !isLoading && totalGames === 0 && (
           <div className="text-center py-12">
             <Gamepad2 className="w-24 h-24 text-gray-400 mx-auto mb-4" />
             <p className="text-2xl text-gray-300 mb-4">No games available yet</p>
@@ -661,9 +1847,21 @@ function App() {
           </div>
         )}
 
-        {filteredGames.length === 0 && games.length > 0 && !isLoading && (
+        {games.length === 0 && totalGames > 0 && !isLoading && (
           <div className="text-center py-12">
             <p className="text-2xl text-gray-300">No games found matching your search.</p>
+            {searchSuggestion && (
+              <p className="text-lg text-gray-300 mt-4">
+                Did you mean{' '}
+                <button
+                  onClick={() => handleSearchChange(searchSuggestion)}
+                  className="text-yellow-400 hover:text-yellow-300 underline"
+                >
+                  {searchSuggestion}
+                </button>
+                ?
+              </p>
+            )}
           </div>
         )}
 
@@ -680,6 +1878,21 @@ function App() {
               </div>
             </div>
             <p className="text-gray-400 mt-4">© 2025 UnblockedHub - Global Game Collection</p>
+            {storageUsage && (
+              <p className="text-xs text-gray-500 mt-2">
+                Using {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} on this device
+                {offlineGameIds.size > 0 && ` · ${offlineGameIds.size} game${offlineGameIds.size === 1 ? '' : 's'} saved for offline play`}
+              </p>
+            )}
+            {!isAdminMode && (
+              <button
+                onClick={() => setShowLogin(true)}
+                className="mt-2 text-xs text-gray-500 hover:text-gray-300 transition-colors inline-flex items-center gap-1"
+              >
+                <Lock className="w-3 h-3" />
+                Staff sign in
+              </button>
+            )}
           </div>
         </footer>
       </div>
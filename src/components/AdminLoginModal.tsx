@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Lock, LogIn, X } from 'lucide-react';
+import { AdminSession, AuthService } from '../lib/auth';
+
+interface AdminLoginModalProps {
+  authService: AuthService;
+  // True when the local passcode hasn't been set on this device yet
+  isFirstSetup: boolean;
+  onSignedIn: (session: AdminSession) => void;
+  onClose: () => void;
+}
+
+function AdminLoginModal({ authService, isFirstSetup, onSignedIn, onClose }: AdminLoginModalProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isPasscode = authService.mode === 'passcode';
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    if (isPasscode && isFirstSetup && password !== confirmPassword) {
+      setError('Passcodes do not match.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const session = await authService.signIn({ email, password });
+      onSignedIn(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg p-6 w-full max-w-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Lock className="w-5 h-5" />
+            {isPasscode ? (isFirstSetup ? 'Set Admin Passcode' : 'Admin Passcode') : 'Admin Sign In'}
+          </h3>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {isPasscode && isFirstSetup && (
+            <p className="text-sm text-gray-600">
+              No passcode is set on this device. Choose one to protect the local game catalog.
+            </p>
+          )}
+
+          {!isPasscode && (
+            <input
+              type="email"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="username"
+              required
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+
+          <input
+            type="password"
+            placeholder={isPasscode ? 'Passcode' : 'Password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={isPasscode && isFirstSetup ? 'new-password' : 'current-password'}
+            autoFocus={isPasscode}
+            required
+            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {isPasscode && isFirstSetup && (
+            <input
+              type="password"
+              placeholder="Confirm Passcode"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <LogIn className="w-4 h-4" />
+            {isSubmitting ? 'Signing In...' : 'Sign In'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default AdminLoginModal;
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { Download, FileUp, HardDrive, Upload, X } from 'lucide-react';
+import { Game, GameRepository } from '../lib/gameRepository';
+import {
+  ImportPlan,
+  ImportResult,
+  applyImportPlan,
+  downloadFile,
+  exportCatalogCsv,
+  exportCatalogJson,
+  parseCatalogFile,
+  planImport
+} from '../lib/catalogTransfer';
+import { localStorageService } from '../lib/localStorageRepository';
+
+interface CatalogTransferModalProps {
+  repository: GameRepository;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const exportFilename = (extension: string) =>
+  `unblockedhub-games-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+function CatalogTransferModal({ repository, onImported, onClose }: CatalogTransferModalProps) {
+  const [records, setRecords] = useState<Record<string, unknown>[] | null>(null);
+  const [sourceLabel, setSourceLabel] = useState('');
+  const [deleteMissing, setDeleteMissing] = useState(false);
+  const [existingGames, setExistingGames] = useState<Game[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const plan: ImportPlan | null = records ? planImport(existingGames, records, { deleteMissing }) : null;
+  // Offer the browser's local catalog when it isn't already the active store
+  const canImportLocal = repository.kind !== 'localStorage';
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    const games = await repository.getGames();
+    if (format === 'json') {
+      downloadFile(exportFilename('json'), exportCatalogJson(games), 'application/json');
+    } else {
+      downloadFile(exportFilename('csv'), exportCatalogCsv(games), 'text/csv');
+    }
+  };
+
+  const loadRecords = async (label: string, load: () => Promise<Record<string, unknown>[]>) => {
+    setError(null);
+    setResult(null);
+    try {
+      const [loaded, games] = await Promise.all([load(), repository.getGames()]);
+      setExistingGames(games);
+      setRecords(loaded);
+      setSourceLabel(label);
+    } catch (err) {
+      setRecords(null);
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    loadRecords(file.name, async () => parseCatalogFile(file.name, await file.text()));
+  };
+
+  const handleImportLocal = () => {
+    loadRecords('Local browser catalog', async () => {
+      const localGames = await localStorageService.getGames();
+      return localGames.map(game => ({ ...game }));
+    });
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    const importResult = await applyImportPlan(repository, plan);
+    setIsWorking(false);
+    setResult(importResult);
+    setRecords(null);
+    onImported();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">Import / Export Catalog</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <section className="mb-6">
+          <h4 className="font-medium mb-2">Export</h4>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport('json')}
+              className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-2 text-sm"
+            >
+              <Download className="w-4 h-4" />
+              JSON
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-2 text-sm"
+            >
+              <Download className="w-4 h-4" />
+              CSV
+            </button>
+          </div>
+        </section>
+
+        <section>
+          <h4 className="font-medium mb-2">Import</h4>
+          <div className="flex flex-wrap gap-2 mb-3">
+            <label className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors flex items-center gap-2 text-sm cursor-pointer">
+              <FileUp className="w-4 h-4" />
+              Choose JSON or CSV
+              <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFileChange} className="hidden" />
+            </label>
+            {canImportLocal && (
+              <button
+                onClick={handleImportLocal}
+                className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors flex items-center gap-2 text-sm"
+              >
+                <HardDrive className="w-4 h-4" />
+                Copy from this browser's local catalog
+              </button>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+            <input
+              type="checkbox"
+              checked={deleteMissing}
+              onChange={(e) => setDeleteMissing(e.target.checked)}
+            />
+            Delete games that are not in the import
+          </label>
+
+          {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+          {plan && (
+            <div className="border rounded-lg p-4 text-sm space-y-3">
+              <p className="font-medium">
+                Dry run for {sourceLabel}: {plan.creates.length} to create, {plan.updates.length} to update,{' '}
+                {plan.deletes.length} to delete, {plan.unchanged} unchanged
+                {plan.invalid.length > 0 && `, ${plan.invalid.length} invalid`}
+              </p>
+
+              {plan.invalid.length > 0 && (
+                <ul className="text-red-600 list-disc list-inside">
+                  {plan.invalid.map(({ row, errors }) => (
+                    <li key={row}>Row {row}: {errors.join(', ')}</li>
+                  ))}
+                </ul>
+              )}
+
+              {plan.creates.length > 0 && (
+                <div>
+                  <p className="text-green-700 font-medium">Create</p>
+                  <ul className="list-disc list-inside text-gray-700">
+                    {plan.creates.map((game, index) => (
+                      <li key={index}>{game.title} <span className="text-gray-400">({game.category})</span></li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.updates.length > 0 && (
+                <div>
+                  <p className="text-blue-700 font-medium">Update</p>
+                  <ul className="space-y-1 text-gray-700">
+                    {plan.updates.map(({ existing, changes, fields }) => (
+                      <li key={existing.id}>
+                        <span className="font-medium">{existing.title}</span>
+                        <ul className="ml-4 text-xs">
+                          {fields.map(field => (
+                            <li key={field} className="truncate">
+                              {field}: <span className="line-through text-red-500">{String(existing[field] ?? '')}</span>{' '}
+                              → <span className="text-green-600">{String(changes[field] ?? '')}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.deletes.length > 0 && (
+                <div>
+                  <p className="text-red-700 font-medium">Delete</p>
+                  <ul className="list-disc list-inside text-gray-700">
+                    {plan.deletes.map(game => <li key={game.id}>{game.title}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <button
+                onClick={handleApply}
+                disabled={isWorking || plan.creates.length + plan.updates.length + plan.deletes.length === 0}
+                className="w-full bg-green-500 text-white py-2 rounded-lg hover:bg-green-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                {isWorking ? 'Importing...' : 'Apply Import'}
+              </button>
+            </div>
+          )}
+
+          {result && (
+            <div className="border rounded-lg p-4 text-sm">
+              <p className="font-medium">
+                Imported: {result.created} created, {result.updated} updated, {result.deleted} deleted
+              </p>
+              {result.failures.length > 0 && (
+                <ul className="text-red-600 list-disc list-inside mt-2">
+                  {result.failures.map((failure, index) => <li key={index}>{failure}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+export default CatalogTransferModal;
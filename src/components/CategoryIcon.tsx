@@ -0,0 +1,13 @@
+import { CATEGORY_ICONS } from '../lib/categoryIcons';
+
+interface CategoryIconProps {
+  icon: string | null;
+  className?: string;
+}
+
+function CategoryIcon({ icon, className }: CategoryIconProps) {
+  const Icon = icon ? CATEGORY_ICONS[icon] : undefined;
+  return Icon ? <Icon className={className} /> : null;
+}
+
+export default CategoryIcon;
@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, GitMerge, Plus, Save, Trash2, X } from 'lucide-react';
+import CategoryIcon from './CategoryIcon';
+import { Category, CategoryInput, CategoryStore } from '../lib/categories';
+import { CATEGORY_ICONS } from '../lib/categoryIcons';
+import { GAME_COLORS, colorLabel } from '../lib/palette';
+
+interface CategoryManagerModalProps {
+  categoryStore: CategoryStore;
+  categories: Category[];
+  gameCounts: Record<string, number>;
+  canDelete: boolean;
+  // Called after every successful change so the caller can reload categories and games
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const emptyCategory: CategoryInput = { name: '', icon: 'gamepad', color: 'bg-blue-500' };
+
+function CategoryRow({
+  category,
+  categories,
+  gameCount,
+  canDelete,
+  isFirst,
+  isLast,
+  run,
+  categoryStore
+}: {
+  category: Category;
+  categories: Category[];
+  gameCount: number;
+  canDelete: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  run: (action: () => Promise<unknown>, failure: string) => void;
+  categoryStore: CategoryStore;
+}) {
+  const [draft, setDraft] = useState<CategoryInput>({
+    name: category.name,
+    icon: category.icon,
+    color: category.color
+  });
+  const [mergeTarget, setMergeTarget] = useState('');
+  const isDirty = draft.name !== category.name || draft.icon !== category.icon || draft.color !== category.color;
+  const index = categories.findIndex(c => c.id === category.id);
+
+  // Swap sort positions with the neighbour in the given direction
+  const move = (offset: -1 | 1) => {
+    const neighbour = categories[index + offset];
+    run(async () => {
+      await categoryStore.updateCategory(category.id, { sort_order: neighbour.sort_order });
+      await categoryStore.updateCategory(neighbour.id, { sort_order: category.sort_order });
+    }, 'Could not reorder categories.');
+  };
+
+  return (
+    <li className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className={`w-8 h-8 ${draft.color ?? 'bg-gray-400'} rounded-lg flex items-center justify-center flex-shrink-0`}>
+          <CategoryIcon icon={draft.icon} className="w-4 h-4 text-white" />
+        </div>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          className="flex-1 min-w-0 px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <span className="text-xs text-gray-500 whitespace-nowrap">{gameCount} games</span>
+        <button
+          onClick={() => move(-1)}
+          disabled={isFirst}
+          className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+          title="Move up"
+        >
+          <ArrowUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => move(1)}
+          disabled={isLast}
+          className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+          title="Move down"
+        >
+          <ArrowDown className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={draft.icon ?? ''}
+          onChange={(e) => setDraft({ ...draft, icon: e.target.value || null })}
+          className="px-2 py-1 border rounded"
+        >
+          <option value="">No icon</option>
+          {Object.keys(CATEGORY_ICONS).map(icon => (
+            <option key={icon} value={icon}>{icon}</option>
+          ))}
+        </select>
+        <select
+          value={draft.color ?? ''}
+          onChange={(e) => setDraft({ ...draft, color: e.target.value || null })}
+          className="px-2 py-1 border rounded"
+        >
+          <option value="">No color</option>
+          {GAME_COLORS.map(color => (
+            <option key={color} value={color}>{colorLabel(color)}</option>
+          ))}
+        </select>
+        {isDirty && (
+          <button
+            onClick={() => run(
+              () => categoryStore.updateCategory(category.id, draft),
+              'Could not save the category. Is the name already used?'
+            )}
+            className="bg-blue-500 text-white px-3 py-1 rounded hover:bg-blue-600 transition-colors flex items-center gap-1"
+          >
+            <Save className="w-3 h-3" />
+            Save
+          </button>
+        )}
+
+        {canDelete && (
+          <>
+            <select
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              className="px-2 py-1 border rounded ml-auto"
+            >
+              <option value="">Merge into...</option>
+              {categories.filter(c => c.id !== category.id).map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => run(
+                () => categoryStore.mergeCategories(category.id, mergeTarget),
+                'Could not merge the categories.'
+              )}
+              disabled={!mergeTarget}
+              className="bg-yellow-500 text-white px-3 py-1 rounded hover:bg-yellow-600 transition-colors flex items-center gap-1 disabled:opacity-50"
+            >
+              <GitMerge className="w-3 h-3" />
+              Merge
+            </button>
+            <button
+              onClick={() => run(
+                () => categoryStore.deleteCategory(category.id),
+                'Could not delete the category.'
+              )}
+              disabled={gameCount > 0}
+              title={gameCount > 0 ? 'Merge or move its games first' : 'Delete category'}
+              className="p-1 bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function CategoryManagerModal({
+  categoryStore,
+  categories,
+  gameCounts,
+  canDelete,
+  onChanged,
+  onClose
+}: CategoryManagerModalProps) {
+  const [newCategory, setNewCategory] = useState<CategoryInput>(emptyCategory);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs a store action; null/false results and thrown errors are shown inline
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    try {
+      const result = await action();
+      if (result === null || result === false) {
+        setError(failure);
+        return;
+      }
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!newCategory.name.trim()) return;
+    run(async () => {
+      const added = await categoryStore.addCategory(newCategory);
+      if (added) setNewCategory(emptyCategory);
+      return added;
+    }, 'Could not add the category. Is the name already used?');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">Manage Categories</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        <ul className="space-y-2 mb-6">
+          {categories.map((category, index) => (
+            <CategoryRow
+              // Remount when the saved row changes so the draft starts from it
+              key={`${category.id}:${category.name}:${category.icon}:${category.color}`}
+              category={category}
+              categories={categories}
+              gameCount={gameCounts[category.name] ?? 0}
+              canDelete={canDelete}
+              isFirst={index === 0}
+              isLast={index === categories.length - 1}
+              run={run}
+              categoryStore={categoryStore}
+            />
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            placeholder="New category name"
+            value={newCategory.name}
+            onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+            className="flex-1 min-w-0 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={newCategory.icon ?? ''}
+            onChange={(e) => setNewCategory({ ...newCategory, icon: e.target.value || null })}
+            className="px-2 py-2 border rounded-lg"
+          >
+            {Object.keys(CATEGORY_ICONS).map(icon => (
+              <option key={icon} value={icon}>{icon}</option>
+            ))}
+          </select>
+          <select
+            value={newCategory.color ?? ''}
+            onChange={(e) => setNewCategory({ ...newCategory, color: e.target.value || null })}
+            className="px-2 py-2 border rounded-lg"
+          >
+            {GAME_COLORS.map(color => (
+              <option key={color} value={color}>{colorLabel(color)}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CategoryManagerModal;
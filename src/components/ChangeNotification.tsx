@@ -0,0 +1,60 @@
+import { Bell, X } from 'lucide-react';
+import { Game } from '../lib/gameRepository';
+import { ChangeSummary } from '../lib/gameChanges';
+
+interface ChangeNotificationProps {
+  summary: ChangeSummary;
+  onOpenGame: (game: Game) => void;
+  onDismiss: () => void;
+}
+
+const MAX_LISTED = 4;
+
+function GameLinks({ label, games, onOpenGame }: { label: string; games: Game[]; onOpenGame: (game: Game) => void }) {
+  if (games.length === 0) return null;
+
+  return (
+    <div className="text-sm mb-2">
+      <span className="font-medium">{label}: </span>
+      {games.slice(0, MAX_LISTED).map((game, index) => (
+        <span key={game.id}>
+          {index > 0 && ', '}
+          <button onClick={() => onOpenGame(game)} className="underline hover:text-green-100">
+            {game.title}
+          </button>
+        </span>
+      ))}
+      {games.length > MAX_LISTED && ` and ${games.length - MAX_LISTED} more`}
+    </div>
+  );
+}
+
+function ChangeNotification({ summary, onOpenGame, onDismiss }: ChangeNotificationProps) {
+  const { added, updated, removed } = summary;
+  const onlyAdditions = updated.length === 0 && removed.length === 0;
+
+  return (
+    <div className="fixed top-4 right-4 z-50 bg-green-500 text-white p-4 rounded-lg shadow-lg max-w-sm">
+      <div className="flex items-start gap-3">
+        <Bell className="w-5 h-5 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <h4 className="font-bold mb-2">{onlyAdditions ? 'New Games Available!' : 'Games Updated'}</h4>
+          <GameLinks label="Added" games={added} onOpenGame={onOpenGame} />
+          <GameLinks label="Changed" games={updated} onOpenGame={onOpenGame} />
+          {removed.length > 0 && (
+            <p className="text-sm mb-2">
+              <span className="font-medium">Removed: </span>
+              {removed.slice(0, MAX_LISTED).map(game => game.title).join(', ')}
+              {removed.length > MAX_LISTED && ` and ${removed.length - MAX_LISTED} more`}
+            </p>
+          )}
+        </div>
+        <button onClick={onDismiss} className="text-white hover:text-green-100">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ChangeNotification;
@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, GripVertical, ListOrdered, Plus, Save, Star, Trash2, X } from 'lucide-react';
+import { Collection, CollectionStore, moveItem } from '../lib/collections';
+import { Game, GameRepository } from '../lib/gameRepository';
+import { rankGames } from '../lib/search';
+
+interface CollectionManagerModalProps {
+  collectionStore: CollectionStore;
+  // Searched when adding games to a collection
+  repository: GameRepository;
+  collections: Collection[];
+  canDelete: boolean;
+  // Called after every successful change so the caller can reload collections
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const MAX_SEARCH_RESULTS = 8;
+
+function CollectionManagerModal({
+  collectionStore,
+  repository,
+  collections,
+  canDelete,
+  onChanged,
+  onClose
+}: CollectionManagerModalProps) {
+  const [allGames, setAllGames] = useState<Game[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(collections[0]?.id ?? null);
+  const [search, setSearch] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    repository.getGames().then(setAllGames);
+  }, [repository]);
+
+  const selected = collections.find(c => c.id === selectedId) ?? null;
+  const gamesById = new Map(allGames.map(game => [game.id, game]));
+  const selectedGames = (selected?.game_ids ?? [])
+    .map(id => gamesById.get(id))
+    .filter((game): game is Game => game !== undefined);
+  const searchResults = selected
+    ? rankGames(search, allGames)
+      .filter(result => !selected.game_ids.includes(result.game.id))
+      .slice(0, MAX_SEARCH_RESULTS)
+    : [];
+
+  // Runs a store action; null/false results and thrown errors are shown inline
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    try {
+      const result = await action();
+      if (result === null || result === false) {
+        setError(failure);
+        return;
+      }
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const saveGames = (gameIds: string[]) => {
+    if (!selected) return;
+    run(() => collectionStore.setCollectionGames(selected.id, gameIds), 'Could not save the collection.');
+  };
+
+  // Swap sort positions with the neighbour in the given direction
+  const move = (index: number, offset: -1 | 1) => {
+    const collection = collections[index];
+    const neighbour = collections[index + offset];
+    run(async () => {
+      await collectionStore.updateCollection(collection.id, { sort_order: neighbour.sort_order });
+      return collectionStore.updateCollection(neighbour.id, { sort_order: collection.sort_order });
+    }, 'Could not reorder collections.');
+  };
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    run(async () => {
+      const added = await collectionStore.addCollection(newName);
+      if (added) {
+        setNewName('');
+        setSelectedId(added.id);
+      }
+      return added;
+    }, 'Could not add the collection. Is the name already used?');
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      saveGames(moveItem(selectedGames, dragIndex, index).map(game => game.id));
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">Manage Collections</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <ul className="space-y-2 mb-4">
+              {collections.map((collection, index) => {
+                const name = names[collection.id] ?? collection.name;
+                return (
+                  <li
+                    key={collection.id}
+                    className={`border rounded-lg p-2 flex items-center gap-1 ${
+                      collection.id === selectedId ? 'border-blue-500 bg-blue-50' : ''
+                    }`}
+                  >
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setNames({ ...names, [collection.id]: e.target.value })}
+                      className="flex-1 min-w-0 px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {name !== collection.name && (
+                      <button
+                        onClick={() => run(
+                          () => collectionStore.updateCollection(collection.id, { name }),
+                          'Could not rename the collection. Is the name already used?'
+                        )}
+                        className="p-1 text-blue-600 hover:text-blue-800"
+                        title="Save name"
+                      >
+                        <Save className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => run(
+                        () => collectionStore.updateCollection(collection.id, { is_featured: !collection.is_featured }),
+                        'Could not change the featured collection.'
+                      )}
+                      className={`p-1 ${collection.is_featured ? 'text-yellow-500' : 'text-gray-400 hover:text-gray-700'}`}
+                      title={collection.is_featured ? 'Featured on the home page' : 'Feature on the home page'}
+                    >
+                      <Star className={`w-4 h-4 ${collection.is_featured ? 'fill-current' : ''}`} />
+                    </button>
+                    <button
+                      onClick={() => setSelectedId(collection.id)}
+                      className="p-1 text-gray-500 hover:text-gray-800"
+                      title="Edit games"
+                    >
+                      <ListOrdered className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === collections.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    {canDelete && (
+                      <button
+                        onClick={() => run(
+                          () => collectionStore.deleteCollection(collection.id),
+                          'Could not delete the collection.'
+                        )}
+                        className="p-1 bg-red-500 text-white rounded hover:bg-red-600"
+                        title="Delete collection"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                placeholder="New collection, e.g. Staff Picks"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleAdd}
+                className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            </div>
+          </div>
+
+          {selected ? (
+            <div>
+              <h4 className="font-semibold mb-2">{selected.name}</h4>
+              {selectedGames.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-3">No games yet. Search below to add some.</p>
+              ) : (
+                <ul className="space-y-1 mb-3 text-sm">
+                  {selectedGames.map((game, index) => (
+                    <li
+                      key={game.id}
+                      draggable
+                      onDragStart={() => setDragIndex(index)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={() => handleDrop(index)}
+                      onDragEnd={() => setDragIndex(null)}
+                      className={`flex items-center gap-2 border rounded px-2 py-1 bg-white cursor-move ${
+                        dragIndex === index ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <GripVertical className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      <span className="flex-1 truncate">{game.title}</span>
+                      <button
+                        onClick={() => saveGames(selected.game_ids.filter(id => id !== game.id))}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove from collection"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <input
+                type="text"
+                placeholder="Search games to add"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {searchResults.length > 0 && (
+                <ul className="mt-1 border rounded-lg divide-y text-sm">
+                  {searchResults.map(({ game }) => (
+                    <li key={game.id}>
+                      <button
+                        onClick={() => saveGames([...selected.game_ids, game.id])}
+                        className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center gap-2"
+                      >
+                        <Plus className="w-4 h-4 text-green-600" />
+                        {game.title}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Add a collection to start picking games.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CollectionManagerModal;
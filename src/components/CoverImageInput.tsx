@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { ImagePlus, Trash2 } from 'lucide-react';
+import { CoverImageStore, CoverImages, validateImageFile } from '../lib/images';
+
+interface CoverImageInputProps {
+  coverImageStore: CoverImageStore;
+  thumbnailUrl: string;
+  onChange: (images: CoverImages | null) => void;
+}
+
+function CoverImageInput({ coverImageStore, thumbnailUrl, onChange }: CoverImageInputProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const problem = validateImageFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setError(null);
+    setIsUploading(true);
+    try {
+      onChange(await coverImageStore.uploadCover(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="text-sm text-gray-600">
+      <div className="flex items-center gap-3">
+        {thumbnailUrl && (
+          <img src={thumbnailUrl} alt="Cover preview" className="w-20 aspect-video object-cover rounded" />
+        )}
+        <label className="px-3 py-2 border rounded-lg hover:bg-gray-50 cursor-pointer flex items-center gap-2">
+          <ImagePlus className="w-4 h-4" />
+          {isUploading ? 'Uploading...' : thumbnailUrl ? 'Replace Cover' : 'Add Cover Image'}
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/webp,image/gif"
+            onChange={handleFileChange}
+            disabled={isUploading}
+            className="hidden"
+          />
+        </label>
+        {thumbnailUrl && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="p-2 text-red-500 hover:text-red-600"
+            title="Remove cover"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {error && <p className="text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+export default CoverImageInput;
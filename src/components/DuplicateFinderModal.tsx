@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from 'react';
+import { GitMerge, X } from 'lucide-react';
+import { Game, GameRepository } from '../lib/gameRepository';
+import { GameMergeStore, findDuplicateGroups } from '../lib/duplicates';
+import { GamePlayStats } from '../lib/playAnalytics';
+import { errorMessage } from '../lib/errors';
+import { ConfirmAction } from '../hooks/useToasts';
+
+interface DuplicateFinderModalProps {
+  repository: GameRepository;
+  merges: GameMergeStore;
+  playStats: GamePlayStats[];
+  confirm: ConfirmAction;
+  onMerged: (mergedIds: string[]) => void;
+  onClose: () => void;
+}
+
+// Groups of games that look like the same game, each merged into the copy the admin keeps
+function DuplicateFinderModal({ repository, merges, playStats, confirm, onMerged, onClose }: DuplicateFinderModalProps) {
+  const [games, setGames] = useState<Game[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Group (by its oldest game) -> the game to keep, when the admin changed it
+  const [keepChoices, setKeepChoices] = useState<Record<string, string>>({});
+  // Games left out of their group's merge
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [busyGroup, setBusyGroup] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    repository.getGames().then(loaded => {
+      setGames(loaded);
+      setIsLoading(false);
+    });
+  }, [repository]);
+
+  const groups = useMemo(() => findDuplicateGroups(games), [games]);
+  const plays = useMemo(() => new Map(playStats.map(s => [s.game_id, s.plays])), [playStats]);
+
+  // The most played copy, and the oldest of those, unless the admin picked another
+  const keptGame = (group: Game[]) => {
+    const chosen = group.find(game => game.id === keepChoices[group[0].id]);
+    return chosen ?? group.reduce((best, game) => ((plays.get(game.id) ?? 0) > (plays.get(best.id) ?? 0) ? game : best));
+  };
+
+  const toggleSkipped = (gameId: string) => {
+    setSkipped(prev => {
+      const next = new Set(prev);
+      if (next.has(gameId)) next.delete(gameId);
+      else next.add(gameId);
+      return next;
+    });
+  };
+
+  const handleMerge = async (group: Game[]) => {
+    const kept = keptGame(group);
+    const merging = group.filter(game => game.id !== kept.id && !skipped.has(game.id));
+    if (merging.length === 0) return;
+
+    const names = merging.map(game => game.title).join(', ');
+    const message = `Merge ${names} into ${kept.title}? Their plays, scores and favorites move to it, and they go to the trash.`;
+    if (!(await confirm(message, 'Merge'))) return;
+
+    const failure = `Could not merge into ${kept.title}.`;
+    setError(null);
+    setBusyGroup(group[0].id);
+    try {
+      const mergedIds = merging.map(game => game.id);
+      if (await merges.mergeGames(kept.id, mergedIds)) {
+        setGames(prev => prev.filter(game => !mergedIds.includes(game.id)));
+        onMerged(mergedIds);
+      } else {
+        setError(failure);
+      }
+    } catch (err) {
+      setError(errorMessage(err, failure));
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">Duplicate Games</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Looking for duplicates...</p>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-gray-500">No games share a link or a near-identical title.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Games with the same link or a near-identical title. Pick the copy to keep; the others are merged into it.
+            </p>
+            {groups.map(group => {
+              const kept = keptGame(group);
+              const mergeCount = group.filter(game => game.id !== kept.id && !skipped.has(game.id)).length;
+              return (
+                <div key={group[0].id} className="border rounded-lg p-3">
+                  <ul className="divide-y text-sm">
+                    {group.map(game => (
+                      <li key={game.id} className="py-2 flex items-center gap-3">
+                        <label className="flex items-center gap-1 text-gray-600" title="Keep this copy">
+                          <input
+                            type="radio"
+                            name={`keep-${group[0].id}`}
+                            checked={game.id === kept.id}
+                            onChange={() => setKeepChoices(prev => ({ ...prev, [group[0].id]: game.id }))}
+                          />
+                          Keep
+                        </label>
+                        <label className="flex items-center gap-1 text-gray-600" title="Merge into the kept copy">
+                          <input
+                            type="checkbox"
+                            checked={game.id !== kept.id && !skipped.has(game.id)}
+                            disabled={game.id === kept.id}
+                            onChange={() => toggleSkipped(game.id)}
+                          />
+                          Merge
+                        </label>
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium truncate">{game.title}</p>
+                          <p className="text-gray-500 truncate">
+                            {game.category} · {plays.get(game.id) ?? 0} plays · added {new Date(game.created_at).toLocaleDateString()}
+                          </p>
+                          <p className="text-gray-400 text-xs truncate" title={game.url}>{game.url}</p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex justify-end mt-2">
+                    <button
+                      onClick={() => handleMerge(group)}
+                      disabled={mergeCount === 0 || busyGroup === group[0].id}
+                      className="bg-blue-500 text-white px-3 py-1.5 rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-1 disabled:opacity-50"
+                    >
+                      <GitMerge className="w-4 h-4" />
+                      Merge {mergeCount} into {kept.title}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DuplicateFinderModal;
@@ -0,0 +1,46 @@
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import GameFrame from './GameFrame';
+import { sanitizeEmbedCode } from '../lib/embed';
+
+interface EmbedPreviewProps {
+  html: string;
+  sandboxPolicy?: string | null;
+  allowPolicy?: string | null;
+}
+
+// Admin preview of embed code as it will be saved and played
+function EmbedPreview({ html, sandboxPolicy, allowPolicy }: EmbedPreviewProps) {
+  const { removed } = sanitizeEmbedCode(html);
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <GameFrame
+        title="Embed preview"
+        url={html}
+        sandboxPolicy={sandboxPolicy}
+        allowPolicy={allowPolicy}
+        className="w-full h-40 border-none bg-gray-50"
+      />
+      {removed.length > 0 ? (
+        <div className="p-3 bg-yellow-50 text-sm text-yellow-800">
+          <p className="font-medium flex items-center gap-1 mb-1">
+            <ShieldAlert className="w-4 h-4" />
+            These will be stripped when saved:
+          </p>
+          <ul className="list-disc list-inside text-xs space-y-0.5">
+            {removed.map((item, index) => (
+              <li key={index}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="p-3 bg-green-50 text-sm text-green-800 flex items-center gap-1">
+          <ShieldCheck className="w-4 h-4" />
+          Nothing will be stripped from this embed code.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default EmbedPreview;
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Gamepad2, Play, Sparkles } from 'lucide-react';
+import { Game } from '../lib/gameRepository';
+
+interface FeaturedCarouselProps {
+  title: string;
+  games: Game[];
+  onOpenGame: (game: Game) => void;
+}
+
+const ADVANCE_MS = 6000;
+
+// Hero slides for the featured collection; advances on its own unless hovered
+function FeaturedCarousel({ title, games, onOpenGame }: FeaturedCarouselProps) {
+  const [index, setIndex] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+
+  useEffect(() => {
+    if (isPaused || games.length < 2) return;
+    const timer = setInterval(() => setIndex(current => (current + 1) % games.length), ADVANCE_MS);
+    return () => clearInterval(timer);
+  }, [isPaused, games.length]);
+
+  if (games.length === 0) return null;
+
+  // The list can shrink under us when games leave the collection
+  const game = games[index % games.length];
+  const step = (delta: number) => setIndex(current => (current + delta + games.length) % games.length);
+
+  return (
+    <section
+      className="mb-8"
+      onMouseEnter={() => setIsPaused(true)}
+      onMouseLeave={() => setIsPaused(false)}
+    >
+      <h2 className="text-xl font-bold text-white mb-3 flex items-center gap-2">
+        <Sparkles className="w-5 h-5 text-yellow-400" />
+        {title}
+      </h2>
+      <div className={`relative rounded-2xl overflow-hidden ${game.color} h-64 md:h-80`}>
+        {game.cover_image_url || game.thumbnail_url ? (
+          <img
+            src={game.cover_image_url || game.thumbnail_url || ''}
+            alt=""
+            className="absolute inset-0 w-full h-full object-cover"
+          />
+        ) : (
+          <Gamepad2 className="absolute right-8 top-8 w-24 h-24 text-white opacity-30" />
+        )}
+        <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-transparent opacity-80" />
+        <div className="absolute bottom-0 left-0 right-0 p-6 text-left">
+          <h3 className="text-3xl font-bold text-white mb-2">{game.title}</h3>
+          <p className="text-gray-200 mb-4 line-clamp-2 max-w-2xl">{game.description}</p>
+          <button
+            onClick={() => onOpenGame(game)}
+            className="bg-yellow-400 text-gray-900 px-5 py-2 rounded-lg font-semibold hover:bg-yellow-300 transition-colors flex items-center gap-2"
+          >
+            <Play className="w-4 h-4" />
+            Play Now
+          </button>
+        </div>
+
+        {games.length > 1 && (
+          <>
+            <button
+              onClick={() => step(-1)}
+              className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black bg-opacity-40 text-white hover:bg-opacity-60"
+              aria-label="Previous"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => step(1)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black bg-opacity-40 text-white hover:bg-opacity-60"
+              aria-label="Next"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <div className="absolute bottom-3 right-4 flex gap-1">
+              {games.map((slide, slideIndex) => (
+                <button
+                  key={slide.id}
+                  onClick={() => setIndex(slideIndex)}
+                  className={`w-2 h-2 rounded-full ${
+                    slideIndex === index % games.length ? 'bg-white' : 'bg-white bg-opacity-40'
+                  }`}
+                  aria-label={slide.title}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default FeaturedCarousel;
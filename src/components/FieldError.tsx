@@ -0,0 +1,7 @@
+// Inline message under a form input; renders nothing without a message
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-sm text-red-600">{message}</p>;
+}
+
+export default FieldError;
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { FileArchive } from 'lucide-react';
+import { BUNDLE_LIMITS, GameBundleStore, isHostedUrl, readGameBundle, validateBundleFile } from '../lib/gameBundles';
+import { formatBytes } from '../lib/offlineGames';
+
+interface GameBundleInputProps {
+  bundleStore: GameBundleStore;
+  // The hosted url of the current bundle, or '' before one is uploaded
+  url: string;
+  onChange: (url: string) => void;
+}
+
+// Checks a game zip in the browser, then uploads its files; replacing a bundle uploads a new one
+function GameBundleInput({ bundleStore, url, onChange }: GameBundleInputProps) {
+  const [progress, setProgress] = useState<{ uploaded: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const problem = validateBundleFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setError(null);
+    setSummary(null);
+    setProgress({ uploaded: 0, total: 0 });
+    try {
+      const bundle = await readGameBundle(file);
+      setProgress({ uploaded: 0, total: bundle.files.length });
+      const hostedUrl = await bundleStore.uploadBundle(bundle, (uploaded, total) => setProgress({ uploaded, total }));
+      setSummary(`${bundle.files.length} files, ${formatBytes(bundle.totalBytes)} from ${file.name}`);
+      onChange(hostedUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const hasBundle = isHostedUrl(url);
+
+  return (
+    <div className="text-sm text-gray-600">
+      <label className="px-3 py-2 border rounded-lg hover:bg-gray-50 cursor-pointer inline-flex items-center gap-2">
+        <FileArchive className="w-4 h-4" />
+        {progress
+          ? progress.total > 0 ? `Uploading ${progress.uploaded} of ${progress.total} files...` : 'Checking zip...'
+          : hasBundle ? 'Replace Game Zip' : 'Upload Game Zip'}
+        <input
+          type="file"
+          accept=".zip,application/zip"
+          onChange={handleFileChange}
+          disabled={progress !== null}
+          className="hidden"
+        />
+      </label>
+      {hasBundle && <p className="text-xs mt-1 break-all">{summary ?? `Hosted at ${url}`}</p>}
+      <p className="text-xs text-gray-500 mt-1">
+        A zip of a static HTML5 game with index.html at the top, up to {formatBytes(BUNDLE_LIMITS.zipBytes)}.
+        Pages, scripts, styles, images, audio, fonts and WebAssembly are allowed.
+      </p>
+      {error && <p className="text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+export default GameBundleInput;
@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { Gamepad2 } from 'lucide-react';
+import { Game } from '../lib/gameRepository';
+
+interface GameCoverProps {
+  game: Game;
+}
+
+// Card artwork: the game's color block, with the thumbnail fading in over it once loaded
+function GameCover({ game }: GameCoverProps) {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  if (!game.thumbnail_url || hasFailed) {
+    return (
+      <div className={`w-12 h-12 ${game.color} rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform duration-300`}>
+        <Gamepad2 className="w-6 h-6 text-white" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={`relative w-full aspect-video ${game.color} rounded-xl overflow-hidden flex items-center justify-center mb-4`}>
+      <Gamepad2 className="w-8 h-8 text-white" />
+      <img
+        src={game.thumbnail_url}
+        alt=""
+        loading="lazy"
+        decoding="async"
+        onLoad={() => setIsLoaded(true)}
+        onError={() => setHasFailed(true)}
+        className={`absolute inset-0 w-full h-full object-cover transition-all duration-300 group-hover:scale-105 ${
+          isLoaded ? 'opacity-100' : 'opacity-0'
+        }`}
+      />
+    </div>
+  );
+}
+
+export default GameCover;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { Code2, Gamepad2, Hand, HardDriveDownload, Keyboard, LucideIcon, Monitor, Mouse, Play, Smartphone, Sparkles, Users, X } from 'lucide-react';
+import { Game, GameInputType } from '../lib/gameRepository';
+import { GameCatalog } from '../lib/gameCatalog';
+import { INPUT_TYPES, RELATED_GAMES_LIMIT, formatPlayerCount } from '../lib/gameMetadata';
+import PinnedGamesRow from './PinnedGamesRow';
+
+interface GameDetailProps {
+  game: Game;
+  catalog: GameCatalog | null;
+  availableOffline: boolean;
+  onPlay: () => void;
+  onClose: () => void;
+  onOpenGame: (game: Game) => void;
+  onSelectTag: (tag: string) => void;
+}
+
+const INPUT_ICONS: Record<GameInputType, LucideIcon> = {
+  keyboard: Keyboard,
+  mouse: Mouse,
+  touch: Hand
+};
+
+// One entry in the facts grid
+function Fact({ icon: Icon, label, children }: { icon: LucideIcon; label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start gap-3">
+      <Icon className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+      <div>
+        <p className="text-xs uppercase tracking-wide text-gray-400">{label}</p>
+        <div className="text-gray-100">{children}</div>
+      </div>
+    </div>
+  );
+}
+
+// What a player sees before launching a game: its metadata, how to play it and similar games
+function GameDetail({ game, catalog, availableOffline, onPlay, onClose, onOpenGame, onSelectTag }: GameDetailProps) {
+  const [related, setRelated] = useState<Game[]>([]);
+  const coverUrl = game.cover_image_url || game.thumbnail_url;
+  const playerCount = formatPlayerCount(game);
+  const inputTypes = INPUT_TYPES.filter(({ value }) => game.input_types?.includes(value));
+  const developer = game.developer?.trim();
+  const mobileFriendly = game.mobile_friendly ?? null;
+
+  useEffect(() => {
+    if (!catalog) return;
+    let cancelled = false;
+    catalog.getRelatedGames(game, RELATED_GAMES_LIMIT)
+      .then(games => {
+        if (!cancelled) setRelated(games);
+      })
+      .catch(error => console.error('Failed to load related games:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [catalog, game]);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black bg-opacity-90 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-full overflow-y-auto bg-gray-900 rounded-2xl border border-white border-opacity-20"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={game.title}
+      >
+        <div className={`relative w-full aspect-video max-h-72 ${game.color} flex items-center justify-center`}>
+          {coverUrl ? (
+            <img src={coverUrl} alt="" className="absolute inset-0 w-full h-full object-cover" />
+          ) : (
+            <Gamepad2 className="w-16 h-16 text-white" />
+          )}
+          <button
+            onClick={onClose}
+            className="absolute top-3 right-3 p-2 rounded-full bg-black bg-opacity-50 text-white hover:bg-opacity-70"
+            title="Back to games"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="min-w-0">
+              <h2 className="text-3xl font-bold text-white">{game.title}</h2>
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                <span className="px-3 py-1 bg-white bg-opacity-20 rounded-full text-sm text-gray-200">{game.category}</span>
+                {availableOffline && (
+                  <span className="flex items-center gap-1 px-2 py-1 bg-green-100 text-green-700 text-xs rounded-full" title="Saved on this device">
+                    <HardDriveDownload className="w-3 h-3" />
+                    Offline ready
+                  </span>
+                )}
+              </div>
+            </div>
+            <button
+              onClick={onPlay}
+              className="flex items-center gap-2 px-6 py-3 bg-yellow-400 text-gray-900 font-bold rounded-lg hover:bg-yellow-300 transition-colors"
+              autoFocus
+            >
+              <Play className="w-5 h-5" />
+              Play
+            </button>
+          </div>
+
+          {game.description && <p className="text-gray-300">{game.description}</p>}
+
+          {(playerCount || inputTypes.length > 0 || mobileFriendly !== null || developer) && (
+            <div className="grid sm:grid-cols-2 gap-4">
+              {playerCount && (
+                <Fact icon={Users} label="Players">{playerCount}</Fact>
+              )}
+              {inputTypes.length > 0 && (
+                <Fact icon={Gamepad2} label="Controls">
+                  <span className="flex flex-wrap gap-3">
+                    {inputTypes.map(({ value, label }) => {
+                      const Icon = INPUT_ICONS[value];
+                      return (
+                        <span key={value} className="flex items-center gap-1">
+                          <Icon className="w-4 h-4 text-gray-400" />
+                          {label}
+                        </span>
+                      );
+                    })}
+                  </span>
+                </Fact>
+              )}
+              {mobileFriendly !== null && (
+                <Fact icon={mobileFriendly ? Smartphone : Monitor} label="Devices">
+                  {mobileFriendly ? 'Works on phones and tablets' : 'Best on a computer'}
+                </Fact>
+              )}
+              {developer && (
+                <Fact icon={Code2} label="Made by">
+                  {game.developer_url ? (
+                    <a
+                      href={game.developer_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-yellow-400 hover:text-yellow-300 underline"
+                    >
+                      {developer}
+                    </a>
+                  ) : developer}
+                </Fact>
+              )}
+            </div>
+          )}
+
+          {game.how_to_play?.trim() && (
+            <section>
+              <h3 className="text-lg font-bold text-white mb-2">How to Play</h3>
+              <p className="text-gray-300 whitespace-pre-line">{game.how_to_play.trim()}</p>
+            </section>
+          )}
+
+          {game.tags && game.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {game.tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => onSelectTag(tag)}
+                  className="px-3 py-1 text-sm rounded-full border border-white border-opacity-30 text-gray-300 hover:bg-white hover:bg-opacity-10"
+                  title={`Games tagged ${tag}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <PinnedGamesRow title="More Like This" icon={Sparkles} games={related} onOpenGame={onOpenGame} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default GameDetail;
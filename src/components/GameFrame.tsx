@@ -0,0 +1,68 @@
+import { forwardRef } from 'react';
+import {
+  DEFAULT_ALLOW_POLICY,
+  buildEmbedDocument,
+  isEmbedCode,
+  resolveEmbedSandbox,
+  sanitizeEmbedCode
+} from '../lib/embed';
+import { GameSourceKind } from '../lib/gameRepository';
+import { gameSourceKind } from '../lib/gameBundles';
+
+interface GameFrameProps {
+  title: string;
+  url: string;
+  // Worked out from the url when not given
+  sourceKind?: GameSourceKind | null;
+  sandboxPolicy?: string | null;
+  allowPolicy?: string | null;
+  className?: string;
+  style?: React.CSSProperties;
+  onLoad?: () => void;
+}
+
+// Renders a game link, its embed code or a hosted bundle inside an iframe; embed code never
+// touches our DOM. The ref reaches the iframe so the player can give it keyboard focus.
+const GameFrame = forwardRef<HTMLIFrameElement, GameFrameProps>(function GameFrame(
+  { title, url, sourceKind, sandboxPolicy, allowPolicy, className, style, onLoad },
+  ref
+) {
+  const allow = allowPolicy?.trim() || DEFAULT_ALLOW_POLICY;
+  const kind = sourceKind ?? gameSourceKind({ url });
+
+  if (isEmbedCode(url)) {
+    // Sanitize again on render in case the row was written before sanitizing existed
+    const { html } = sanitizeEmbedCode(url);
+    return (
+      <iframe
+        ref={ref}
+        srcDoc={buildEmbedDocument(html)}
+        sandbox={resolveEmbedSandbox(sandboxPolicy)}
+        className={className}
+        title={title}
+        style={style}
+        allow={allow}
+        allowFullScreen
+        onLoad={onLoad}
+      />
+    );
+  }
+
+  // Hosted bundles are served from our origin, so they get the same sandbox as embed code
+  // to keep them away from our storage and sessions
+  return (
+    <iframe
+      ref={ref}
+      src={url}
+      sandbox={kind === 'hosted' ? resolveEmbedSandbox(sandboxPolicy) : sandboxPolicy?.trim() || undefined}
+      className={className}
+      title={title}
+      style={style}
+      allow={allow}
+      allowFullScreen
+      onLoad={onLoad}
+    />
+  );
+});
+
+export default GameFrame;
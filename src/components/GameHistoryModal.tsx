@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { Game } from '../lib/gameRepository';
+import { errorMessage } from '../lib/errors';
+import {
+  GameHistory,
+  GameRevision,
+  REVISION_LABELS,
+  diffSnapshots,
+  revisionSnapshot
+} from '../lib/gameHistory';
+
+interface GameHistoryModalProps {
+  history: GameHistory;
+  game: Game;
+  onReverted: (game: Game) => void;
+  onClose: () => void;
+}
+
+// Data URL covers would flood the table
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  const text = String(value);
+  if (text.startsWith('data:')) return 'Uploaded image';
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+function GameHistoryModal({ history, game, onReverted, onClose }: GameHistoryModalProps) {
+  const [revisions, setRevisions] = useState<GameRevision[]>([]);
+  const [selected, setSelected] = useState<GameRevision | null>(null);
+  const [compareWithCurrent, setCompareWithCurrent] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReverting, setIsReverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    history.getRevisions(game.id).then(loaded => {
+      setRevisions(loaded);
+      setSelected(loaded[0] ?? null);
+      setIsLoading(false);
+    });
+  }, [history, game.id]);
+
+  const changes = selected
+    ? compareWithCurrent
+      ? diffSnapshots(revisionSnapshot(selected), game)
+      : diffSnapshots(selected.before, selected.after)
+    : [];
+
+  const handleRevert = async () => {
+    if (!selected) return;
+    setError(null);
+    setIsReverting(true);
+    try {
+      const reverted = await history.revertToRevision(selected);
+      if (!reverted) {
+        setError('Could not restore this version.');
+        return;
+      }
+      onReverted(reverted);
+      setRevisions(await history.getRevisions(game.id));
+    } catch (err) {
+      setError(errorMessage(err, 'Could not restore this version.'));
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">History: {game.title}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes have been recorded for this game yet.</p>
+        ) : (
+          <div className="grid md:grid-cols-[14rem_1fr] gap-4">
+            <ul className="text-sm border rounded-lg divide-y max-h-96 overflow-y-auto">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelected(revision)}
+                    className={`w-full text-left px-3 py-2 hover:bg-gray-50 ${
+                      selected?.id === revision.id ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <p className="font-medium">{REVISION_LABELS[revision.action]}</p>
+                    <p className="text-xs text-gray-500">{new Date(revision.changed_at).toLocaleString()}</p>
+                    <p className="text-xs text-gray-500 truncate">{revision.actor_email ?? 'Unknown'}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <select
+                    value={compareWithCurrent ? 'current' : 'revision'}
+                    onChange={(e) => setCompareWithCurrent(e.target.value === 'current')}
+                    className="text-sm border border-gray-300 rounded-lg px-2 py-1"
+                  >
+                    <option value="revision">Changes made in this revision</option>
+                    <option value="current">This version vs. current</option>
+                  </select>
+                  <button
+                    onClick={handleRevert}
+                    disabled={isReverting}
+                    className="bg-blue-500 text-white px-3 py-1.5 rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-2 text-sm disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    {isReverting ? 'Restoring...' : 'Restore This Version'}
+                  </button>
+                </div>
+
+                {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+                {changes.length > 0 ? (
+                  <table className="w-full text-sm table-fixed">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 w-28 font-medium">Field</th>
+                        <th className="py-2 font-medium">{compareWithCurrent ? 'This version' : 'Before'}</th>
+                        <th className="py-2 font-medium">{compareWithCurrent ? 'Current' : 'After'}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changes.map(change => (
+                        <tr key={change.field} className="border-b last:border-0 align-top">
+                          <td className="py-2 pr-2 text-gray-600">{change.field}</td>
+                          <td className="py-2 pr-2 break-words bg-red-50 text-red-800">
+                            {formatValue(change.before)}
+                          </td>
+                          <td className="py-2 break-words bg-green-50 text-green-800">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    {compareWithCurrent
+                      ? 'This version matches the game as it is now.'
+                      : 'No content changed in this revision.'}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GameHistoryModal;
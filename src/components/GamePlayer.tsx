@@ -0,0 +1,209 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { ExternalLink, HardDriveDownload, Maximize, Minimize, RotateCw, Trophy } from 'lucide-react';
+import { Game } from '../lib/gameRepository';
+import { gameSourceKind } from '../lib/gameBundles';
+import { PLAYER_PRESETS, PlayerPreset, fitFrame, loadPlayerPreset, savePlayerPreset } from '../lib/playerPresets';
+import {
+  SdkSession,
+  allowedSdkOrigins,
+  applySdkMessage,
+  emptySdkSession,
+  isFromFrame,
+  parseSdkMessage,
+  toHubMessage
+} from '../lib/gameSdk';
+import { LeaderboardStore } from '../lib/leaderboards';
+import GameFrame from './GameFrame';
+import LeaderboardPanel from './LeaderboardPanel';
+
+interface GamePlayerProps {
+  game: Game;
+  // Scores games report through the SDK; null hides the leaderboard
+  leaderboards: LeaderboardStore | null;
+  // The service worker holds a copy, so the game plays without a connection
+  availableOffline: boolean;
+  onClose: () => void;
+}
+
+const toolbarButton = 'p-2 rounded text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-40';
+
+// The play overlay. The game's iframe keeps keyboard focus so keys go to the
+// game rather than the hub's shortcuts. Key it by game id so presets reload.
+function GamePlayer({ game, leaderboards, availableOffline, onClose }: GamePlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [preset, setPreset] = useState<PlayerPreset>(() => loadPlayerPreset(game.id));
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  // Bumped to remount the iframe, which reloads embed code as well as links
+  const [loadCount, setLoadCount] = useState(0);
+  const [sdkSession, setSdkSession] = useState<SdkSession>(emptySdkSession);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+
+  const focusGame = () => frameRef.current?.focus();
+
+  useLayoutEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(document.fullscreenElement === containerRef.current);
+      focusGame();
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  // Only the game's frame, from an allowed origin, may talk to the hub
+  useEffect(() => {
+    const origins = allowedSdkOrigins(game);
+    const handleMessage = (event: MessageEvent) => {
+      if (!origins.includes(event.origin) || !isFromFrame(event.source, frameRef.current)) return;
+      const message = parseSdkMessage(event.data);
+      if (!message) return;
+
+      if (message.type === 'ready') {
+        // isFromFrame only passes windows. Opaque origins can only be reached with '*'
+        (event.source as Window).postMessage(
+          toHubMessage({ type: 'connected' }),
+          event.origin === 'null' ? '*' : event.origin
+        );
+      }
+      setSdkSession(session => applySdkMessage(session, message));
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [game]);
+
+  // Open the leaderboard once a game turns out to use the SDK
+  useEffect(() => {
+    if (sdkSession.connected) setShowLeaderboard(true);
+  }, [sdkSession.connected]);
+
+  // Leave fullscreen if the player closes while in it
+  useEffect(() => () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  }, []);
+
+  const handleToggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await containerRef.current?.requestFullscreen();
+      }
+    } catch (error) {
+      console.error('Fullscreen failed:', error);
+    }
+  };
+
+  const handlePresetChange = (next: PlayerPreset) => {
+    setPreset(next);
+    savePlayerPreset(game.id, next);
+    focusGame();
+  };
+
+  const frameSize = fitFrame(preset, stageSize);
+  const sourceKind = gameSourceKind(game);
+  // Embed code has no address, and hosted bundles must stay in their sandboxed frame
+  const canOpenInTab = sourceKind === 'external';
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black bg-opacity-90 flex items-center justify-center p-4">
+      <div
+        ref={containerRef}
+        className={`w-full h-full bg-white overflow-hidden flex flex-col ${isFullscreen ? '' : 'max-w-6xl max-h-full rounded-lg'}`}
+      >
+        <div className="flex items-center justify-between gap-2 p-4 bg-gray-100 border-b">
+          <div className="flex items-center gap-2 min-w-0">
+            <h2 className="text-xl font-bold text-gray-800 truncate">{game.title}</h2>
+            {availableOffline && (
+              <span className="flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-700 text-xs rounded-full flex-shrink-0" title="Saved on this device">
+                <HardDriveDownload className="w-3 h-3" />
+                Offline ready
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <select
+              value={preset}
+              onChange={(e) => handlePresetChange(e.target.value as PlayerPreset)}
+              className="mr-1 px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+              title="Frame size"
+            >
+              {PLAYER_PRESETS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {leaderboards && (
+              <button
+                onClick={() => setShowLeaderboard(show => !show)}
+                className={`${toolbarButton} ${showLeaderboard ? 'bg-gray-200' : ''}`}
+                title={showLeaderboard ? 'Hide leaderboard' : 'Show leaderboard'}
+              >
+                <Trophy className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={() => setLoadCount(count => count + 1)} className={toolbarButton} title="Reload game">
+              <RotateCw className="w-5 h-5" />
+            </button>
+            {document.fullscreenEnabled && (
+              <button
+                onClick={handleToggleFullscreen}
+                className={toolbarButton}
+                title={isFullscreen ? 'Exit fullscreen' : 'Fullscreen'}
+              >
+                {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+              </button>
+            )}
+            <a
+              href={canOpenInTab ? game.url : undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-disabled={!canOpenInTab}
+              className={`${toolbarButton} ${canOpenInTab ? '' : 'opacity-40 pointer-events-none'}`}
+              title={canOpenInTab ? 'Open in new tab' : 'Embedded games can only be played here'}
+            >
+              <ExternalLink className="w-5 h-5" />
+            </a>
+            <button
+              onClick={onClose}
+              className="ml-2 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+            >
+              Back to Games
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 flex">
+          <div ref={stageRef} className="flex-1 min-w-0 flex items-center justify-center bg-gray-900">
+            <GameFrame
+              key={loadCount}
+              ref={frameRef}
+              title={game.title}
+              url={game.url}
+              sourceKind={sourceKind}
+              sandboxPolicy={game.sandbox_policy}
+              allowPolicy={game.allow_policy}
+              className="border-none bg-white"
+              style={frameSize ?? { width: '100%', height: '100%' }}
+              onLoad={focusGame}
+            />
+          </div>
+          {leaderboards && showLeaderboard && (
+            <LeaderboardPanel leaderboards={leaderboards} gameId={game.id} session={sdkSession} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default GamePlayer;
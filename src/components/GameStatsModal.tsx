@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Game, GameRepository } from '../lib/gameRepository';
+import { GamePlayStats, TRENDING_DAYS, averageSessionSeconds, formatDuration, sortGames } from '../lib/playAnalytics';
+
+interface GameStatsModalProps {
+  repository: GameRepository;
+  stats: GamePlayStats[];
+  onClose: () => void;
+}
+
+function GameStatsModal({ repository, stats, onClose }: GameStatsModalProps) {
+  // The grid only holds the pages it has shown, so load the whole catalog here
+  const [games, setGames] = useState<Game[]>([]);
+
+  useEffect(() => {
+    repository.getGames().then(setGames);
+  }, [repository]);
+
+  const byGame = new Map(stats.map(s => [s.game_id, s]));
+  const totalPlays = stats.reduce((sum, s) => sum + s.plays, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">Play Stats</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">{totalPlays} plays across {games.length} games</p>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Game</th>
+              <th className="py-2 font-medium text-right">Plays</th>
+              <th className="py-2 font-medium text-right">Last {TRENDING_DAYS} days</th>
+              <th className="py-2 font-medium text-right">Avg. session</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortGames(games, 'popular', stats).map(game => {
+              const gameStats = byGame.get(game.id);
+              return (
+                <tr key={game.id} className="border-b last:border-0">
+                  <td className="py-2 pr-2 truncate max-w-xs">{game.title}</td>
+                  <td className="py-2 text-right">{gameStats?.plays ?? 0}</td>
+                  <td className="py-2 text-right">{gameStats?.recent_plays ?? 0}</td>
+                  <td className="py-2 text-right">
+                    {gameStats ? formatDuration(averageSessionSeconds(gameStats)) : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default GameStatsModal;
@@ -0,0 +1,28 @@
+interface HighlightedTextProps {
+  text: string;
+  // Whole words to highlight, lower-case
+  terms: string[];
+}
+
+// Wraps every occurrence of the matched words in <mark>
+function HighlightedText({ text, terms }: HighlightedTextProps) {
+  if (terms.length === 0) return <>{text}</>;
+
+  const matched = new Set(terms);
+  // Splitting on a capturing group keeps the words at odd indexes
+  const parts = text.split(/([A-Za-z0-9]+)/);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 && matched.has(part.toLowerCase()) ? (
+          <mark key={index} className="bg-yellow-300 text-gray-900 rounded px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+export default HighlightedText;
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { Award, Save, Trophy } from 'lucide-react';
+import { SdkSession } from '../lib/gameSdk';
+import {
+  LeaderboardStore,
+  MAX_PLAYER_NAME,
+  ScoreEntry,
+  loadPlayerName,
+  savePlayerName
+} from '../lib/leaderboards';
+
+interface LeaderboardPanelProps {
+  leaderboards: LeaderboardStore;
+  gameId: string;
+  session: SdkSession;
+}
+
+const formatScore = (score: number) => score.toLocaleString();
+
+// Sits beside the game frame: the live score from the SDK, top scores, and a form
+// to save the final score once the game reports game over
+function LeaderboardPanel({ leaderboards, gameId, session }: LeaderboardPanelProps) {
+  const [entries, setEntries] = useState<ScoreEntry[]>([]);
+  const [playerName, setPlayerName] = useState(loadPlayerName);
+  const [savedScore, setSavedScore] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    leaderboards.getTopScores(gameId).then(setEntries);
+  }, [leaderboards, gameId]);
+
+  // A new run can be saved again
+  useEffect(() => {
+    if (!session.isOver) setSavedScore(null);
+  }, [session.isOver]);
+
+  const canSave = session.isOver && session.finalScore !== null && savedScore !== session.finalScore;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (session.finalScore === null) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await leaderboards.submitScore({ game_id: gameId, player_name: playerName, score: session.finalScore });
+      if (saved) {
+        savePlayerName(playerName);
+        setSavedScore(session.finalScore);
+        setEntries(await leaderboards.getTopScores(gameId));
+      } else {
+        setError('Could not save your score. Please try again.');
+      }
+    } catch (err) {
+      // Rate limits and invalid names come back as readable messages
+      setError(err instanceof Error ? err.message : 'Could not save your score.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 bg-gray-100 border-l p-4 overflow-y-auto text-sm">
+      {session.connected && (
+        <div className="mb-4">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Score</p>
+          <p className="text-3xl font-bold text-gray-800">
+            {session.score === null ? '–' : formatScore(session.score)}
+          </p>
+          {session.isOver && <p className="text-red-600 font-semibold">Game over</p>}
+        </div>
+      )}
+
+      {canSave && (
+        <form onSubmit={handleSave} className="mb-4 space-y-2">
+          <input
+            type="text"
+            placeholder="Your name"
+            value={playerName}
+            maxLength={MAX_PLAYER_NAME}
+            onChange={(e) => setPlayerName(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !playerName.trim()}
+            className="w-full bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            Save score
+          </button>
+        </form>
+      )}
+      {error && <p className="text-red-600 mb-4">{error}</p>}
+
+      <h3 className="font-semibold text-gray-800 mb-2 flex items-center gap-2">
+        <Trophy className="w-4 h-4 text-yellow-500" />
+        Leaderboard
+      </h3>
+      {entries.length === 0 ? (
+        <p className="text-gray-500 mb-4">No scores yet.</p>
+      ) : (
+        <ol className="mb-4 space-y-1">
+          {entries.map((entry, index) => (
+            <li key={entry.id} className="flex items-center gap-2">
+              <span className="w-5 text-right text-gray-500">{index + 1}.</span>
+              <span className="flex-1 truncate">{entry.player_name}</span>
+              <span className="font-semibold">{formatScore(entry.score)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {session.achievements.length > 0 && (
+        <>
+          <h3 className="font-semibold text-gray-800 mb-2 flex items-center gap-2">
+            <Award className="w-4 h-4 text-purple-500" />
+            Achievements
+          </h3>
+          <ul className="space-y-1">
+            {session.achievements.map(achievement => (
+              <li key={achievement.id}>{achievement.name}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </aside>
+  );
+}
+
+export default LeaderboardPanel;
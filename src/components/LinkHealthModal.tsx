@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Link2Off, RefreshCw, X } from 'lucide-react';
+import { Game, GameRepository } from '../lib/gameRepository';
+import { LinkChecker } from '../lib/linkChecker';
+import { describeLinkHealth, isBrokenLink } from '../lib/linkHealth';
+
+interface LinkHealthModalProps {
+  repository: GameRepository;
+  linkChecker: LinkChecker;
+  // Called after a check so the grid can pick up the new flags
+  onChecked: () => void;
+  onClose: () => void;
+}
+
+function LinkHealthModal({ repository, linkChecker, onChecked, onClose }: LinkHealthModalProps) {
+  const [games, setGames] = useState<Game[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    repository.getGames().then(setGames);
+  }, [repository]);
+
+  const broken = games.filter(game => isBrokenLink(game));
+  const unchecked = games.filter(game => !game.link_checked_at).length;
+  const lastChecked = games
+    .map(game => game.link_checked_at)
+    .filter((checkedAt): checkedAt is string => Boolean(checkedAt))
+    .sort()
+    .pop();
+
+  const handleCheck = async () => {
+    setError(null);
+    setProgress({ done: 0, total: games.length });
+    try {
+      await linkChecker.checkGames(games, (done, total) => setProgress({ done, total }));
+      setGames(await repository.getGames());
+      onChecked();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The link check failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">Link Health</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4 text-sm text-gray-600">
+          <p>
+            {broken.length} broken of {games.length} games
+            {unchecked > 0 && `, ${unchecked} not checked yet`}
+            {lastChecked && ` · last checked ${new Date(lastChecked).toLocaleString()}`}
+          </p>
+          <button
+            onClick={handleCheck}
+            disabled={progress !== null || games.length === 0}
+            className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${progress ? 'animate-spin' : ''}`} />
+            {progress ? `Checking ${progress.done}/${progress.total}...` : 'Check All Links'}
+          </button>
+        </div>
+
+        {!linkChecker.detailed && (
+          <p className="text-xs text-gray-500 mb-4">
+            Checking from the browser only shows whether each site answers. Run{' '}
+            <code>npm run check-links</code> or connect Supabase to also catch error pages and sites that block framing.
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        {broken.length > 0 ? (
+          <ul className="divide-y text-sm">
+            {broken.map(game => (
+              <li key={game.id} className="py-2 flex items-start gap-2">
+                <Link2Off className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium">{game.title}</p>
+                  <p className="text-gray-500 truncate">{game.url}</p>
+                  <p className="text-red-600">
+                    {describeLinkHealth(game)}
+                    {game.link_response_ms != null && ` · ${game.link_response_ms} ms`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No broken links found.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default LinkHealthModal;
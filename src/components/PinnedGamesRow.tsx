@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Gamepad2, GripVertical, LucideIcon } from 'lucide-react';
+import { Game } from '../lib/gameRepository';
+import { moveItem } from '../lib/collections';
+
+interface PinnedGamesRowProps {
+  title: string;
+  icon: LucideIcon;
+  games: Game[];
+  onOpenGame: (game: Game) => void;
+  // Makes the games draggable; called with the ids in their new order
+  onReorder?: (gameIds: string[]) => void;
+}
+
+// A compact horizontal strip of games shown above the main grid
+function PinnedGamesRow({ title, icon: Icon, games, onOpenGame, onReorder }: PinnedGamesRowProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  if (games.length === 0) return null;
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onReorder?.(moveItem(games, dragIndex, index).map(game => game.id));
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <section className="mb-8">
+      <h2 className="text-xl font-bold text-white mb-3 flex items-center gap-2">
+        <Icon className="w-5 h-5 text-yellow-400" />
+        {title}
+      </h2>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {games.map((game, index) => (
+          <button
+            key={game.id}
+            onClick={() => onOpenGame(game)}
+            draggable={Boolean(onReorder)}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => onReorder && e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => setDragIndex(null)}
+            className={`flex-shrink-0 w-40 text-left bg-white bg-opacity-10 rounded-xl p-3 border border-white border-opacity-20 hover:bg-opacity-20 transition-all duration-300 relative ${
+              dragIndex === index ? 'opacity-50' : ''
+            } ${onReorder ? 'cursor-move' : ''}`}
+          >
+            {onReorder && <GripVertical className="absolute top-1 right-1 w-4 h-4 text-white opacity-60" />}
+            <div className={`w-full aspect-video ${game.color} rounded-lg overflow-hidden flex items-center justify-center mb-2`}>
+              {game.thumbnail_url ? (
+                <img src={game.thumbnail_url} alt="" loading="lazy" draggable={false} className="w-full h-full object-cover" />
+              ) : (
+                <Gamepad2 className="w-6 h-6 text-white" />
+              )}
+            </div>
+            <p className="text-sm font-medium text-white truncate">{game.title}</p>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+export default PinnedGamesRow;
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { UserRound, X } from 'lucide-react';
+import { PlayerAccountService } from '../lib/auth';
+
+interface PlayerAccountModalProps {
+  playerAccounts: PlayerAccountService;
+  onSignedIn: () => void;
+  onClose: () => void;
+}
+
+function PlayerAccountModal({ playerAccounts, onSignedIn, onClose }: PlayerAccountModalProps) {
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setMessage(null);
+    setIsSubmitting(true);
+    try {
+      if (mode === 'signIn') {
+        await playerAccounts.signIn(email, password);
+        onSignedIn();
+      } else {
+        await playerAccounts.signUp(email, password);
+        setMessage('Check your email to confirm your account, then sign in.');
+        setMode('signIn');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg p-6 w-full max-w-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <UserRound className="w-5 h-5" />
+            {mode === 'signIn' ? 'Sign In' : 'Create Account'}
+          </h3>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Sign in to keep your favorites and recently played games on every device.
+          </p>
+          <input
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+            required
+            minLength={6}
+            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {message && <p className="text-sm text-green-600">{message}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {isSubmitting ? 'Please wait...' : mode === 'signIn' ? 'Sign In' : 'Create Account'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode(mode === 'signIn' ? 'signUp' : 'signIn')}
+            className="w-full text-sm text-blue-600 hover:underline"
+          >
+            {mode === 'signIn' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default PlayerAccountModal;
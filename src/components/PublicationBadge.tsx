@@ -0,0 +1,29 @@
+import { Clock, EyeOff, PencilLine } from 'lucide-react';
+import { Game } from '../lib/gameRepository';
+import { publicationState } from '../lib/gamePublication';
+
+const BADGES = {
+  draft: { icon: PencilLine, label: 'Draft', className: 'bg-gray-600' },
+  scheduled: { icon: Clock, label: 'Scheduled', className: 'bg-purple-600' },
+  hidden: { icon: EyeOff, label: 'Hidden', className: 'bg-yellow-700' }
+};
+
+// Tells admins a game isn't live yet; renders nothing for live games
+function PublicationBadge({ game }: { game: Pick<Game, 'status' | 'publish_at'> }) {
+  const state = publicationState(game);
+  if (state === 'published') return null;
+
+  const { icon: Icon, label, className } = BADGES[state];
+  const releaseTime = state === 'scheduled' && game.publish_at ? new Date(game.publish_at).toLocaleString() : null;
+  return (
+    <span
+      className={`flex items-center gap-1 px-2 py-1 text-white text-xs rounded-full ${className}`}
+      title={releaseTime ? `Goes live ${releaseTime}` : `${label} games are only shown to admins`}
+    >
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
+
+export default PublicationBadge;
@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Check, Edit3, X } from 'lucide-react';
+import { Category } from '../lib/categories';
+import { errorMessage, isDuplicateError } from '../lib/errors';
+import { ConfirmAction } from '../hooks/useToasts';
+import { Game, GameRepository, GameWriteOptions, NewGame } from '../lib/gameRepository';
+import { GameSubmission, SubmissionStatus, SubmissionStore } from '../lib/submissions';
+import TagsInput from './TagsInput';
+
+type Draft = Pick<NewGame, 'title' | 'description' | 'category' | 'url'> & { tags: string[] };
+
+interface SubmissionQueueModalProps {
+  submissions: SubmissionStore;
+  // Looks up the games that suggestions duplicate
+  repository: GameRepository;
+  categories: Category[];
+  // Creates the game from the reviewed fields; the queue then marks the suggestion approved
+  onApprove: (fields: Draft, options: GameWriteOptions) => Promise<Game | null>;
+  onReviewed: () => void;
+  confirm: ConfirmAction;
+  onClose: () => void;
+}
+
+const STATUS_TABS: { value: SubmissionStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' }
+];
+
+function SubmissionQueueModal({
+  submissions,
+  repository,
+  categories,
+  onApprove,
+  onReviewed,
+  confirm,
+  onClose
+}: SubmissionQueueModalProps) {
+  const [status, setStatus] = useState<SubmissionStatus>('pending');
+  const [queue, setQueue] = useState<GameSubmission[]>([]);
+  const [duplicates, setDuplicates] = useState<Record<string, Game>>({});
+  const [editing, setEditing] = useState<{ id: string; draft: Draft } | null>(null);
+  const [rejecting, setRejecting] = useState<{ id: string; reason: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const loaded = await submissions.getSubmissions(status);
+      const duplicateIds = Array.from(new Set(loaded.flatMap(s => (s.duplicate_of ? [s.duplicate_of] : []))));
+      const games = await Promise.all(duplicateIds.map(id => repository.getGame(id)));
+      if (cancelled) return;
+      setQueue(loaded);
+      setDuplicates(Object.fromEntries(games.flatMap(game => (game ? [[game.id, game]] : []))));
+    };
+    load().catch(err => setError(errorMessage(err, 'Could not load suggestions.')));
+    return () => {
+      cancelled = true;
+    };
+  }, [submissions, repository, status]);
+
+  const draftFor = (submission: GameSubmission): Draft => ({
+    title: submission.title,
+    description: submission.description,
+    // Fall back to the first category when the player didn't pick one we still have
+    category: categories.some(c => c.name === submission.category)
+      ? submission.category as string
+      : categories[0]?.name ?? 'Arcade',
+    url: submission.url,
+    tags: submission.tags ?? []
+  });
+
+  const review = async (submission: GameSubmission, action: () => Promise<boolean>) => {
+    setError(null);
+    setBusyId(submission.id);
+    try {
+      if (await action()) {
+        setQueue(prev => prev.filter(s => s.id !== submission.id));
+        setEditing(null);
+        setRejecting(null);
+        onReviewed();
+      }
+    } catch (err) {
+      setError(errorMessage(err, 'Could not update the suggestion.'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApprove = async (submission: GameSubmission, draft: Draft) => {
+    const duplicate = submission.duplicate_of ? duplicates[submission.duplicate_of] : undefined;
+    if (duplicate && !(await confirm(`${duplicate.title} already uses this link. Add it again anyway?`, 'Add anyway'))) return;
+
+    review(submission, async () => {
+      let game: Game | null;
+      try {
+        game = await onApprove(draft, { allowDuplicates: Boolean(duplicate) });
+      } catch (err) {
+        // Similar titles are only found when the game is saved
+        if (!isDuplicateError(err)) throw err;
+        if (!(await confirm(`${err.message} Add it anyway?`, 'Add anyway'))) return false;
+        game = await onApprove(draft, { allowDuplicates: true });
+      }
+      if (!game) {
+        setError('Could not create the game.');
+        return false;
+      }
+      return submissions.approve(submission.id, game.id);
+    });
+  };
+
+  const handleReject = (submission: GameSubmission, reason: string) =>
+    review(submission, () => submissions.reject(submission.id, reason));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">Game Suggestions</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.value}
+              onClick={() => setStatus(tab.value)}
+              className={`px-3 py-1 rounded-full text-sm ${
+                status === tab.value ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        {queue.length === 0 ? (
+          <p className="text-sm text-gray-500">No {status} suggestions.</p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {queue.map(submission => {
+              const duplicate = submission.duplicate_of ? duplicates[submission.duplicate_of] : undefined;
+              const isBusy = busyId === submission.id;
+              return (
+                <li key={submission.id} className="py-3 space-y-2">
+                  <div>
+                    <p className="font-medium">{submission.title}</p>
+                    <a
+                      href={submission.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline break-all"
+                    >
+                      {submission.url}
+                    </a>
+                    {submission.description && <p className="text-gray-600 mt-1">{submission.description}</p>}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {submission.category ?? 'No category'}
+                      {submission.tags && submission.tags.length > 0 && ` · ${submission.tags.join(', ')}`}
+                      {' · '}from {submission.submitter_name ?? 'anonymous'}
+                      {' · '}{new Date(submission.created_at).toLocaleString()}
+                    </p>
+                    {submission.duplicate_of && (
+                      <p className="text-xs text-yellow-700 mt-1 flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        Same link as {duplicate ? duplicate.title : 'a game already in the catalog'}
+                      </p>
+                    )}
+                    {submission.rejection_reason && (
+                      <p className="text-xs text-red-600 mt-1">Rejected: {submission.rejection_reason}</p>
+                    )}
+                  </div>
+
+                  {editing?.id === submission.id && (
+                    <div className="space-y-2 bg-gray-50 rounded-lg p-3">
+                      <input
+                        type="text"
+                        value={editing.draft.title}
+                        onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, title: e.target.value } })}
+                        className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <input
+                        type="text"
+                        value={editing.draft.url}
+                        onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, url: e.target.value } })}
+                        className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <select
+                        value={editing.draft.category}
+                        onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, category: e.target.value } })}
+                        className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {categories.map(category => (
+                          <option key={category.id} value={category.name}>{category.name}</option>
+                        ))}
+                      </select>
+                      <textarea
+                        value={editing.draft.description}
+                        onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, description: e.target.value } })}
+                        className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 h-20"
+                      />
+                      <TagsInput
+                        tags={editing.draft.tags}
+                        onChange={(tags) => setEditing({ ...editing, draft: { ...editing.draft, tags } })}
+                      />
+                    </div>
+                  )}
+
+                  {rejecting?.id === submission.id && (
+                    <input
+                      type="text"
+                      placeholder="Reason (optional)"
+                      value={rejecting.reason}
+                      onChange={(e) => setRejecting({ ...rejecting, reason: e.target.value })}
+                      className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    />
+                  )}
+
+                  {status === 'pending' && (
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => handleApprove(submission, editing?.id === submission.id ? editing.draft : draftFor(submission))}
+                        disabled={isBusy || !(editing?.id === submission.id ? editing.draft.title : submission.title).trim()}
+                        className="bg-green-500 text-white px-3 py-1.5 rounded-lg hover:bg-green-600 transition-colors flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <Check className="w-4 h-4" />
+                        Approve
+                      </button>
+                      {editing?.id !== submission.id && (
+                        <button
+                          onClick={() => {
+                            setRejecting(null);
+                            setEditing({ id: submission.id, draft: draftFor(submission) });
+                          }}
+                          disabled={isBusy}
+                          className="bg-blue-500 text-white px-3 py-1.5 rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-1 disabled:opacity-50"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                          Edit
+                        </button>
+                      )}
+                      {rejecting?.id === submission.id ? (
+                        <button
+                          onClick={() => handleReject(submission, rejecting.reason)}
+                          disabled={isBusy}
+                          className="bg-red-500 text-white px-3 py-1.5 rounded-lg hover:bg-red-600 transition-colors flex items-center gap-1 disabled:opacity-50"
+                        >
+                          <X className="w-4 h-4" />
+                          Confirm Reject
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setEditing(null);
+                            setRejecting({ id: submission.id, reason: '' });
+                          }}
+                          disabled={isBusy}
+                          className="bg-gray-200 text-gray-800 px-3 py-1.5 rounded-lg hover:bg-gray-300 transition-colors flex items-center gap-1 disabled:opacity-50"
+                        >
+                          <X className="w-4 h-4" />
+                          Reject
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SubmissionQueueModal;
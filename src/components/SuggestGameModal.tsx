@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Lightbulb, X } from 'lucide-react';
+import { Category } from '../lib/categories';
+import { isRateLimitedError } from '../lib/errors';
+import {
+  MAX_SUBMISSION_DESCRIPTION,
+  MAX_SUBMISSION_TITLE,
+  SubmissionInput,
+  SubmissionStore,
+  validateSubmission
+} from '../lib/submissions';
+import TagsInput from './TagsInput';
+
+interface SuggestGameModalProps {
+  submissions: SubmissionStore;
+  categories: Category[];
+  onClose: () => void;
+}
+
+const emptySuggestion: SubmissionInput = {
+  title: '',
+  description: '',
+  category: null,
+  url: '',
+  tags: [],
+  submitter_name: ''
+};
+
+function SuggestGameModal({ submissions, categories, onClose }: SuggestGameModalProps) {
+  const [suggestion, setSuggestion] = useState<SubmissionInput>(emptySuggestion);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const problems = validateSubmission(suggestion);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      if (await submissions.submit(suggestion)) {
+        setIsSent(true);
+      } else {
+        setErrors(['Could not send your suggestion. Please try again.']);
+      }
+    } catch (err) {
+      setErrors([isRateLimitedError(err) ? err.message : 'Could not send your suggestion. Please try again.']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg p-6 w-full max-w-md max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Lightbulb className="w-5 h-5" />
+            Suggest a Game
+          </h3>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isSent ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Thanks! An admin will take a look and add it to the hub if it works here.
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setSuggestion(emptySuggestion);
+                  setIsSent(false);
+                }}
+                className="flex-1 bg-gray-200 text-gray-800 py-2 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Suggest Another
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <input
+              type="text"
+              placeholder="Game name"
+              maxLength={MAX_SUBMISSION_TITLE}
+              value={suggestion.title}
+              onChange={(e) => setSuggestion({ ...suggestion, title: e.target.value })}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="url"
+              placeholder="Link (https://...)"
+              value={suggestion.url}
+              onChange={(e) => setSuggestion({ ...suggestion, url: e.target.value })}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={suggestion.category ?? ''}
+              onChange={(e) => setSuggestion({ ...suggestion, category: e.target.value || null })}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Category (optional)</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.name}>{category.name}</option>
+              ))}
+            </select>
+            <textarea
+              placeholder="What's the game like? (optional)"
+              maxLength={MAX_SUBMISSION_DESCRIPTION}
+              value={suggestion.description}
+              onChange={(e) => setSuggestion({ ...suggestion, description: e.target.value })}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 h-20"
+            />
+            <TagsInput
+              tags={suggestion.tags ?? []}
+              onChange={(tags) => setSuggestion({ ...suggestion, tags })}
+            />
+            <input
+              type="text"
+              placeholder="Your name (optional)"
+              maxLength={100}
+              value={suggestion.submitter_name ?? ''}
+              onChange={(e) => setSuggestion({ ...suggestion, submitter_name: e.target.value })}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-red-600 space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Sending...' : 'Send Suggestion'}
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
+
+export default SuggestGameModal;
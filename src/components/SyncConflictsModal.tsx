@@ -0,0 +1,102 @@
+import { AlertTriangle, Cloud, HardDrive, X } from 'lucide-react';
+import { Game } from '../lib/gameRepository';
+import { SyncConflict } from '../lib/offlineQueue';
+
+interface SyncConflictsModalProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflictId: string, winner: 'local' | 'server') => void;
+  onClose: () => void;
+}
+
+const COMPARED_FIELDS: (keyof Game)[] = ['title', 'description', 'category', 'color', 'url'];
+
+const reasonLabels: Record<SyncConflict['reason'], string> = {
+  changed: 'Someone else changed this game while you were offline.',
+  deleted: 'This game was deleted while you were offline.',
+  rejected: 'The server refused this change, so only the server version can be kept.'
+};
+
+const describeGame = (game: Game | null, field: keyof Game) =>
+  game ? String(game[field] ?? '') : '—';
+
+function SyncConflictsModal({ conflicts, onResolve, onClose }: SyncConflictsModalProps) {
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-500" />
+            Sync Conflicts
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {conflicts.length === 0 && (
+          <p className="text-gray-600">All offline changes have been synced.</p>
+        )}
+
+        <div className="space-y-6">
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="border rounded-lg p-4">
+              <p className="font-medium mb-1">
+                {conflict.mutation.type === 'delete' ? 'Delete' : 'Edit'} of "
+                {conflict.localGame?.title ?? conflict.serverGame?.title ?? conflict.mutation.gameId}"
+              </p>
+              <p className="text-sm text-gray-600 mb-3">
+                {reasonLabels[conflict.reason]}
+                {conflict.message && <span className="block text-red-600 mt-1">{conflict.message}</span>}
+              </p>
+
+              <table className="w-full text-sm mb-4 table-fixed">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="w-28 pb-1">Field</th>
+                    <th className="pb-1">Your version</th>
+                    <th className="pb-1">Server version</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {COMPARED_FIELDS.map(field => {
+                    const local = conflict.mutation.type === 'delete' ? '(deleted)' : describeGame(conflict.localGame, field);
+                    const server = describeGame(conflict.serverGame, field);
+                    return (
+                      <tr key={field} className={local !== server ? 'bg-yellow-50' : ''}>
+                        <td className="py-1 text-gray-500 capitalize">{field}</td>
+                        <td className="py-1 pr-2 truncate" title={local}>{local}</td>
+                        <td className="py-1 truncate" title={server}>{server}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="flex gap-2">
+                {/* A refused change can only be dropped; edit the game again to fix it */}
+                {conflict.reason !== 'rejected' && (
+                  <button
+                    onClick={() => onResolve(conflict.id, 'local')}
+                    className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-2 text-sm"
+                  >
+                    <HardDrive className="w-4 h-4" />
+                    Keep Mine
+                  </button>
+                )}
+                <button
+                  onClick={() => onResolve(conflict.id, 'server')}
+                  className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors flex items-center gap-2 text-sm"
+                >
+                  <Cloud className="w-4 h-4" />
+                  Keep Server
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SyncConflictsModal;
@@ -0,0 +1,27 @@
+import { useState } from 'react';
+import { parseTags } from '../lib/search';
+
+interface TagsInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Comma-separated tags; the raw text is kept while typing so trailing commas aren't eaten
+function TagsInput({ tags, onChange }: TagsInputProps) {
+  const [text, setText] = useState(tags.join(', '));
+
+  return (
+    <input
+      type="text"
+      placeholder="Tags (comma separated)"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseTags(e.target.value));
+      }}
+      className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  );
+}
+
+export default TagsInput;
@@ -0,0 +1,56 @@
+import { AlertCircle, CheckCircle, Info, X } from 'lucide-react';
+import { Toast, ToastKind } from '../hooks/useToasts';
+
+interface ToastListProps {
+  toasts: Toast[];
+  onDismiss: (id: string) => void;
+}
+
+const kindStyles: Record<ToastKind, { className: string; icon: typeof Info }> = {
+  success: { className: 'bg-green-500', icon: CheckCircle },
+  error: { className: 'bg-red-500', icon: AlertCircle },
+  info: { className: 'bg-gray-800', icon: Info }
+};
+
+function ToastList({ toasts, onDismiss }: ToastListProps) {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 max-w-sm w-full" role="status" aria-live="polite">
+      {toasts.map(toast => {
+        const { className, icon: Icon } = kindStyles[toast.kind];
+        // Dismissing a confirmation counts as cancelling it
+        const dismiss = () => (toast.confirm ? toast.confirm.answer(false) : onDismiss(toast.id));
+        return (
+          <div key={toast.id} className={`${className} text-white p-4 rounded-lg shadow-lg`}>
+            <div className="flex items-start gap-3">
+              <Icon className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              <p className="flex-1 text-sm">{toast.message}</p>
+              <button onClick={dismiss} className="text-white opacity-80 hover:opacity-100" aria-label="Dismiss">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            {toast.confirm && (
+              <div className="flex justify-end gap-2 mt-3">
+                <button
+                  onClick={() => toast.confirm?.answer(false)}
+                  className="px-3 py-1 text-sm rounded bg-white bg-opacity-20 hover:bg-opacity-30"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => toast.confirm?.answer(true)}
+                  className="px-3 py-1 text-sm rounded bg-white text-gray-800 font-medium hover:bg-gray-100"
+                >
+                  {toast.confirm.label}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ToastList;
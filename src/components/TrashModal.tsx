@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import { Game } from '../lib/gameRepository';
+import { GameHistory } from '../lib/gameHistory';
+import { errorMessage } from '../lib/errors';
+import { ConfirmAction } from '../hooks/useToasts';
+
+interface TrashModalProps {
+  history: GameHistory;
+  // Restoring and emptying games from the trash are admin-only
+  canManage: boolean;
+  onRestored: (game: Game) => void;
+  confirm: ConfirmAction;
+  onClose: () => void;
+}
+
+function TrashModal({ history, canManage, onRestored, confirm, onClose }: TrashModalProps) {
+  const [trash, setTrash] = useState<Game[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    history.getTrash().then(loaded => {
+      setTrash(loaded);
+      setIsLoading(false);
+    });
+  }, [history]);
+
+  const run = async (id: string, action: () => Promise<boolean>, failure: string) => {
+    setError(null);
+    setBusyId(id);
+    try {
+      if (await action()) {
+        setTrash(prev => prev.filter(game => game.id !== id));
+      } else {
+        setError(failure);
+      }
+    } catch (err) {
+      setError(errorMessage(err, failure));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (game: Game) =>
+    run(game.id, async () => {
+      const restored = await history.restoreGame(game.id);
+      if (restored) onRestored(restored);
+      return restored !== null;
+    }, `Could not restore ${game.title}.`);
+
+  const handlePurge = async (game: Game) => {
+    const message = `Delete ${game.title} forever? Its history is kept, but the game can only come back from there.`;
+    if (!(await confirm(message, 'Delete forever'))) return;
+    run(game.id, () => history.purgeGame(game.id), `Could not delete ${game.title}.`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">Trash</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading trash...</p>
+        ) : trash.length === 0 ? (
+          <p className="text-sm text-gray-500">The trash is empty.</p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {trash.map(game => (
+              <li key={game.id} className="py-2 flex items-center gap-3">
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">{game.title}</p>
+                  <p className="text-gray-500">
+                    {game.category}
+                    {game.deleted_at && ` · deleted ${new Date(game.deleted_at).toLocaleString()}`}
+                  </p>
+                </div>
+                {canManage && (
+                  <button
+                    onClick={() => handleRestore(game)}
+                    disabled={busyId === game.id}
+                    className="bg-blue-500 text-white px-3 py-1.5 rounded-lg hover:bg-blue-600 transition-colors flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Restore
+                  </button>
+                )}
+                {canManage && (
+                  <button
+                    onClick={() => handlePurge(game)}
+                    disabled={busyId === game.id}
+                    className="bg-red-500 text-white px-3 py-1.5 rounded-lg hover:bg-red-600 transition-colors flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete Forever
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TrashModal;
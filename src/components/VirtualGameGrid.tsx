@@ -0,0 +1,122 @@
+import { ReactNode, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Game } from '../lib/gameRepository';
+
+interface VirtualGameGridProps {
+  games: Game[];
+  renderCard: (game: Game) => ReactNode;
+  hasMore: boolean;
+  // Called when the last loaded row scrolls near the viewport
+  onLoadMore: () => void;
+}
+
+// Rows are measured once rendered; this is only used until then
+const ESTIMATED_ROW_HEIGHT = 340;
+// Matches the grid's gap-6
+const ROW_GAP = 24;
+// Rows rendered above and below the viewport
+const OVERSCAN_ROWS = 2;
+
+// Same breakpoints as the old grid-cols-1 md:2 lg:3 xl:4 layout
+const columnsForWidth = (width: number) => (width >= 1280 ? 4 : width >= 1024 ? 3 : width >= 768 ? 2 : 1);
+
+// The visible window in the grid's own coordinates
+const readViewport = (container: HTMLElement) => ({
+  top: -container.getBoundingClientRect().top,
+  height: window.innerHeight
+});
+
+// Only the rows near the viewport are in the DOM; the container keeps the full height
+// so the page scrollbar behaves as if every card were there
+function VirtualGameGrid({ games, renderCard, hasMore, onLoadMore }: VirtualGameGridProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowElements = useRef(new Map<string, HTMLDivElement>());
+  const rowHeights = useRef(new Map<string, number>());
+  const [columns, setColumns] = useState(() => columnsForWidth(window.innerWidth));
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+  const [, setMeasuredCount] = useState(0);
+
+  // Follow window scrolling and resizing, relative to the top of the grid
+  useEffect(() => {
+    const update = () => {
+      if (!containerRef.current) return;
+      setViewport(readViewport(containerRef.current));
+      setColumns(columnsForWidth(window.innerWidth));
+    };
+
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, []);
+
+  // Content above the grid may have moved when the list changes
+  useEffect(() => {
+    if (containerRef.current) setViewport(readViewport(containerRef.current));
+  }, [games]);
+
+  const rows: Game[][] = [];
+  for (let i = 0; i < games.length; i += columns) {
+    rows.push(games.slice(i, i + columns));
+  }
+  // A row's height depends on its cards and the column count
+  const rowKey = (row: Game[]) => `${columns}:${row.map(game => game.id).join(',')}`;
+
+  const offsets: number[] = [];
+  let totalHeight = 0;
+  rows.forEach((row, index) => {
+    offsets.push(totalHeight);
+    totalHeight += (rowHeights.current.get(rowKey(row)) ?? ESTIMATED_ROW_HEIGHT) + (index < rows.length - 1 ? ROW_GAP : 0);
+  });
+
+  const viewportBottom = viewport.top + viewport.height;
+  let firstRow = offsets.findIndex((_, index) => (offsets[index + 1] ?? totalHeight) > viewport.top);
+  if (firstRow === -1) firstRow = rows.length;
+  let lastRow = firstRow;
+  while (lastRow < rows.length - 1 && offsets[lastRow + 1] < viewportBottom) lastRow++;
+  const startRow = Math.max(0, firstRow - OVERSCAN_ROWS);
+  const endRow = Math.min(rows.length - 1, lastRow + OVERSCAN_ROWS);
+
+  // Measure what was rendered; re-render when an estimate turns out wrong
+  useLayoutEffect(() => {
+    let changed = 0;
+    rowElements.current.forEach((element, key) => {
+      if (rowHeights.current.get(key) !== element.offsetHeight) {
+        rowHeights.current.set(key, element.offsetHeight);
+        changed++;
+      }
+    });
+    if (changed > 0) setMeasuredCount(count => count + changed);
+  }, [games, columns, startRow, endRow]);
+
+  useEffect(() => {
+    if (hasMore && endRow >= rows.length - 1) onLoadMore();
+  }, [hasMore, endRow, rows.length, onLoadMore]);
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: totalHeight }}>
+      {rows.slice(startRow, endRow + 1).map((row, index) => {
+        const key = rowKey(row);
+        return (
+          <div
+            key={key}
+            ref={element => {
+              if (element) {
+                rowElements.current.set(key, element);
+              } else {
+                rowElements.current.delete(key);
+              }
+            }}
+            className="absolute left-0 right-0 grid gap-6"
+            style={{ top: offsets[startRow + index], gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+          >
+            {row.map(game => renderCard(game))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default VirtualGameGrid;
@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { AppLocation, getCurrentLocation, onLocationChange } from '../lib/router';
+
+export const useAppLocation = (): AppLocation => {
+  const [location, setLocation] = useState(getCurrentLocation);
+
+  useEffect(() => onLocationChange(setLocation), []);
+
+  return location;
+};
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  PlayerListKind,
+  PlayerListRemote,
+  PlayerLists,
+  clearLocalPlayerLists,
+  diffEntries,
+  loadLocalPlayerLists,
+  mergePlayerLists,
+  recordPlay,
+  remapPlayerLists,
+  saveLocalPlayerLists,
+  toggleFavorite
+} from '../lib/playerLists';
+
+const LIST_KINDS: [PlayerListKind, keyof PlayerLists][] = [['favorite', 'favorites'], ['recent', 'recent']];
+
+// Pushes the difference between two versions of the lists to the account
+const syncToRemote = async (remote: PlayerListRemote, userId: string, previous: PlayerLists, next: PlayerLists) => {
+  try {
+    for (const [kind, key] of LIST_KINDS) {
+      const { upserts, removals } = diffEntries(previous[key], next[key]);
+      if (upserts.length > 0) await remote.put(userId, kind, upserts);
+      if (removals.length > 0) await remote.remove(userId, kind, removals);
+    }
+  } catch (error) {
+    console.error('Error syncing player lists:', error);
+  }
+};
+
+export const usePlayerLists = (
+  remote: PlayerListRemote | null,
+  userId: string | null,
+  mergedIds: Record<string, string>
+) => {
+  const [lists, setLists] = useState(() => loadLocalPlayerLists());
+  const listsRef = useRef(lists);
+  // Whose lists are showing: the signed-in account, or null for this browser's signed-out lists
+  const owner = remote && userId ? userId : null;
+
+  const show = useCallback((next: PlayerLists) => {
+    listsRef.current = next;
+    setLists(next);
+  }, []);
+
+  const commit = useCallback((next: PlayerLists) => {
+    const previous = listsRef.current;
+    show(next);
+    saveLocalPlayerLists(next, owner);
+    if (remote && owner) {
+      syncToRemote(remote, owner, previous, next);
+    }
+  }, [remote, owner, show]);
+
+  // Signing in moves this browser's signed-out lists into the account; signing out
+  // drops the account's copy and shows the signed-out lists, so on a shared
+  // computer the next player neither sees nor inherits them
+  const previousOwner = useRef(owner);
+  useEffect(() => {
+    if (previousOwner.current && previousOwner.current !== owner) clearLocalPlayerLists(previousOwner.current);
+    previousOwner.current = owner;
+
+    if (!remote || !owner) {
+      show(loadLocalPlayerLists());
+      return;
+    }
+
+    let isCancelled = false;
+    show(loadLocalPlayerLists(owner));
+    remote.load(owner)
+      .then(remoteLists => {
+        if (isCancelled) return;
+        const merged = mergePlayerLists(mergePlayerLists(loadLocalPlayerLists(), listsRef.current), remoteLists);
+        syncToRemote(remote, owner, remoteLists, merged);
+        show(merged);
+        saveLocalPlayerLists(merged, owner);
+        clearLocalPlayerLists();
+      })
+      .catch(error => console.error('Error loading player lists:', error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [remote, owner, show]);
+
+  // Favorites and recent plays of merged duplicates move to the game that was kept
+  useEffect(() => {
+    const remapped = remapPlayerLists(listsRef.current, mergedIds);
+    if (remapped !== listsRef.current) commit(remapped);
+  }, [mergedIds, lists, commit]);
+
+  const handleToggleFavorite = useCallback(
+    (gameId: string) => commit(toggleFavorite(listsRef.current, gameId)),
+    [commit]
+  );
+
+  const handleRecordPlay = useCallback(
+    (gameId: string) => commit(recordPlay(listsRef.current, gameId)),
+    [commit]
+  );
+
+  return { lists, toggleFavorite: handleToggleFavorite, recordPlay: handleRecordPlay };
+};
@@ -0,0 +1,45 @@
+import { useCallback, useState } from 'react';
+
+export type ToastKind = 'success' | 'error' | 'info';
+
+export interface Toast {
+  id: string;
+  kind: ToastKind;
+  message: string;
+  // Confirmation toasts stay until one of their buttons is pressed
+  confirm?: {
+    label: string;
+    answer: (confirmed: boolean) => void;
+  };
+}
+
+// Resolves true when the player presses the confirm button, false when they dismiss it
+export type ConfirmAction = (message: string, confirmLabel?: string) => Promise<boolean>;
+
+const TOAST_MS = 5000;
+
+// Replaces alert() and confirm(): messages stack in a corner instead of blocking the page
+export const useToasts = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(current => current.filter(toast => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, kind: ToastKind = 'info') => {
+    const id = crypto.randomUUID();
+    setToasts(current => [...current, { id, kind, message }]);
+    setTimeout(() => dismissToast(id), TOAST_MS);
+  }, [dismissToast]);
+
+  const askToConfirm: ConfirmAction = useCallback((message, confirmLabel = 'Confirm') => new Promise<boolean>(resolve => {
+    const id = crypto.randomUUID();
+    const answer = (confirmed: boolean) => {
+      dismissToast(id);
+      resolve(confirmed);
+    };
+    setToasts(current => [...current, { id, kind: 'info', message, confirm: { label: confirmLabel, answer } }]);
+  }), [dismissToast]);
+
+  return { toasts, showToast, askToConfirm, dismissToast };
+};
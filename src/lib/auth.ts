@@ -0,0 +1,49 @@
+import { GameServiceError } from './errors';
+
+export type AdminRole = 'admin' | 'editor';
+
+export interface AdminSession {
+  role: AdminRole;
+  // Email for Supabase accounts, a fixed label for the local passcode
+  identity: string;
+}
+
+export interface AdminCredentials {
+  email?: string;
+  password: string;
+}
+
+// Shared shape for Supabase Auth and the local passcode fallback
+export interface AuthService {
+  mode: 'supabase' | 'passcode';
+  getSession(): Promise<AdminSession | null>;
+  signIn(credentials: AdminCredentials): Promise<AdminSession>;
+  signOut(): Promise<void>;
+  onSessionChange(callback: (session: AdminSession | null) => void): () => void;
+}
+
+// Admins can do everything editors can, plus delete
+export const hasRole = (session: AdminSession | null, required: AdminRole): boolean => {
+  if (!session) return false;
+  return session.role === 'admin' || session.role === required;
+};
+
+export const assertRole = (session: AdminSession | null, required: AdminRole) => {
+  if (!hasRole(session, required)) {
+    throw new GameServiceError(
+      'unauthorized',
+      required === 'admin'
+        ? 'Only admins can do this. Sign in with an admin account.'
+        : 'You need to sign in as an editor or admin to change games.'
+    );
+  }
+};
+
+// Any signed-in account, used for per-player data rather than admin access
+export interface PlayerAccountService {
+  getUserId(): Promise<string | null>;
+  onUserChange(callback: (userId: string | null) => void): () => void;
+  signIn(email: string, password: string): Promise<void>;
+  signUp(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+}
@@ -0,0 +1,203 @@
+import { AuthService, PlayerAccountService } from './auth';
+import { CoverImageStore, createDataUrlCoverStore } from './images';
+import { Category, CategoryStore, categoryNames, createClientCategoryStore } from './categories';
+import { GameRepository } from './gameRepository';
+import { localAuthService } from './localAuth';
+import {
+  isLocalStorageAvailable,
+  localCategoryService,
+  localCollectionStore,
+  localGameHistory,
+  localGameMergeStore,
+  localLeaderboardStore,
+  localPlayAnalytics,
+  localStorageService,
+  localSubmissionStore
+} from './localStorageRepository';
+import { createMemoryRepository } from './memoryRepository';
+import { OfflineQueue, createOfflineQueue } from './offlineQueue';
+import { PlayerListRemote } from './playerLists';
+import { GameCatalog, createClientGameCatalog } from './gameCatalog';
+import { LinkChecker, createClientLinkChecker } from './linkChecker';
+import { GameHistory, LocalGameHistory, createClientGameHistory } from './gameHistory';
+import { LocalPlayCounts, PlayAnalyticsStore, createClientPlayAnalytics } from './playAnalytics';
+import { GameSubmission, SubmissionStore, createClientSubmissionStore } from './submissions';
+import { Collection, CollectionStore, createClientCollectionStore } from './collections';
+import { LeaderboardStore, ScoreEntry, createClientLeaderboardStore } from './leaderboards';
+import { GameBundleStore } from './gameBundles';
+import { GameMergeStore, createClientGameMergeStore } from './duplicates';
+
+export interface Backend {
+  repository: GameRepository;
+  authService: AuthService;
+  categoryStore: CategoryStore;
+  collectionStore: CollectionStore;
+  coverImageStore: CoverImageStore;
+  // Uploaded game zips need Storage to be served from; local backends can only link games
+  bundleStore: GameBundleStore | null;
+  // Player accounts and list sync need a server; local backends keep lists in this browser only
+  playerAccounts: PlayerAccountService | null;
+  playerListRemote: PlayerListRemote | null;
+  playAnalytics: PlayAnalyticsStore;
+  // Paged, filtered reads for the grid
+  catalog: GameCatalog;
+  linkChecker: LinkChecker;
+  history: GameHistory;
+  // Player suggestions and the review queue
+  submissions: SubmissionStore;
+  // Scores games report through the SDK
+  leaderboards: LeaderboardStore;
+  // Folding duplicate games into one
+  merges: GameMergeStore;
+  // Only server-backed repositories queue changes while offline
+  offlineQueue: OfflineQueue | null;
+}
+
+// Picks Supabase when it is configured, then localStorage, then an in-memory catalog
+export const connectBackend = async (): Promise<Backend> => {
+  try {
+    const supabaseModule = await import('./supabase');
+    const offlineQueue = createOfflineQueue(supabaseModule.gameService, {
+      requireRole: supabaseModule.requireRole,
+      history: supabaseModule.gameHistoryService
+    });
+    const playAnalytics = supabaseModule.playAnalyticsService;
+    const serverCatalog = supabaseModule.createGameCatalogService(
+      createClientGameCatalog({ repository: offlineQueue.repository, playAnalytics })
+    );
+    return {
+      repository: offlineQueue.repository,
+      authService: supabaseModule.authService,
+      categoryStore: supabaseModule.categoryService,
+      collectionStore: supabaseModule.collectionService,
+      coverImageStore: supabaseModule.coverImageService,
+      bundleStore: supabaseModule.bundleService,
+      playerAccounts: supabaseModule.playerAccountService,
+      playerListRemote: supabaseModule.playerListService,
+      playAnalytics,
+      catalog: {
+        ...serverCatalog,
+        // Games seen in the grid stay browsable and editable while offline
+        async getPage(query, offset, limit) {
+          const page = await serverCatalog.getPage(query, offset, limit);
+          offlineQueue.rememberGames(page.games);
+          return page;
+        }
+      },
+      linkChecker: supabaseModule.linkCheckerService,
+      history: supabaseModule.gameHistoryService,
+      submissions: supabaseModule.submissionService,
+      leaderboards: supabaseModule.leaderboardService,
+      merges: supabaseModule.gameMergeService,
+      offlineQueue
+    };
+  } catch {
+    console.warn('Supabase not available, using localStorage fallback');
+  }
+
+  if (isLocalStorageAvailable()) {
+    const { repository, history } = localGameHistory;
+    return {
+      repository,
+      authService: localAuthService,
+      categoryStore: localCategoryService,
+      collectionStore: localCollectionStore,
+      coverImageStore: createDataUrlCoverStore(localAuthService.requireRole),
+      bundleStore: null,
+      playerAccounts: null,
+      playerListRemote: null,
+      playAnalytics: localPlayAnalytics,
+      catalog: createClientGameCatalog({ repository, playAnalytics: localPlayAnalytics }),
+      linkChecker: createClientLinkChecker({ store: localStorageService, requireRole: localAuthService.requireRole }),
+      history,
+      submissions: localSubmissionStore,
+      leaderboards: localLeaderboardStore,
+      merges: localGameMergeStore,
+      offlineQueue: null
+    };
+  }
+
+  console.warn('localStorage is blocked, games will not be saved');
+  let savedHistory: LocalGameHistory | null = null;
+  let categories: Category[] | null = null;
+  const memoryRepository = createMemoryRepository({
+    requireRole: localAuthService.requireRole,
+    getCategoryNames: () => categoryNames(categories)
+  });
+  const { repository, history } = createClientGameHistory({
+    repository: memoryRepository,
+    read: () => savedHistory,
+    write: (next) => {
+      savedHistory = next;
+    },
+    requireRole: localAuthService.requireRole,
+    getActor: async () => (await localAuthService.getSession())?.identity ?? null
+  });
+  let playCounts: LocalPlayCounts = {};
+  let submissions: GameSubmission[] = [];
+  let collections: Collection[] = [];
+  let scores: ScoreEntry[] = [];
+  let mergedIds: Record<string, string> = {};
+  const playCountStorage = {
+    read: () => playCounts,
+    write: (next: LocalPlayCounts) => {
+      playCounts = next;
+    }
+  };
+  const scoreStorage = {
+    read: () => scores,
+    write: (next: ScoreEntry[]) => {
+      scores = next;
+    }
+  };
+  const playAnalytics = createClientPlayAnalytics(playCountStorage);
+  const collectionStore = createClientCollectionStore({
+    read: () => collections,
+    write: (next) => {
+      collections = next;
+    },
+    requireRole: localAuthService.requireRole
+  });
+  return {
+    repository,
+    authService: localAuthService,
+    categoryStore: createClientCategoryStore({
+      read: () => categories,
+      write: (next) => {
+        categories = next;
+      },
+      repository,
+      requireRole: localAuthService.requireRole
+    }),
+    collectionStore,
+    coverImageStore: createDataUrlCoverStore(localAuthService.requireRole),
+    bundleStore: null,
+    playerAccounts: null,
+    playerListRemote: null,
+    playAnalytics,
+    catalog: createClientGameCatalog({ repository, playAnalytics }),
+    linkChecker: createClientLinkChecker({ store: memoryRepository, requireRole: localAuthService.requireRole }),
+    history,
+    submissions: createClientSubmissionStore({
+      read: () => submissions,
+      write: (next) => {
+        submissions = next;
+      },
+      repository,
+      requireRole: localAuthService.requireRole
+    }),
+    leaderboards: createClientLeaderboardStore(scoreStorage),
+    merges: createClientGameMergeStore({
+      repository,
+      collectionStore,
+      playCounts: playCountStorage,
+      scores: scoreStorage,
+      read: () => mergedIds,
+      write: (next) => {
+        mergedIds = next;
+      },
+      requireRole: localAuthService.requireRole
+    }),
+    offlineQueue: null
+  };
+};
@@ -0,0 +1,343 @@
+import { Game, GameInputType, GameRepository, GameSourceKind, GameStatus, GameUpdate, NewGame } from './gameRepository';
+import { parseTags } from './search';
+import { hasFieldErrors, validateNewGame } from './gameValidation';
+import { gameSourceKind } from './gameBundles';
+import { gameStatus } from './gamePublication';
+
+// Columns written to and read from catalog files, in CSV column order
+export const CATALOG_FIELDS = [
+  'id',
+  'title',
+  'description',
+  'category',
+  'color',
+  'url',
+  'source_kind',
+  'sandbox_policy',
+  'allow_policy',
+  'sdk_origins',
+  'offline_available',
+  'cover_image_url',
+  'thumbnail_url',
+  'tags',
+  'status',
+  'publish_at',
+  'how_to_play',
+  'min_players',
+  'max_players',
+  'input_types',
+  'mobile_friendly',
+  'developer',
+  'developer_url',
+  'created_at',
+  'updated_at'
+] as const;
+
+// Fields an import or a revert may change
+export const EDITABLE_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'color',
+  'url',
+  'source_kind',
+  'sandbox_policy',
+  'allow_policy',
+  'sdk_origins',
+  'offline_available',
+  'cover_image_url',
+  'thumbnail_url',
+  'tags',
+  'status',
+  'publish_at',
+  'how_to_play',
+  'min_players',
+  'max_players',
+  'input_types',
+  'mobile_friendly',
+  'developer',
+  'developer_url'
+] as const;
+
+type EditableField = typeof EDITABLE_FIELDS[number];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface InvalidRow {
+  row: number;
+  errors: string[];
+}
+
+export interface PlannedUpdate {
+  existing: Game;
+  changes: GameUpdate;
+  fields: EditableField[];
+}
+
+export interface ImportPlan {
+  creates: NewGame[];
+  updates: PlannedUpdate[];
+  deletes: Game[];
+  unchanged: number;
+  invalid: InvalidRow[];
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  failures: string[];
+}
+
+// Export
+
+export const exportCatalogJson = (games: Game[]) => JSON.stringify(games, null, 2);
+
+const escapeCsv = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportCatalogCsv = (games: Game[]) =>
+  [
+    CATALOG_FIELDS.join(','),
+    ...games.map(game => CATALOG_FIELDS.map(field => escapeCsv(game[field])).join(','))
+  ].join('\r\n');
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Import
+
+// RFC 4180 style: quoted fields may contain commas, quotes and newlines
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Returns raw records from a .json or .csv catalog file
+export const parseCatalogFile = (filename: string, text: string): Record<string, unknown>[] => {
+  if (filename.toLowerCase().endsWith('.csv')) {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const columns = header.map(column => column.trim());
+    return rows.map(cells =>
+      Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))
+    );
+  }
+
+  const parsed = JSON.parse(text);
+  const records = Array.isArray(parsed) ? parsed : parsed?.games;
+  if (!Array.isArray(records)) {
+    throw new Error('Expected a JSON array of games');
+  }
+  return records;
+};
+
+const readText = (record: Record<string, unknown>, field: string): string | undefined => {
+  const value = record[field];
+  if (value === null || value === undefined) return undefined;
+  return typeof value === 'string' ? value.trim() : String(value);
+};
+
+// true/false in JSON, "true"/"false" (or 1/0, yes/no) in CSV
+const readFlag = (record: Record<string, unknown>, field: string) =>
+  ['true', '1', 'yes'].includes((readText(record, field) ?? '').toLowerCase());
+
+// Blank means unknown, for the fields where that differs from false or zero
+const readOptionalFlag = (record: Record<string, unknown>, field: string) => {
+  const text = readText(record, field);
+  return text ? readFlag(record, field) : null;
+};
+
+// Non-numbers are kept as NaN so validation reports them
+const readOptionalNumber = (record: Record<string, unknown>, field: string) => {
+  const text = readText(record, field);
+  return text ? Number(text) : null;
+};
+
+const validateRecord = (record: Record<string, unknown>): { game?: NewGame; errors: string[] } => {
+  const errors: string[] = [];
+  if (typeof record !== 'object' || record === null) {
+    return { errors: ['Row is not an object'] };
+  }
+
+  const title = readText(record, 'title');
+  const url = readText(record, 'url');
+  if (!title) errors.push('title is required');
+  if (!url) errors.push('url is required');
+  if (errors.length > 0) return { errors };
+
+  const id = readText(record, 'id');
+  const game: NewGame = {
+    title: title as string,
+    url: url as string,
+    // Older exports have no source_kind, so it is worked out from the url
+    source_kind: gameSourceKind({ url: url as string, source_kind: readText(record, 'source_kind') as GameSourceKind | undefined }),
+    description: readText(record, 'description') ?? '',
+    category: readText(record, 'category') || 'Arcade',
+    color: readText(record, 'color') || 'bg-blue-500',
+    sandbox_policy: readText(record, 'sandbox_policy') || null,
+    allow_policy: readText(record, 'allow_policy') || null,
+    sdk_origins: readText(record, 'sdk_origins') || null,
+    offline_available: readFlag(record, 'offline_available'),
+    cover_image_url: readText(record, 'cover_image_url') || null,
+    thumbnail_url: readText(record, 'thumbnail_url') || null,
+    // JSON arrays, or comma-separated in CSV
+    tags: parseTags(record.tags),
+    // Files from before publication states hold only published games
+    status: (readText(record, 'status') || 'published') as GameStatus,
+    publish_at: readText(record, 'publish_at') || null,
+    how_to_play: readText(record, 'how_to_play') || null,
+    min_players: readOptionalNumber(record, 'min_players'),
+    max_players: readOptionalNumber(record, 'max_players'),
+    // Arrays or comma-separated, like tags
+    input_types: parseTags(record.input_types) as GameInputType[],
+    mobile_friendly: readOptionalFlag(record, 'mobile_friendly'),
+    developer: readText(record, 'developer') || null,
+    developer_url: readText(record, 'developer_url') || null
+  };
+  // Only uuids can be kept as ids in every backend
+  if (id && UUID_PATTERN.test(id)) {
+    game.id = id;
+  }
+
+  // Categories aren't known here; rows with unknown ones fail when they are written
+  const fieldErrors = validateNewGame(game);
+  if (hasFieldErrors(fieldErrors)) {
+    return { errors: Object.entries(fieldErrors).map(([field, message]) => `${field}: ${message}`) };
+  }
+
+  return { game, errors };
+};
+
+// Tags are arrays, so compare by value; a missing value equals an empty (or false) one
+const sameValue = (a: unknown, b: unknown) => {
+  const normalize = (value: unknown) =>
+    value === undefined || value === null || value === false || (Array.isArray(value) && value.length === 0) ? null : value;
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+};
+
+// How games are matched by URL; game_submissions uses the same rule in SQL
+export const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '').toLowerCase();
+
+// Works out what an import would do without writing anything.
+// Rows match existing games by id first, then by URL.
+export const planImport = (
+  existing: Game[],
+  records: Record<string, unknown>[],
+  { deleteMissing = false } = {}
+): ImportPlan => {
+  const plan: ImportPlan = { creates: [], updates: [], deletes: [], unchanged: 0, invalid: [] };
+  const byId = new Map(existing.map(game => [game.id, game]));
+  const byUrl = new Map(existing.map(game => [normalizeUrl(game.url), game]));
+  const matchedIds = new Set<string>();
+
+  records.forEach((record, index) => {
+    const { game, errors } = validateRecord(record);
+    if (!game) {
+      plan.invalid.push({ row: index + 1, errors });
+      return;
+    }
+
+    const rawId = readText(record, 'id');
+    const match = (rawId ? byId.get(rawId) : undefined) ?? byUrl.get(normalizeUrl(game.url));
+    if (!match) {
+      plan.creates.push(game);
+      return;
+    }
+    if (matchedIds.has(match.id)) {
+      plan.invalid.push({ row: index + 1, errors: [`duplicates an earlier row for "${match.title}"`] });
+      return;
+    }
+    matchedIds.add(match.id);
+
+    // Rows saved before source kinds and statuses existed have none stored
+    const current = { ...match, source_kind: gameSourceKind(match), status: gameStatus(match) };
+    const fields = EDITABLE_FIELDS.filter(field => !sameValue(game[field], current[field]));
+    if (fields.length === 0) {
+      plan.unchanged++;
+      return;
+    }
+    const changes: GameUpdate = Object.fromEntries(fields.map(field => [field, game[field]]));
+    plan.updates.push({ existing: match, changes, fields });
+  });
+
+  if (deleteMissing) {
+    plan.deletes = existing.filter(game => !matchedIds.has(game.id));
+  }
+
+  return plan;
+};
+
+// Writes a plan one row at a time; failures are collected rather than aborting the import
+export const applyImportPlan = async (repository: GameRepository, plan: ImportPlan): Promise<ImportResult> => {
+  const result: ImportResult = { created: 0, updated: 0, deleted: 0, failures: [] };
+
+  const attempt = async (label: string, action: () => Promise<unknown>) => {
+    try {
+      const outcome = await action();
+      if (outcome === null || outcome === false) {
+        result.failures.push(`${label}: not saved`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      result.failures.push(`${label}: ${error instanceof Error ? error.message : 'failed'}`);
+      return false;
+    }
+  };
+
+  for (const game of plan.creates) {
+    if (await attempt(`Create "${game.title}"`, () => repository.addGame(game))) result.created++;
+  }
+  for (const { existing, changes } of plan.updates) {
+    if (await attempt(`Update "${existing.title}"`, () => repository.updateGame(existing.id, changes))) result.updated++;
+  }
+  for (const game of plan.deletes) {
+    if (await attempt(`Delete "${game.title}"`, () => repository.deleteGame(game.id))) result.deleted++;
+  }
+
+  return result;
+};
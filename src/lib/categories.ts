@@ -0,0 +1,183 @@
+import { AdminRole } from './auth';
+import { Game, GameRepository } from './gameRepository';
+
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  sort_order: number;
+  // Key into CATEGORY_ICONS
+  icon: string | null;
+  color: string | null;
+  created_at: string;
+}
+
+export type CategoryInput = Pick<Category, 'name' | 'icon' | 'color'> & { sort_order?: number };
+
+// Renames and merges are applied to every game in the category
+export interface CategoryStore {
+  getCategories(): Promise<Category[]>;
+  addCategory(input: CategoryInput): Promise<Category | null>;
+  updateCategory(id: string, updates: Partial<CategoryInput>): Promise<Category | null>;
+  // Refuses (returns false) while games still use the category
+  deleteCategory(id: string): Promise<boolean>;
+  mergeCategories(sourceId: string, targetId: string): Promise<boolean>;
+  subscribeToChanges(callback: () => void): () => void;
+}
+
+export const DEFAULT_CATEGORIES: CategoryInput[] = [
+  { name: 'Arcade', icon: 'gamepad', color: 'bg-blue-500' },
+  { name: 'Puzzle', icon: 'puzzle', color: 'bg-purple-500' },
+  { name: 'Multiplayer', icon: 'users', color: 'bg-green-500' },
+  { name: 'Action', icon: 'swords', color: 'bg-red-500' },
+  { name: 'Strategy', icon: 'brain', color: 'bg-indigo-500' },
+  { name: 'Sports', icon: 'trophy', color: 'bg-orange-500' }
+];
+
+// Names games may use; the defaults stand in until the store is first read
+export const categoryNames = (categories: Pick<Category, 'name'>[] | null) =>
+  (categories ?? DEFAULT_CATEGORIES).map(c => c.name);
+
+export const slugify = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const sortCategories = (categories: Category[]) =>
+  [...categories].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+// Adds placeholder entries for categories games use but the table doesn't list,
+// so those games can still be filtered and re-categorized
+export const withGameCategories = (categories: Category[], usedNames: string[]): Category[] => {
+  const known = new Set(categories.map(c => c.name));
+  const orphans = Array.from(new Set(usedNames))
+    .filter(name => !known.has(name))
+    .map((name, index): Category => ({
+      id: `orphan:${name}`,
+      name,
+      slug: slugify(name),
+      sort_order: Number.MAX_SAFE_INTEGER - 1000 + index,
+      icon: null,
+      color: null,
+      created_at: ''
+    }));
+  return [...sortCategories(categories), ...orphans];
+};
+
+export const countGamesByCategory = (games: Game[]) =>
+  games.reduce<Record<string, number>>((counts, game) => {
+    counts[game.category] = (counts[game.category] ?? 0) + 1;
+    return counts;
+  }, {});
+
+interface ClientCategoryStoreOptions {
+  read: () => Category[] | null;
+  write: (categories: Category[]) => void;
+  // Games are renamed and merged through the repository, one row at a time
+  repository: GameRepository;
+  requireRole: (required: AdminRole) => void;
+  subscribe?: (callback: () => void) => () => void;
+}
+
+const createCategoryRecord = (input: CategoryInput, sortOrder: number): Category => ({
+  id: crypto.randomUUID(),
+  name: input.name.trim(),
+  slug: slugify(input.name),
+  sort_order: input.sort_order ?? sortOrder,
+  icon: input.icon,
+  color: input.color,
+  created_at: new Date().toISOString()
+});
+
+// Category store for the localStorage and in-memory backends
+export const createClientCategoryStore = ({
+  read,
+  write,
+  repository,
+  requireRole,
+  subscribe = () => () => {}
+}: ClientCategoryStoreOptions): CategoryStore => {
+  const load = () => {
+    const stored = read();
+    if (stored) return stored;
+
+    const seeded = DEFAULT_CATEGORIES.map((input, index) => createCategoryRecord(input, index));
+    write(seeded);
+    return seeded;
+  };
+
+  const moveGames = async (from: string, to: string) => {
+    const games = await repository.getGames();
+    for (const game of games.filter(g => g.category === from)) {
+      await repository.updateGame(game.id, { category: to });
+    }
+  };
+
+  const isNameTaken = (categories: Category[], name: string, exceptId?: string) =>
+    categories.some(c => c.id !== exceptId && (c.name === name.trim() || c.slug === slugify(name)));
+
+  return {
+    async getCategories() {
+      return sortCategories(load());
+    },
+
+    async addCategory(input) {
+      requireRole('editor');
+
+      const categories = load();
+      if (!input.name.trim() || isNameTaken(categories, input.name)) return null;
+
+      const nextOrder = Math.max(-1, ...categories.map(c => c.sort_order)) + 1;
+      const category = createCategoryRecord(input, nextOrder);
+      write([...categories, category]);
+      return category;
+    },
+
+    async updateCategory(id, updates) {
+      requireRole('editor');
+
+      const categories = load();
+      const existing = categories.find(c => c.id === id);
+      if (!existing) return null;
+
+      const name = updates.name?.trim() || existing.name;
+      if (name !== existing.name && isNameTaken(categories, name, id)) return null;
+
+      const updated: Category = { ...existing, ...updates, name, slug: slugify(name) };
+      write(categories.map(c => (c.id === id ? updated : c)));
+      if (name !== existing.name) {
+        await moveGames(existing.name, name);
+      }
+      return updated;
+    },
+
+    async deleteCategory(id) {
+      requireRole('admin');
+
+      const categories = load();
+      const existing = categories.find(c => c.id === id);
+      if (!existing) return false;
+
+      const games = await repository.getGames();
+      if (games.some(g => g.category === existing.name)) return false;
+
+      write(categories.filter(c => c.id !== id));
+      return true;
+    },
+
+    async mergeCategories(sourceId, targetId) {
+      requireRole('admin');
+
+      const categories = load();
+      const source = categories.find(c => c.id === sourceId);
+      const target = categories.find(c => c.id === targetId);
+      if (!source || !target || source.id === target.id) return false;
+
+      await moveGames(source.name, target.name);
+      write(load().filter(c => c.id !== sourceId));
+      return true;
+    },
+
+    subscribeToChanges(callback) {
+      return subscribe(callback);
+    }
+  };
+};
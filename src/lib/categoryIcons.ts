@@ -0,0 +1,16 @@
+import { Brain, Car, Gamepad2, Ghost, LucideIcon, Puzzle, Rocket, Swords, Target, Trophy, Users, Zap } from 'lucide-react';
+
+// Icons admins can pick for a category, keyed by the value stored in `categories.icon`
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  gamepad: Gamepad2,
+  puzzle: Puzzle,
+  users: Users,
+  swords: Swords,
+  brain: Brain,
+  trophy: Trophy,
+  car: Car,
+  ghost: Ghost,
+  rocket: Rocket,
+  target: Target,
+  zap: Zap
+};
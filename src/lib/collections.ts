@@ -0,0 +1,120 @@
+import { AdminRole } from './auth';
+import { slugify } from './categories';
+
+// A named, ordered list of games shown as a row on the home page
+export interface Collection {
+  id: string;
+  name: string;
+  slug: string;
+  sort_order: number;
+  // The featured collection is shown as the hero carousel instead of a row
+  is_featured: boolean;
+  game_ids: string[];
+  created_at: string;
+}
+
+export type CollectionUpdate = Partial<Pick<Collection, 'name' | 'sort_order' | 'is_featured'>>;
+
+export interface CollectionStore {
+  // In sort order, each with its games in order
+  getCollections(): Promise<Collection[]>;
+  addCollection(name: string): Promise<Collection | null>;
+  // Featuring a collection un-features the previous one
+  updateCollection(id: string, updates: CollectionUpdate): Promise<Collection | null>;
+  setCollectionGames(id: string, gameIds: string[]): Promise<boolean>;
+  deleteCollection(id: string): Promise<boolean>;
+  subscribeToChanges(callback: () => void): () => void;
+}
+
+export const sortCollections = (collections: Collection[]) =>
+  [...collections].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+// Moves the item at `from` to `to`, for drag-and-drop reordering
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+interface ClientCollectionStoreOptions {
+  read: () => Collection[];
+  write: (collections: Collection[]) => void;
+  requireRole: (required: AdminRole) => void;
+  subscribe?: (callback: () => void) => () => void;
+}
+
+// Collection store for the localStorage and in-memory backends
+export const createClientCollectionStore = ({
+  read,
+  write,
+  requireRole,
+  subscribe = () => () => {}
+}: ClientCollectionStoreOptions): CollectionStore => {
+  const isNameTaken = (collections: Collection[], name: string, exceptId?: string) =>
+    collections.some(c => c.id !== exceptId && (c.name === name.trim() || c.slug === slugify(name)));
+
+  return {
+    async getCollections() {
+      return sortCollections(read());
+    },
+
+    async addCollection(name) {
+      requireRole('editor');
+
+      const collections = read();
+      if (!name.trim() || isNameTaken(collections, name)) return null;
+
+      const collection: Collection = {
+        id: crypto.randomUUID(),
+        name: name.trim(),
+        slug: slugify(name),
+        sort_order: Math.max(-1, ...collections.map(c => c.sort_order)) + 1,
+        is_featured: false,
+        game_ids: [],
+        created_at: new Date().toISOString()
+      };
+      write([...collections, collection]);
+      return collection;
+    },
+
+    async updateCollection(id, updates) {
+      requireRole('editor');
+
+      const collections = read();
+      const existing = collections.find(c => c.id === id);
+      if (!existing) return null;
+
+      const name = updates.name?.trim() || existing.name;
+      if (name !== existing.name && isNameTaken(collections, name, id)) return null;
+
+      const updated: Collection = { ...existing, ...updates, name, slug: slugify(name) };
+      write(collections.map(c => {
+        if (c.id === id) return updated;
+        return updates.is_featured ? { ...c, is_featured: false } : c;
+      }));
+      return updated;
+    },
+
+    async setCollectionGames(id, gameIds) {
+      requireRole('editor');
+
+      const collections = read();
+      if (!collections.some(c => c.id === id)) return false;
+      write(collections.map(c => (c.id === id ? { ...c, game_ids: Array.from(new Set(gameIds)) } : c)));
+      return true;
+    },
+
+    async deleteCollection(id) {
+      requireRole('admin');
+
+      const collections = read();
+      const remaining = collections.filter(c => c.id !== id);
+      if (remaining.length === collections.length) return false;
+      write(remaining);
+      return true;
+    },
+
+    subscribeToChanges: subscribe
+  };
+};
@@ -0,0 +1,235 @@
+import { AdminRole } from './auth';
+import { Game, GameRepository, GameUpdate } from './gameRepository';
+import { GameServiceError } from './errors';
+import { isEmbedCode } from './embed';
+import { CollectionStore } from './collections';
+import { LocalPlayCounts, mergePlayCounts } from './playAnalytics';
+import { ScoreEntry } from './leaderboards';
+
+// Spotting the same game added twice, and merging the copies into one
+
+// Titles at least this similar (0-1) are flagged
+export const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+// Query parameters that only say where a visitor came from
+const TRACKING_PARAM = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src|_ga)$/i;
+
+// Words that don't tell games apart: "Slope Unblocked" is Slope
+const FILLER_WORDS = new Set(['the', 'a', 'an', 'game', 'unblocked', 'online', 'free']);
+
+export type DuplicateReason = 'url' | 'title';
+
+export interface DuplicateMatch {
+  game: Game;
+  reason: DuplicateReason;
+}
+
+export interface GameMergeStore {
+  // Moves plays, scores, favorites and collection places from the merged games to
+  // the kept one, then moves the merged games to the trash. Admin only.
+  mergeGames(keepId: string, mergedIds: string[]): Promise<boolean>;
+  // Merged game id -> the game it now lives on, for lists saved in browsers.
+  // Merging into a game that was itself merged later points at the newest one.
+  getMergedIds(): Promise<Record<string, string>>;
+}
+
+const normalizeLink = (link: string) => {
+  try {
+    const url = new URL(link.trim());
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const path = url.pathname.replace(/\/+$/, '');
+    const params = Array.from(url.searchParams.entries())
+      .filter(([name]) => !TRACKING_PARAM.test(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+    // http and https, www and not, and fragments all reach the same game
+    return `${host}${url.port ? `:${url.port}` : ''}${path}${query}`;
+  } catch {
+    return link.trim().toLowerCase();
+  }
+};
+
+// Links, and embed code by the page its frame loads
+export const duplicateUrlKey = (url: string) => {
+  if (isEmbedCode(url)) {
+    const src = url.match(/\bsrc\s*=\s*["']([^"']+)["']/i)?.[1];
+    return src && /^https?:\/\//i.test(src) ? normalizeLink(src) : url.replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+  return normalizeLink(url);
+};
+
+export const titleKey = (title: string) =>
+  title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .join(' ');
+
+const bigrams = (key: string) => {
+  const text = key.replace(/ /g, '');
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+  return pairs;
+};
+
+// Dice coefficient over letter pairs: 1 for the same title, near 0 for unrelated ones
+const diceSimilarity = (a: Map<string, number>, b: Map<string, number>) => {
+  const total = [...a.values(), ...b.values()].reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  let shared = 0;
+  a.forEach((count, pair) => {
+    shared += Math.min(count, b.get(pair) ?? 0);
+  });
+  return (2 * shared) / total;
+};
+
+// Sequels and versions differ by a number ("Run 2", "Run 3"), so those never match
+const numbersIn = (key: string) => (key.match(/\d+/g) ?? []).join(' ');
+
+export const titleSimilarity = (a: string, b: string) => {
+  const keyA = titleKey(a);
+  const keyB = titleKey(b);
+  if (!keyA || !keyB || numbersIn(keyA) !== numbersIn(keyB)) return 0;
+  return keyA === keyB ? 1 : diceSimilarity(bigrams(keyA), bigrams(keyB));
+};
+
+// Games that look like `candidate`, same link first; `excludeId` is the game being edited
+export const findDuplicatesOf = (
+  candidate: DuplicateCandidate,
+  games: Game[],
+  excludeId: string | null = null
+): DuplicateMatch[] => {
+  const urlKey = candidate.url.trim() ? duplicateUrlKey(candidate.url) : null;
+  const matches = games
+    .filter(game => game.id !== excludeId)
+    .map((game): DuplicateMatch | null => {
+      if (urlKey && duplicateUrlKey(game.url) === urlKey) return { game, reason: 'url' };
+      if (titleSimilarity(candidate.title, game.title) >= TITLE_SIMILARITY_THRESHOLD) return { game, reason: 'title' };
+      return null;
+    })
+    .filter((match): match is DuplicateMatch => match !== null);
+  return [...matches.filter(m => m.reason === 'url'), ...matches.filter(m => m.reason === 'title')];
+};
+
+export type DuplicateCandidate = Pick<Game, 'title' | 'url'>;
+
+// The title and link an update would leave, or null when it changes neither
+export const duplicateCandidateOf = (existing: Game, updates: GameUpdate): DuplicateCandidate | null => {
+  const candidate = { title: updates.title ?? existing.title, url: updates.url ?? existing.url };
+  return candidate.title === existing.title && candidate.url === existing.url ? null : candidate;
+};
+
+// Thrown by addGame/updateGame unless the caller allows duplicates
+export const duplicateGameError = (matches: DuplicateMatch[]) =>
+  new GameServiceError(
+    'duplicate',
+    `This looks like ${matches[0].game.title}, which is already in the catalog.`,
+    {},
+    matches
+  );
+
+export const assertNoDuplicates = (matches: DuplicateMatch[]) => {
+  if (matches.length > 0) throw duplicateGameError(matches);
+};
+
+// Groups of two or more games that look like copies of each other, oldest game first.
+// A game similar to either of two others joins both into one group.
+export const findDuplicateGroups = (games: Game[]): Game[][] => {
+  const parent = games.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const join = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  const byUrl = new Map<string, number>();
+  games.forEach((game, index) => {
+    const key = duplicateUrlKey(game.url);
+    const seen = byUrl.get(key);
+    if (seen === undefined) byUrl.set(key, index);
+    else join(index, seen);
+  });
+
+  const keys = games.map(game => titleKey(game.title));
+  const pairs = keys.map(bigrams);
+  const numbers = keys.map(numbersIn);
+  for (let i = 0; i < games.length; i++) {
+    for (let j = i + 1; j < games.length; j++) {
+      if (!keys[i] || !keys[j] || numbers[i] !== numbers[j]) continue;
+      if (keys[i] === keys[j] || diceSimilarity(pairs[i], pairs[j]) >= TITLE_SIMILARITY_THRESHOLD) join(i, j);
+    }
+  }
+
+  const groups = new Map<number, Game[]>();
+  games.forEach((game, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), game]);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => [...group].sort((a, b) => a.created_at.localeCompare(b.created_at)));
+};
+
+interface ClientGameMergeStoreOptions {
+  repository: GameRepository;
+  collectionStore: CollectionStore;
+  playCounts: { read: () => LocalPlayCounts; write: (counts: LocalPlayCounts) => void };
+  scores: { read: () => ScoreEntry[]; write: (entries: ScoreEntry[]) => void };
+  read: () => Record<string, string>;
+  write: (mergedIds: Record<string, string>) => void;
+  requireRole: (required: AdminRole) => void;
+}
+
+// Merges for the localStorage and in-memory backends, where every store is in this browser
+export const createClientGameMergeStore = ({
+  repository,
+  collectionStore,
+  playCounts,
+  scores,
+  read,
+  write,
+  requireRole
+}: ClientGameMergeStoreOptions): GameMergeStore => ({
+  async mergeGames(keepId, mergedIds) {
+    requireRole('admin');
+
+    const games = await repository.getGames();
+    const merging = new Set(mergedIds);
+    if (merging.size === 0 || merging.has(keepId) || !games.some(g => g.id === keepId) ||
+      !mergedIds.every(id => games.some(g => g.id === id))) {
+      return false;
+    }
+
+    playCounts.write(mergePlayCounts(playCounts.read(), mergedIds, keepId));
+    scores.write(scores.read().map(entry => (merging.has(entry.game_id) ? { ...entry, game_id: keepId } : entry)));
+
+    // The kept game takes the place of the first copy in each collection
+    for (const collection of await collectionStore.getCollections()) {
+      if (!collection.game_ids.some(id => merging.has(id))) continue;
+      const gameIds = Array.from(new Set(collection.game_ids.map(id => (merging.has(id) ? keepId : id))));
+      await collectionStore.setCollectionGames(collection.id, gameIds);
+    }
+
+    const redirects = read();
+    write({
+      ...Object.fromEntries(Object.entries(redirects).map(([id, target]) => [id, merging.has(target) ? keepId : target])),
+      ...Object.fromEntries(mergedIds.map(id => [id, keepId]))
+    });
+
+    for (const id of mergedIds) {
+      await repository.deleteGame(id);
+    }
+    return true;
+  },
+
+  async getMergedIds() {
+    // Games restored from the trash stop redirecting
+    const liveIds = new Set((await repository.getGames()).map(game => game.id));
+    return Object.fromEntries(Object.entries(read()).filter(([id]) => !liveIds.has(id)));
+  }
+});
@@ -0,0 +1,74 @@
+// Helpers for games whose `url` holds pasted HTML embed code instead of a link
+
+export const DEFAULT_EMBED_SANDBOX = 'allow-scripts allow-pointer-lock allow-popups allow-forms';
+export const DEFAULT_ALLOW_POLICY = 'fullscreen; autoplay; encrypted-media';
+
+// srcdoc frames inherit our origin if these are allowed alongside scripts
+const FORBIDDEN_EMBED_TOKENS = ['allow-same-origin', 'allow-top-navigation'];
+
+const REMOVED_ELEMENTS = ['script', 'base', 'object', 'embed', 'applet', 'noscript'];
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href', 'data'];
+const DANGEROUS_URL = /^\s*(javascript|vbscript|data:text\/html)/i;
+
+export interface SanitizeResult {
+  html: string;
+  removed: string[];
+}
+
+export const isEmbedCode = (url: string) => url.includes('<');
+
+export const sanitizeEmbedCode = (html: string): SanitizeResult => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const removed: string[] = [];
+
+  REMOVED_ELEMENTS.forEach(tag => {
+    doc.querySelectorAll(tag).forEach(element => {
+      removed.push(`<${tag}> element`);
+      element.remove();
+    });
+  });
+
+  doc.querySelectorAll('meta[http-equiv]').forEach(element => {
+    removed.push(`<meta http-equiv="${element.getAttribute('http-equiv')}">`);
+    element.remove();
+  });
+
+  doc.querySelectorAll('*').forEach(element => {
+    const tag = element.tagName.toLowerCase();
+    Array.from(element.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      if (name.startsWith('on')) {
+        removed.push(`${name} handler on <${tag}>`);
+        element.removeAttribute(attribute.name);
+      } else if (URL_ATTRIBUTES.includes(name) && DANGEROUS_URL.test(attribute.value)) {
+        removed.push(`script URL in ${name} on <${tag}>`);
+        element.removeAttribute(attribute.name);
+      } else if (name === 'srcdoc') {
+        removed.push(`srcdoc on <${tag}>`);
+        element.removeAttribute(attribute.name);
+      }
+    });
+  });
+
+  return { html: doc.body.innerHTML.trim(), removed };
+};
+
+// Sanitizes embed code in a game payload before it is saved
+export const sanitizeGameUrl = <T extends { url?: string }>(game: T): T => {
+  if (!game.url || !isEmbedCode(game.url)) return game;
+  return { ...game, url: sanitizeEmbedCode(game.url).html };
+};
+
+export const resolveEmbedSandbox = (policy?: string | null) => {
+  const tokens = (policy?.trim() ? policy : DEFAULT_EMBED_SANDBOX).split(/\s+/);
+  return tokens.filter(token => !FORBIDDEN_EMBED_TOKENS.includes(token)).join(' ');
+};
+
+export const buildEmbedDocument = (html: string) => `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <style>html, body { margin: 0; height: 100%; overflow: hidden; } iframe { max-width: 100%; }</style>
+  </head>
+  <body>${html}</body>
+</html>`;
@@ -0,0 +1,43 @@
+import { DuplicateMatch } from './duplicates';
+
+// 'invalid' carries per-field messages, 'duplicate' the games it looks like;
+// 'failed' is anything else the server refused
+export type GameServiceErrorCode = 'unauthorized' | 'rate_limited' | 'invalid' | 'duplicate' | 'failed';
+
+// Thrown by the game services when a mutation is refused or sent too often
+export class GameServiceError extends Error {
+  code: GameServiceErrorCode;
+  // Keyed by field name, for showing next to form inputs
+  fieldErrors: Partial<Record<string, string>>;
+  // The games a 'duplicate' write looks like, same link first
+  duplicates: DuplicateMatch[];
+
+  constructor(
+    code: GameServiceErrorCode,
+    message: string,
+    fieldErrors: Partial<Record<string, string>> = {},
+    duplicates: DuplicateMatch[] = []
+  ) {
+    super(message);
+    this.name = 'GameServiceError';
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+    this.duplicates = duplicates;
+  }
+}
+
+export const isUnauthorizedError = (error: unknown): error is GameServiceError =>
+  error instanceof GameServiceError && error.code === 'unauthorized';
+
+export const isRateLimitedError = (error: unknown): error is GameServiceError =>
+  error instanceof GameServiceError && error.code === 'rate_limited';
+
+export const isValidationError = (error: unknown): error is GameServiceError =>
+  error instanceof GameServiceError && error.code === 'invalid';
+
+export const isDuplicateError = (error: unknown): error is GameServiceError =>
+  error instanceof GameServiceError && error.code === 'duplicate';
+
+// A message fit for a toast: our own errors say what went wrong, anything else gets the fallback
+export const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof GameServiceError ? error.message : fallback;
@@ -0,0 +1,171 @@
+import { Game, GameSourceKind } from './gameRepository';
+import { isEmbedCode } from './embed';
+import { readZipEntries } from './zipArchive';
+
+// Self-hosted games: a zip of a static HTML5 game, unpacked into storage and
+// played from /hosted/<bundle id>/index.html on our own site
+
+export const BUNDLE_LIMITS = {
+  zipBytes: 50 * 1024 * 1024,
+  unpackedBytes: 100 * 1024 * 1024,
+  fileBytes: 20 * 1024 * 1024,
+  files: 500
+};
+
+export const HOSTED_PATH_PREFIX = '/hosted/';
+export const BUNDLE_ENTRY = 'index.html';
+
+const HOSTED_URL_PATTERN = /^\/hosted\/[0-9a-f-]{36}\/index\.html$/i;
+
+// Allowed file types, by extension; anything else fails the upload
+export const BUNDLE_CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  css: 'text/css',
+  json: 'application/json',
+  txt: 'text/plain',
+  xml: 'application/xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  bmp: 'image/bmp',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  wasm: 'application/wasm',
+  // Engine exports (Unity, Godot) ship their game data in these
+  data: 'application/octet-stream',
+  pck: 'application/octet-stream',
+  bin: 'application/octet-stream'
+};
+
+// Listing every problem in a zip of hundreds of files helps nobody
+const MAX_LISTED_PROBLEMS = 5;
+
+// Zip tools add these; they are skipped rather than rejected
+const IGNORED_PATHS = [/^__MACOSX\//, /(^|\/)\.DS_Store$/, /(^|\/)Thumbs\.db$/];
+
+export interface BundleFile {
+  // Relative to the bundle root, e.g. "js/game.js"
+  path: string;
+  size: number;
+  contentType: string;
+  read(): Promise<Blob>;
+}
+
+export interface GameBundle {
+  files: BundleFile[];
+  totalBytes: number;
+}
+
+export interface GameBundleStore {
+  // Unpacks the bundle into storage and resolves to the url the game is played from
+  uploadBundle(bundle: GameBundle, onProgress?: (uploaded: number, total: number) => void): Promise<string>;
+}
+
+export const hostedBundleUrl = (bundleId: string) => `${HOSTED_PATH_PREFIX}${bundleId}/${BUNDLE_ENTRY}`;
+
+export const isHostedUrl = (url: string) => HOSTED_URL_PATTERN.test(url.trim());
+
+// Rows written before source kinds existed are told apart by their url
+export const gameSourceKind = (game: Pick<Game, 'url' | 'source_kind'>): GameSourceKind => {
+  if (game.source_kind) return game.source_kind;
+  if (isEmbedCode(game.url)) return 'embed';
+  return isHostedUrl(game.url) ? 'hosted' : 'external';
+};
+
+const extensionOf = (path: string) => path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+
+export const bundleContentType = (path: string) => BUNDLE_CONTENT_TYPES[extensionOf(path)] ?? null;
+
+export const validateBundleFile = (file: File): string | null => {
+  if (!file.name.toLowerCase().endsWith('.zip')) {
+    return 'Upload the game as a .zip file.';
+  }
+  if (file.size > BUNDLE_LIMITS.zipBytes) {
+    return `Zip files must be ${BUNDLE_LIMITS.zipBytes / 1024 / 1024} MB or smaller.`;
+  }
+  return null;
+};
+
+// Zips made by "compress folder" wrap everything in that folder; unwrap it
+const commonFolder = (paths: string[]) => {
+  const [first] = paths;
+  const slash = first?.indexOf('/') ?? -1;
+  if (slash < 0) return '';
+  const folder = first.slice(0, slash + 1);
+  return paths.every(path => path.startsWith(folder)) ? folder : '';
+};
+
+// Reads and checks a zip without uploading anything; throws an Error listing what is wrong
+export const readGameBundle = async (file: File): Promise<GameBundle> => {
+  const entries = (await readZipEntries(file)).filter(
+    entry => !entry.isDirectory && !IGNORED_PATHS.some(pattern => pattern.test(entry.path))
+  );
+  const folder = commonFolder(entries.map(entry => entry.path));
+  const problems: string[] = [];
+  const files: BundleFile[] = [];
+
+  entries.forEach(entry => {
+    const path = entry.path.slice(folder.length);
+    const contentType = bundleContentType(path);
+    if (path.startsWith('/') || path.includes('\\') || path.split('/').some(part => part === '..' || part === '')) {
+      problems.push(`${entry.path} has an unsafe path.`);
+    } else if (!contentType) {
+      problems.push(`${path}: .${extensionOf(path)} files are not allowed.`);
+    } else if (entry.size > BUNDLE_LIMITS.fileBytes) {
+      problems.push(`${path} is larger than ${BUNDLE_LIMITS.fileBytes / 1024 / 1024} MB.`);
+    } else {
+      files.push({ path, size: entry.size, contentType, read: entry.read });
+    }
+  });
+
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  if (!files.some(file => file.path === BUNDLE_ENTRY)) {
+    problems.unshift(`The zip needs an ${BUNDLE_ENTRY} at its top level.`);
+  }
+  if (entries.length > BUNDLE_LIMITS.files) {
+    problems.push(`The zip has ${entries.length} files; the limit is ${BUNDLE_LIMITS.files}.`);
+  }
+  if (totalBytes > BUNDLE_LIMITS.unpackedBytes) {
+    problems.push(`The game unpacks to more than ${BUNDLE_LIMITS.unpackedBytes / 1024 / 1024} MB.`);
+  }
+
+  if (problems.length > MAX_LISTED_PROBLEMS) {
+    const more = problems.length - MAX_LISTED_PROBLEMS;
+    throw new Error(`${problems.slice(0, MAX_LISTED_PROBLEMS).join(' ')} …and ${more} more.`);
+  }
+  if (problems.length > 0) throw new Error(problems.join(' '));
+  return { files, totalBytes };
+};
+
+// Uploads files four at a time; the first failure rejects
+export const uploadBundleFiles = async (
+  bundle: GameBundle,
+  upload: (file: BundleFile) => Promise<void>,
+  onProgress?: (uploaded: number, total: number) => void
+) => {
+  const queue = [...bundle.files];
+  let uploaded = 0;
+  const worker = async () => {
+    for (let file = queue.shift(); file; file = queue.shift()) {
+      await upload(file);
+      uploaded++;
+      onProgress?.(uploaded, bundle.files.length);
+    }
+  };
+  await Promise.all([worker(), worker(), worker(), worker()]);
+};
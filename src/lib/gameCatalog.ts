@@ -0,0 +1,123 @@
+import { Game, GameRepository } from './gameRepository';
+import { GameChange, applyGameChanges } from './gameChanges';
+import { countGamesByCategory } from './categories';
+import { GamePlayStats, PlayAnalyticsStore, SortOrder, sortGames } from './playAnalytics';
+import { rankGames, suggestQuery } from './search';
+import { isBrokenLink } from './linkHealth';
+import { PublicationFilter, ScheduledRelease, isGameLive, matchesPublicationFilter, scheduledReleases } from './gamePublication';
+import { relatedGames } from './gameMetadata';
+
+// Deployments can keep games whose link check failed out of the players' grid
+export const HIDE_BROKEN_GAMES = import.meta.env.VITE_HIDE_BROKEN_GAMES === 'true';
+
+// Cards fetched per page of the grid
+export const PAGE_SIZE = 24;
+
+export interface GameQuery {
+  // null for every category
+  category: string | null;
+  // null for every tag
+  tag: string | null;
+  search: string;
+  sort: SortOrder;
+  // Leave out games whose last link check failed
+  hideBroken: boolean;
+  // Server-backed catalogs never return unpublished games to players, whatever this says
+  publication: PublicationFilter;
+}
+
+export interface GamePage {
+  games: Game[];
+  hasMore: boolean;
+}
+
+// Filtered, sorted and paginated reads for the grid.
+// Searches put the best matches first, then fall back to the sort order.
+export interface GameCatalog {
+  getPage(query: GameQuery, offset: number, limit: number): Promise<GamePage>;
+  getGamesByIds(ids: string[]): Promise<Game[]>;
+  // Players' counts leave out games that aren't live
+  getCategoryCounts(includeUnpublished: boolean): Promise<Record<string, number>>;
+  // Games that go live later, soonest first
+  getScheduledReleases(): Promise<ScheduledRelease[]>;
+  // Live games sharing tags or the category, for the detail page
+  getRelatedGames(game: Game, limit: number): Promise<Game[]>;
+  // Every game marked available offline, for the service worker. Throws rather than
+  // return a partial list, which would drop games players already saved.
+  getOfflineGames(): Promise<Game[]>;
+  // "Did you mean" for searches with no results
+  suggestSearch(search: string): Promise<string | null>;
+}
+
+const inListing = (game: Game, query: GameQuery) =>
+  (query.category === null || game.category === query.category) &&
+  (query.tag === null || (game.tags ?? []).includes(query.tag)) &&
+  !(query.hideBroken && isBrokenLink(game)) &&
+  matchesPublicationFilter(game, query.publication);
+
+export const matchesQuery = (game: Game, query: GameQuery) =>
+  inListing(game, query) &&
+  (!query.search.trim() || rankGames(query.search, [game]).length > 0);
+
+export const filterAndSortGames = (games: Game[], query: GameQuery, stats: GamePlayStats[]) => {
+  const sorted = sortGames(
+    games.filter(game => inListing(game, query)),
+    query.sort,
+    stats
+  );
+  // Ranking is a stable sort, so equally good matches keep the sort order
+  return query.search.trim() ? rankGames(query.search, sorted).map(result => result.game) : sorted;
+};
+
+// Patches the pages already loaded; changed games that no longer match the query drop out
+export const applyChangesToPages = (games: Game[], changes: GameChange[], query: GameQuery) => {
+  const changedIds = new Set(changes.flatMap(change => (change.type === 'delete' ? [] : [change.game.id])));
+  return applyGameChanges(games, changes).filter(game => !changedIds.has(game.id) || matchesQuery(game, query));
+};
+
+// Runs every query over the full list in the browser; fine for local catalogs,
+// and the offline fallback for server-backed ones
+export const createClientGameCatalog = ({
+  repository,
+  playAnalytics
+}: {
+  repository: GameRepository;
+  playAnalytics: PlayAnalyticsStore;
+}): GameCatalog => ({
+  async getPage(query, offset, limit) {
+    const [games, stats] = await Promise.all([repository.getGames(), playAnalytics.getStats()]);
+    const matching = filterAndSortGames(games, query, stats);
+    return {
+      games: matching.slice(offset, offset + limit),
+      hasMore: offset + limit < matching.length
+    };
+  },
+
+  async getGamesByIds(ids) {
+    const wanted = new Set(ids);
+    return (await repository.getGames()).filter(game => wanted.has(game.id));
+  },
+
+  async getCategoryCounts(includeUnpublished) {
+    const games = await repository.getGames();
+    return countGamesByCategory(includeUnpublished ? games : games.filter(game => isGameLive(game)));
+  },
+
+  async getScheduledReleases() {
+    return scheduledReleases(await repository.getGames())
+      .sort((a, b) => Date.parse(a.publish_at) - Date.parse(b.publish_at));
+  },
+
+  async getRelatedGames(game, limit) {
+    return relatedGames(game, await repository.getGames(), limit);
+  },
+
+  async getOfflineGames() {
+    return (await repository.getGames()).filter(game => game.offline_available);
+  },
+
+  async suggestSearch(search) {
+    // Unpublished titles stay out of players' suggestions, as they do on the server
+    return suggestQuery(search, (await repository.getGames()).filter(game => isGameLive(game)));
+  }
+});
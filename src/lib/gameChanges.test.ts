@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { GameChange, createOptimisticWriteTracker, diffGames, emptyChangeSummary, summarizeChanges } from './gameChanges';
+import { createGameRecord } from './gameRepository';
+import { sampleGame } from '../test/gameRepositoryContract';
+
+describe('createOptimisticWriteTracker', () => {
+  const change: GameChange = { type: 'update', game: createGameRecord(sampleGame()) };
+
+  it('matches the echo of a recorded write once', () => {
+    const tracker = createOptimisticWriteTracker();
+    tracker.record(change);
+
+    expect(tracker.consumeEcho(change)).toBe(true);
+    expect(tracker.consumeEcho(change)).toBe(false);
+  });
+
+  it('forgets writes whose echo never arrives', () => {
+    let now = 0;
+    const tracker = createOptimisticWriteTracker(() => now);
+    tracker.record(change);
+
+    now = 60000;
+    expect(tracker.consumeEcho(change)).toBe(false);
+  });
+});
+
+describe('summarizeChanges', () => {
+  it('names a deleted game that was never loaded from the change', () => {
+    const game = createGameRecord(sampleGame());
+    const [change] = diffGames([game], []);
+
+    expect(summarizeChanges(emptyChangeSummary, [change], []).removed).toEqual([{ id: game.id, title: 'Slope' }]);
+  });
+});
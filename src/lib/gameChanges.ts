@@ -0,0 +1,110 @@
+import { Game } from './gameRepository';
+
+// A single row change, as delivered by realtime or derived by diffing two lists.
+// Deletes carry the title when the backend still has it; Supabase sends just the
+// primary key for purges, which only remove games already in the trash.
+export type GameChange =
+  | { type: 'insert'; game: Game }
+  | { type: 'update'; game: Game }
+  | { type: 'delete'; id: string; title?: string };
+
+export interface ChangeSummary {
+  added: Game[];
+  updated: Game[];
+  removed: { id: string; title: string }[];
+}
+
+export const emptyChangeSummary: ChangeSummary = { added: [], updated: [], removed: [] };
+
+export const applyGameChanges = (games: Game[], changes: GameChange[]): Game[] =>
+  changes.reduce((list, change) => {
+    if (change.type === 'delete') {
+      return list.filter(g => g.id !== change.id);
+    }
+    const index = list.findIndex(g => g.id === change.game.id);
+    if (index === -1) {
+      return [change.game, ...list];
+    }
+    return list.map((g, i) => (i === index ? change.game : g));
+  }, games);
+
+export const diffGames = (previous: Game[], next: Game[]): GameChange[] => {
+  const previousById = new Map(previous.map(g => [g.id, g]));
+  const nextIds = new Set(next.map(g => g.id));
+  const changes: GameChange[] = [];
+
+  next.forEach(game => {
+    const before = previousById.get(game.id);
+    if (!before) {
+      changes.push({ type: 'insert', game });
+    } else if (before.updated_at !== game.updated_at) {
+      changes.push({ type: 'update', game });
+    }
+  });
+  previous.forEach(game => {
+    if (!nextIds.has(game.id)) {
+      changes.push({ type: 'delete', id: game.id, title: game.title });
+    }
+  });
+
+  return changes;
+};
+
+// Folds changes into a summary for the notification, naming deleted games from
+// the change itself or else the list from before the changes
+export const summarizeChanges = (
+  summary: ChangeSummary,
+  changes: GameChange[],
+  previousGames: Game[]
+): ChangeSummary =>
+  changes.reduce((acc, change) => {
+    if (change.type === 'delete') {
+      const title = change.title
+        ?? previousGames.find(g => g.id === change.id)?.title
+        ?? acc.added.find(g => g.id === change.id)?.title
+        ?? 'Unknown game';
+      return {
+        added: acc.added.filter(g => g.id !== change.id),
+        updated: acc.updated.filter(g => g.id !== change.id),
+        removed: [...acc.removed.filter(g => g.id !== change.id), { id: change.id, title }]
+      };
+    }
+
+    const { game } = change;
+    if (change.type === 'insert' || acc.added.some(g => g.id === game.id)) {
+      return { ...acc, added: [game, ...acc.added.filter(g => g.id !== game.id)] };
+    }
+    return { ...acc, updated: [game, ...acc.updated.filter(g => g.id !== game.id)] };
+  }, summary);
+
+const changeKey = (change: GameChange) =>
+  change.type === 'delete' ? `delete:${change.id}` : `${change.game.id}:${Date.parse(change.game.updated_at)}`;
+
+// Echoes arrive within seconds; local backends never send one, so writes are forgotten after this
+const ECHO_TIMEOUT_MS = 30000;
+
+// Remembers this client's own writes so their realtime echoes aren't announced
+export const createOptimisticWriteTracker = (now: () => number = Date.now) => {
+  // Change key -> when the write was recorded
+  const pending = new Map<string, number>();
+
+  const forgetExpired = () => {
+    const cutoff = now() - ECHO_TIMEOUT_MS;
+    pending.forEach((recordedAt, key) => {
+      if (recordedAt < cutoff) pending.delete(key);
+    });
+  };
+
+  return {
+    record(change: GameChange) {
+      forgetExpired();
+      pending.set(changeKey(change), now());
+    },
+
+    // True (once) when the change is the echo of a write we already applied
+    consumeEcho(change: GameChange) {
+      forgetExpired();
+      return pending.delete(changeKey(change));
+    }
+  };
+};
@@ -0,0 +1,187 @@
+import { AdminRole } from './auth';
+import { EDITABLE_FIELDS } from './catalogTransfer';
+import { Game, GameRepository, GameUpdate, toNewGame } from './gameRepository';
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+// One recorded change; a snapshot is null where the game did not exist
+export interface GameRevision {
+  id: string;
+  game_id: string;
+  action: RevisionAction;
+  // Email for Supabase accounts, the session label for the local passcode
+  actor_email: string | null;
+  changed_at: string;
+  before: Game | null;
+  after: Game | null;
+}
+
+export interface FieldChange {
+  field: typeof EDITABLE_FIELDS[number];
+  before: unknown;
+  after: unknown;
+}
+
+// Audit trail and trash for the catalog; writes fail the same way as GameRepository's
+export interface GameHistory {
+  // Newest first
+  getRevisions(gameId: string): Promise<GameRevision[]>;
+  // Most recently deleted first
+  getTrash(): Promise<Game[]>;
+  restoreGame(id: string): Promise<Game | null>;
+  // Deletes a trashed game for good; its revisions are kept
+  purgeGame(id: string): Promise<boolean>;
+  // Writes the revision's content back, restoring or re-creating the game if needed
+  revertToRevision(revision: GameRevision): Promise<Game | null>;
+}
+
+export const REVISION_LABELS: Record<RevisionAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  purge: 'Deleted forever'
+};
+
+// The content a revision left behind; purges keep what was last there
+export const revisionSnapshot = (revision: GameRevision) => revision.after ?? revision.before;
+
+export const diffSnapshots = (before: Partial<Game> | null, after: Partial<Game> | null): FieldChange[] =>
+  EDITABLE_FIELDS
+    .filter(field => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after?.[field] ?? null))
+    .map(field => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }));
+
+// Fields older snapshots don't have are left as they are
+export const snapshotUpdate = (snapshot: Partial<Game>): GameUpdate =>
+  Object.fromEntries(EDITABLE_FIELDS.filter(field => field in snapshot).map(field => [field, snapshot[field]]));
+
+export interface LocalGameHistory {
+  // Newest first
+  revisions: GameRevision[];
+  trash: Game[];
+}
+
+// Older revisions are dropped; covers can be large data URLs
+export const MAX_LOCAL_REVISIONS = 200;
+
+interface ClientGameHistoryOptions {
+  repository: GameRepository;
+  read: () => LocalGameHistory | null;
+  write: (history: LocalGameHistory) => void;
+  requireRole: (required: AdminRole) => void;
+  getActor: () => Promise<string | null>;
+}
+
+// Client-side repositories remove rows outright, so this wraps one to record
+// revisions and keep deleted games in a trash until they are purged
+export const createClientGameHistory = ({
+  repository: inner,
+  read,
+  write,
+  requireRole,
+  getActor
+}: ClientGameHistoryOptions): { repository: GameRepository; history: GameHistory } => {
+  const load = (): LocalGameHistory => read() ?? { revisions: [], trash: [] };
+
+  const update = (change: (history: LocalGameHistory) => LocalGameHistory) => write(change(load()));
+
+  const record = async (gameId: string, action: RevisionAction, before: Game | null, after: Game | null) => {
+    const revision: GameRevision = {
+      id: crypto.randomUUID(),
+      game_id: gameId,
+      action,
+      actor_email: await getActor(),
+      changed_at: new Date().toISOString(),
+      before,
+      after
+    };
+    update(history => ({
+      ...history,
+      revisions: [revision, ...history.revisions].slice(0, MAX_LOCAL_REVISIONS)
+    }));
+  };
+
+  const findTrashed = (id: string) => load().trash.find(game => game.id === id) ?? null;
+
+  const repository: GameRepository = {
+    ...inner,
+
+    async addGame(game, options) {
+      const added = await inner.addGame(game, options);
+      if (added) await record(added.id, 'create', null, added);
+      return added;
+    },
+
+    async updateGame(id, updates, options) {
+      const before = await inner.getGame(id);
+      const updated = await inner.updateGame(id, updates, options);
+      // Saves that leave every editable field as it was aren't edits
+      if (updated && diffSnapshots(before, updated).length > 0) {
+        await record(id, 'update', before, updated);
+      }
+      return updated;
+    },
+
+    async deleteGame(id) {
+      const game = await inner.getGame(id);
+      if (!game || !(await inner.deleteGame(id))) return false;
+
+      const trashed = { ...game, deleted_at: new Date().toISOString() };
+      update(history => ({ ...history, trash: [trashed, ...history.trash.filter(g => g.id !== id)] }));
+      await record(id, 'delete', game, trashed);
+      return true;
+    }
+  };
+
+  const history: GameHistory = {
+    async getRevisions(gameId) {
+      return load().revisions.filter(revision => revision.game_id === gameId);
+    },
+
+    async getTrash() {
+      return [...load().trash].sort((a, b) => (b.deleted_at ?? '').localeCompare(a.deleted_at ?? ''));
+    },
+
+    async restoreGame(id) {
+      requireRole('admin');
+
+      const trashed = findTrashed(id);
+      if (!trashed) return null;
+      // It was in the catalog before, so a copy added since doesn't stop it coming back
+      const restored = await inner.addGame({ ...toNewGame(trashed), deleted_at: null }, { allowDuplicates: true });
+      if (!restored) return null;
+
+      update(current => ({ ...current, trash: current.trash.filter(g => g.id !== id) }));
+      await record(id, 'restore', trashed, restored);
+      return restored;
+    },
+
+    async purgeGame(id) {
+      requireRole('admin');
+
+      const trashed = findTrashed(id);
+      if (!trashed) return false;
+
+      update(current => ({ ...current, trash: current.trash.filter(g => g.id !== id) }));
+      await record(id, 'purge', trashed, null);
+      return true;
+    },
+
+    async revertToRevision(revision) {
+      requireRole('editor');
+
+      const snapshot = revisionSnapshot(revision);
+      if (!snapshot) return null;
+      const id = revision.game_id;
+      const changes = snapshotUpdate(snapshot);
+
+      if (findTrashed(id) && !(await history.restoreGame(id))) return null;
+      if (await inner.getGame(id)) return repository.updateGame(id, changes, { allowDuplicates: true });
+
+      // Purged, so bring it back under the same id
+      return repository.addGame({ ...toNewGame(snapshot), ...changes, id, deleted_at: null }, { allowDuplicates: true });
+    }
+  };
+
+  return { repository, history };
+};
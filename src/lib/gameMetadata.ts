@@ -0,0 +1,37 @@
+import { Game, GameInputType } from './gameRepository';
+import { isGameLive } from './gamePublication';
+
+// The detail page's metadata and the "more like this" row under it
+
+export const INPUT_TYPES: { value: GameInputType; label: string }[] = [
+  { value: 'keyboard', label: 'Keyboard' },
+  { value: 'mouse', label: 'Mouse' },
+  { value: 'touch', label: 'Touch' }
+];
+
+export const RELATED_GAMES_LIMIT = 8;
+
+// "1 player", "2–4 players", "Up to 4 players"; null when neither end is known
+export const formatPlayerCount = ({ min_players: min, max_players: max }: Pick<Game, 'min_players' | 'max_players'>) => {
+  if (!min && !max) return null;
+  if (!min) return `Up to ${max} players`;
+  if (!max) return `${min}+ players`;
+  if (min === max) return min === 1 ? '1 player' : `${min} players`;
+  return `${min}–${max} players`;
+};
+
+// Each shared tag counts twice as much as sharing the category; ties go to newer games.
+// Only live games are suggested, and the server's related_games ranks the same way.
+export const relatedGames = (game: Game, games: Game[], limit = RELATED_GAMES_LIMIT): Game[] => {
+  const tags = new Set(game.tags ?? []);
+  return games
+    .filter(other => other.id !== game.id && isGameLive(other))
+    .map(other => ({
+      other,
+      score: (other.tags ?? []).filter(tag => tags.has(tag)).length * 2 + (other.category === game.category ? 1 : 0)
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.other.created_at.localeCompare(a.other.created_at))
+    .slice(0, limit)
+    .map(({ other }) => other);
+};
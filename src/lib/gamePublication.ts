@@ -0,0 +1,79 @@
+import { Game, GameStatus } from './gameRepository';
+
+// Drafts and hidden games are only shown to editors. A published game with a
+// future publish_at is "scheduled": players get it, and the new-games
+// notification, once that time arrives.
+
+export type PublicationState = 'draft' | 'scheduled' | 'published' | 'hidden';
+
+// The admins' grid filter; players always get 'published'
+export type PublicationFilter = PublicationState | 'all';
+
+export interface ScheduledRelease {
+  id: string;
+  publish_at: string;
+}
+
+export const GAME_STATUSES: { value: GameStatus; label: string }[] = [
+  { value: 'published', label: 'Published' },
+  { value: 'draft', label: 'Draft' },
+  { value: 'hidden', label: 'Hidden' }
+];
+
+export const PUBLICATION_FILTERS: { value: PublicationFilter; label: string }[] = [
+  { value: 'all', label: 'All games' },
+  { value: 'published', label: 'Live' },
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'draft', label: 'Drafts' },
+  { value: 'hidden', label: 'Hidden' }
+];
+
+// Timers longer than this fire at once, so later releases are re-checked instead
+export const MAX_RELEASE_TIMER_MS = 2 ** 31 - 1;
+
+export const gameStatus = (game: Pick<Game, 'status'>): GameStatus => game.status ?? 'published';
+
+export const publicationState = (game: Pick<Game, 'status' | 'publish_at'>, now = Date.now()): PublicationState => {
+  const status = gameStatus(game);
+  if (status !== 'published') return status;
+  return game.publish_at && Date.parse(game.publish_at) > now ? 'scheduled' : 'published';
+};
+
+export const isGameLive = (game: Pick<Game, 'status' | 'publish_at'>, now = Date.now()) =>
+  publicationState(game, now) === 'published';
+
+export const matchesPublicationFilter = (
+  game: Pick<Game, 'status' | 'publish_at'>,
+  filter: PublicationFilter,
+  now = Date.now()
+) => filter === 'all' || publicationState(game, now) === filter;
+
+export const scheduledReleases = (games: Game[], now = Date.now()): ScheduledRelease[] =>
+  games
+    .filter(game => publicationState(game, now) === 'scheduled')
+    .map(game => ({ id: game.id, publish_at: game.publish_at as string }));
+
+// The releases due by `now`, and how long until the next one after that
+export const splitDueReleases = (releases: ScheduledRelease[], now = Date.now()) => {
+  const due = releases.filter(release => Date.parse(release.publish_at) <= now);
+  const upcoming = releases
+    .map(release => Date.parse(release.publish_at))
+    .filter(time => time > now);
+  const nextInMs = upcoming.length > 0 ? Math.min(Math.min(...upcoming) - now, MAX_RELEASE_TIMER_MS) : null;
+  return { due, nextInMs };
+};
+
+// <input type="datetime-local"> works in local time without a zone
+export const toLocalDateTimeInput = (iso: string | null | undefined) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+export const fromLocalDateTimeInput = (value: string) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
@@ -0,0 +1,132 @@
+import { GameChange } from './gameChanges';
+import { DuplicateCandidate, DuplicateMatch } from './duplicates';
+import { LinkHealth } from './linkHealth';
+
+// Where `url` points: a link, pasted embed code, or a bundle we host (see gameBundles)
+export type GameSourceKind = 'external' | 'embed' | 'hosted';
+
+// Who can see a game; see gamePublication for scheduling with publish_at
+export type GameStatus = 'draft' | 'published' | 'hidden';
+
+// How a game is played, shown on its detail page
+export type GameInputType = 'keyboard' | 'mouse' | 'touch';
+
+// Link health columns are written by the link checker, never by the game form
+export interface Game extends Partial<LinkHealth> {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  color: string;
+  url: string;
+  // Missing on rows written before it existed; read it with gameSourceKind()
+  source_kind?: GameSourceKind | null;
+  sandbox_policy?: string | null;
+  allow_policy?: string | null;
+  // Origins allowed to send SDK messages; blank means the game link's own origin
+  sdk_origins?: string | null;
+  // Admin-marked same-origin games the service worker keeps cached for offline play
+  offline_available?: boolean | null;
+  cover_image_url?: string | null;
+  thumbnail_url?: string | null;
+  // Missing on rows written before it existed, which count as published
+  status?: GameStatus | null;
+  // A published game with a future publish_at is scheduled and goes live then
+  publish_at?: string | null;
+  // Lower-case keywords, searched alongside title, description and category
+  tags?: string[] | null;
+  // Detail page metadata; all optional, and missing on rows written before it existed
+  how_to_play?: string | null;
+  min_players?: number | null;
+  max_players?: number | null;
+  input_types?: GameInputType[] | null;
+  // null when nobody has said
+  mobile_friendly?: boolean | null;
+  developer?: string | null;
+  developer_url?: string | null;
+  // Set while the game is in the trash; trashed games are left out of getGames
+  deleted_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// `id` may be supplied by the caller (e.g. replaying an offline insert) and is kept as-is
+export type NewGame = Omit<Game, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+export type GameUpdate = Partial<Omit<NewGame, 'id'>>;
+
+export type RepositoryKind = 'supabase' | 'localStorage' | 'memory';
+
+// 'local' means the backend never talks to a server
+export type ConnectionState = 'connected' | 'offline' | 'local';
+
+export interface RepositoryCapabilities {
+  // Whether every player sees the same catalog
+  shared: boolean;
+  // Whether the catalog survives a page reload
+  persistent: boolean;
+  // Who receives subscribeToChanges callbacks: every client, other tabs, or this instance only
+  liveUpdates: 'realtime' | 'cross-tab' | 'instance';
+}
+
+export interface GameWriteOptions {
+  // Save even if the game looks like one already in the catalog
+  allowDuplicates?: boolean;
+}
+
+// Every backend must behave the same way (checked by src/test/gameRepositoryContract.ts):
+// - ids are uuids, games are ordered newest first
+// - addGame/updateGame return the saved row
+// - updateGame and deleteGame return null/false for unknown ids
+// - deleteGame moves the game to the trash, where GameHistory can restore it
+// - addGame, and updateGame when it changes the title or url, throw 'duplicate'
+//   (with the matches) for a game that looks like another live one, unless
+//   allowDuplicates is set; findDuplicates returns the same matches
+// - every other failure throws GameServiceError: 'unauthorized' without the needed
+//   role, 'invalid' (with fieldErrors) when gameValidation rejects the fields,
+//   'failed' when the write itself fails
+// - subscribeToChanges delivers row-level changes, never the whole list
+export interface GameRepository {
+  readonly kind: RepositoryKind;
+  readonly capabilities: RepositoryCapabilities;
+  getConnectionState(): ConnectionState;
+  onConnectionStateChange(callback: (state: ConnectionState) => void): () => void;
+  getGames(): Promise<Game[]>;
+  getGame(id: string): Promise<Game | null>;
+  addGame(game: NewGame, options?: GameWriteOptions): Promise<Game | null>;
+  updateGame(id: string, updates: GameUpdate, options?: GameWriteOptions): Promise<Game | null>;
+  deleteGame(id: string): Promise<boolean>;
+  // Live games that look like `candidate`, same link first; `excludeId` is the game being edited
+  findDuplicates(candidate: DuplicateCandidate, excludeId?: string | null): Promise<DuplicateMatch[]>;
+  subscribeToChanges(callback: (changes: GameChange[]) => void): () => void;
+}
+
+// Shared record helpers for the client-side backends
+
+export const createGameRecord = (game: NewGame): Game => {
+  const now = new Date().toISOString();
+  return {
+    ...game,
+    id: game.id ?? crypto.randomUUID(),
+    created_at: now,
+    updated_at: now
+  };
+};
+
+// Strips server-managed timestamps, keeping the id so the row can be re-inserted
+export const toNewGame = (game: Game): NewGame => {
+  const fields: Partial<Game> = { ...game };
+  delete fields.created_at;
+  delete fields.updated_at;
+  return fields as NewGame;
+};
+
+export const applyGameUpdate = (game: Game, updates: GameUpdate): Game => ({
+  ...game,
+  ...updates,
+  id: game.id,
+  created_at: game.created_at,
+  updated_at: new Date().toISOString()
+});
+
+export const sortNewestFirst = (games: Game[]) =>
+  [...games].sort((a, b) => b.created_at.localeCompare(a.created_at));
@@ -0,0 +1,138 @@
+import { Game } from './gameRepository';
+import { sanitizeEmbedCode } from './embed';
+import { gameSourceKind } from './gameBundles';
+
+// The postMessage protocol games use to talk to the player overlay.
+// public/sdk/game-hub-sdk.js is the reference client; keep the two in step.
+
+export const SDK_SOURCE = 'game-hub-sdk';
+export const SDK_VERSION = 1;
+
+export const MAX_ACHIEVEMENT_NAME = 100;
+
+// Messages from the game to the hub
+export type SdkMessage =
+  | { type: 'ready' }
+  | { type: 'score'; score: number }
+  | { type: 'achievement'; id: string; name: string }
+  | { type: 'game_over'; score: number | null };
+
+// Messages from the hub back to the game; every message carries the source and version
+export type HubMessage = { type: 'connected' };
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const readName = (value: unknown, fallback: string) =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_ACHIEVEMENT_NAME) : fallback;
+
+// Anything that isn't a well-formed message from a supported SDK version is ignored
+export const parseSdkMessage = (data: unknown): SdkMessage | null => {
+  if (typeof data !== 'object' || data === null) return null;
+  const message = data as Record<string, unknown>;
+  if (message.source !== SDK_SOURCE || message.version !== SDK_VERSION) return null;
+
+  switch (message.type) {
+    case 'ready':
+      return { type: 'ready' };
+    case 'score':
+      return isScore(message.score) ? { type: 'score', score: message.score } : null;
+    case 'achievement': {
+      const id = readName(message.id, '');
+      return id ? { type: 'achievement', id, name: readName(message.name, id) } : null;
+    }
+    case 'game_over':
+      return { type: 'game_over', score: isScore(message.score) ? message.score : null };
+    default:
+      return null;
+  }
+};
+
+// What the overlay knows about the current run of a game
+export interface SdkSession {
+  connected: boolean;
+  score: number | null;
+  achievements: { id: string; name: string }[];
+  // Set by game_over to the final score, or the last reported one
+  finalScore: number | null;
+  isOver: boolean;
+}
+
+export const emptySdkSession: SdkSession = {
+  connected: false,
+  score: null,
+  achievements: [],
+  finalScore: null,
+  isOver: false
+};
+
+export const applySdkMessage = (session: SdkSession, message: SdkMessage): SdkSession => {
+  switch (message.type) {
+    case 'ready':
+      // Sent again when the game reloads, which starts a new run
+      return { ...emptySdkSession, connected: true };
+    case 'score':
+      return { ...session, connected: true, score: message.score, isOver: false, finalScore: null };
+    case 'achievement':
+      if (session.achievements.some(achievement => achievement.id === message.id)) return session;
+      return {
+        ...session,
+        connected: true,
+        achievements: [...session.achievements, { id: message.id, name: message.name }]
+      };
+    case 'game_over': {
+      const finalScore = message.score ?? session.score;
+      return { ...session, connected: true, score: finalScore, finalScore, isOver: true };
+    }
+  }
+};
+
+export const toHubMessage = (message: HubMessage) => ({ source: SDK_SOURCE, version: SDK_VERSION, ...message });
+
+const originOf = (url: string) => {
+  try {
+    const origin = new URL(url).origin;
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+};
+
+export const parseSdkOrigins = (value?: string | null) =>
+  (value ?? '').split(/[\s,]+/).map(origin => origin.trim()).filter(Boolean);
+
+// Origins allowed to post SDK messages for a game. Without a list, a linked game's own
+// origin is allowed; embed code runs in an opaque 'null' origin, plus any frames it loads.
+export const allowedSdkOrigins = (game: Pick<Game, 'url' | 'source_kind' | 'sdk_origins'>): string[] => {
+  const listed = parseSdkOrigins(game.sdk_origins);
+  if (listed.length > 0) return listed;
+
+  const kind = gameSourceKind(game);
+  // Hosted bundles run in a sandboxed frame, which has no origin
+  if (kind === 'hosted') return ['null'];
+  if (kind === 'external') {
+    const origin = originOf(game.url.trim());
+    return origin ? [origin] : [];
+  }
+
+  const doc = new DOMParser().parseFromString(sanitizeEmbedCode(game.url).html, 'text/html');
+  const frameOrigins = Array.from(doc.querySelectorAll('iframe[src]'))
+    .map(frame => originOf(frame.getAttribute('src') ?? ''))
+    .filter((origin): origin is string => origin !== null);
+  return ['null', ...frameOrigins];
+};
+
+// True when `source` is the frame's window or a window nested inside it. Reading
+// `parent` is allowed across origins, so this works for third-party frames too.
+export const isFromFrame = (source: MessageEventSource | null, frame: HTMLIFrameElement | null) => {
+  const frameWindow = frame?.contentWindow;
+  if (!frameWindow || !source || !('parent' in source)) return false;
+
+  let current: Window = source;
+  while (current !== window) {
+    if (current === frameWindow) return true;
+    if (current.parent === current) return false;
+    current = current.parent;
+  }
+  return false;
+};
@@ -0,0 +1,204 @@
+import { GameServiceError } from './errors';
+import { isEmbedCode, sanitizeEmbedCode, sanitizeGameUrl } from './embed';
+import { GameInputType, GameSourceKind, GameStatus, GameUpdate, NewGame } from './gameRepository';
+import { GAME_COLORS } from './palette';
+import { parseSdkOrigins } from './gameSdk';
+import { gameSourceKind, isHostedUrl } from './gameBundles';
+
+// The one set of rules for game fields, checked by the admin form, catalog imports
+// and every repository before a game is written
+
+export const GAME_LIMITS = {
+  title: 100,
+  description: 1000,
+  link: 2000,
+  embedCode: 20000,
+  policy: 500,
+  tags: 20,
+  tagLength: 30,
+  howToPlay: 2000,
+  developer: 100,
+  players: 100
+};
+
+export type GameField =
+  | 'title'
+  | 'description'
+  | 'category'
+  | 'color'
+  | 'url'
+  | 'source_kind'
+  | 'sandbox_policy'
+  | 'allow_policy'
+  | 'sdk_origins'
+  | 'cover_image_url'
+  | 'thumbnail_url'
+  | 'tags'
+  | 'status'
+  | 'publish_at'
+  | 'how_to_play'
+  | 'min_players'
+  | 'max_players'
+  | 'input_types'
+  | 'developer'
+  | 'developer_url';
+
+export type GameFieldErrors = Partial<Record<GameField, string>>;
+
+export interface GameValidationOptions {
+  // Category names games may use; omit to skip the category check
+  categories?: string[] | null;
+}
+
+const LINK_PATTERN = /^https?:\/\/[^\s<>]+$/i;
+const IMAGE_PATTERN = /^(https?:\/\/\S+|data:image\/[a-z+]+;base64,\S+)$/i;
+
+const isOrigin = (value: string) => {
+  if (value === 'null') return true;
+  try {
+    const url = new URL(value);
+    return /^https?:$/.test(url.protocol) && url.origin === value.replace(/\/$/, '');
+  } catch {
+    return false;
+  }
+};
+
+const SOURCE_KINDS: GameSourceKind[] = ['external', 'embed', 'hosted'];
+const STATUSES: GameStatus[] = ['draft', 'published', 'hidden'];
+const INPUT_TYPES: GameInputType[] = ['keyboard', 'mouse', 'touch'];
+
+const isPlayerCount = (value: number) => Number.isInteger(value) && value >= 1 && value <= GAME_LIMITS.players;
+
+const validateUrl = (url: string, kind: GameSourceKind): string | undefined => {
+  const trimmed = url.trim();
+  if (kind === 'hosted') {
+    return isHostedUrl(trimmed) ? undefined : 'Upload the game as a zip file.';
+  }
+  if (!trimmed) return kind === 'embed' ? 'Paste the embed code.' : 'Enter a game link.';
+  if (kind === 'embed') {
+    if (!isEmbedCode(trimmed)) return 'Embed code is HTML, e.g. <iframe src="...">.';
+    if (trimmed.length > GAME_LIMITS.embedCode) return `Keep embed code under ${GAME_LIMITS.embedCode} characters.`;
+    if (!sanitizeEmbedCode(trimmed).html) return 'The embed code has nothing left to show once scripts are removed.';
+    return undefined;
+  }
+  if (trimmed.length > GAME_LIMITS.link) return `Keep links under ${GAME_LIMITS.link} characters.`;
+  if (!LINK_PATTERN.test(trimmed)) return 'Enter a link starting with http:// or https://.';
+  return undefined;
+};
+
+// Checks only the fields present, so partial updates leave other fields alone
+export const validateGameFields = (
+  fields: GameUpdate,
+  { categories }: GameValidationOptions = {}
+): GameFieldErrors => {
+  const errors: GameFieldErrors = {};
+  const has = (field: GameField) => fields[field] !== undefined;
+
+  if (has('title')) {
+    const title = fields.title?.trim() ?? '';
+    if (!title) errors.title = 'Enter a title.';
+    else if (title.length > GAME_LIMITS.title) errors.title = `Keep the title under ${GAME_LIMITS.title} characters.`;
+  }
+  if (has('description') && (fields.description ?? '').length > GAME_LIMITS.description) {
+    errors.description = `Keep the description under ${GAME_LIMITS.description} characters.`;
+  }
+  if (has('category')) {
+    const category = fields.category?.trim() ?? '';
+    if (!category) errors.category = 'Pick a category.';
+    else if (categories && !categories.includes(category)) errors.category = `There is no "${category}" category.`;
+  }
+  if (has('color') && !GAME_COLORS.includes(fields.color ?? '')) {
+    errors.color = 'Pick one of the listed colors.';
+  }
+  if (has('source_kind') && !SOURCE_KINDS.includes(fields.source_kind as GameSourceKind)) {
+    errors.source_kind = 'Pick where the game comes from.';
+  }
+  if (has('url') && !errors.source_kind) {
+    // Without a kind (imports, older callers) it is worked out from the url
+    const urlError = validateUrl(fields.url ?? '', gameSourceKind({ url: fields.url ?? '', source_kind: fields.source_kind }));
+    if (urlError) errors.url = urlError;
+  }
+  (['sandbox_policy', 'allow_policy'] as const).forEach(field => {
+    if ((fields[field] ?? '').length > GAME_LIMITS.policy) {
+      errors[field] = `Keep this under ${GAME_LIMITS.policy} characters.`;
+    }
+  });
+  if (has('sdk_origins')) {
+    const invalid = parseSdkOrigins(fields.sdk_origins).filter(origin => !isOrigin(origin));
+    if (invalid.length > 0) errors.sdk_origins = `Not an origin: ${invalid.join(', ')}. Use e.g. https://games.example.com`;
+  }
+  (['cover_image_url', 'thumbnail_url'] as const).forEach(field => {
+    const value = fields[field]?.trim();
+    if (value && !IMAGE_PATTERN.test(value)) errors[field] = 'Images must be uploaded or linked with http(s).';
+  });
+  if (has('status') && !STATUSES.includes(fields.status as GameStatus)) {
+    errors.status = 'Pick draft, published or hidden.';
+  }
+  if (fields.publish_at && Number.isNaN(Date.parse(fields.publish_at))) {
+    errors.publish_at = 'Enter a valid publish date and time.';
+  }
+  if ((fields.how_to_play ?? '').length > GAME_LIMITS.howToPlay) {
+    errors.how_to_play = `Keep how to play under ${GAME_LIMITS.howToPlay} characters.`;
+  }
+  (['min_players', 'max_players'] as const).forEach(field => {
+    const value = fields[field];
+    if (value !== null && value !== undefined && !isPlayerCount(value)) {
+      errors[field] = `Use a whole number from 1 to ${GAME_LIMITS.players}.`;
+    }
+  });
+  if (!errors.min_players && !errors.max_players && fields.min_players && fields.max_players &&
+    fields.min_players > fields.max_players) {
+    errors.max_players = 'The most players must be at least the fewest.';
+  }
+  if ((fields.input_types ?? []).some(type => !INPUT_TYPES.includes(type))) {
+    errors.input_types = 'Pick keyboard, mouse or touch.';
+  }
+  if ((fields.developer ?? '').trim().length > GAME_LIMITS.developer) {
+    errors.developer = `Keep the developer under ${GAME_LIMITS.developer} characters.`;
+  }
+  const developerUrl = fields.developer_url?.trim();
+  if (developerUrl && (developerUrl.length > GAME_LIMITS.link || !LINK_PATTERN.test(developerUrl))) {
+    errors.developer_url = 'Enter a link starting with http:// or https://.';
+  }
+  if (has('tags')) {
+    const tags = fields.tags ?? [];
+    if (tags.length > GAME_LIMITS.tags) errors.tags = `Use at most ${GAME_LIMITS.tags} tags.`;
+    else if (tags.some(tag => tag.length > GAME_LIMITS.tagLength)) {
+      errors.tags = `Keep each tag under ${GAME_LIMITS.tagLength} characters.`;
+    }
+  }
+
+  return errors;
+};
+
+// New games also need the fields every game has; imports and old callers may leave them out
+export const validateNewGame = (game: NewGame, options: GameValidationOptions = {}): GameFieldErrors =>
+  validateGameFields({
+    ...game,
+    title: game.title ?? '',
+    url: game.url ?? '',
+    category: game.category ?? '',
+    color: game.color ?? ''
+  }, options);
+
+export const hasFieldErrors = (errors: GameFieldErrors) => Object.keys(errors).length > 0;
+
+export const invalidGameError = (errors: GameFieldErrors) =>
+  new GameServiceError('invalid', Object.values(errors).join(' '), errors);
+
+// Every write of a url records its kind, so the column never disagrees with the url
+const withSourceKind = <T extends { url?: string; source_kind?: GameSourceKind | null }>(game: T): T =>
+  game.url === undefined ? game : { ...game, source_kind: gameSourceKind({ url: game.url, source_kind: game.source_kind }) };
+
+// Validate-then-sanitize, for repositories; throws GameServiceError('invalid')
+export const prepareNewGame = (game: NewGame, options: GameValidationOptions = {}): NewGame => {
+  const errors = validateNewGame(game, options);
+  if (hasFieldErrors(errors)) throw invalidGameError(errors);
+  return withSourceKind(sanitizeGameUrl(game));
+};
+
+export const prepareGameUpdate = (updates: GameUpdate, options: GameValidationOptions = {}): GameUpdate => {
+  const errors = validateGameFields(updates, options);
+  if (hasFieldErrors(errors)) throw invalidGameError(errors);
+  return withSourceKind(sanitizeGameUrl(updates));
+};
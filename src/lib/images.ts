@@ -0,0 +1,84 @@
+import { AdminRole } from './auth';
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Widths the cover is resized to; cards only ever load the thumbnail
+export const COVER_WIDTH = 1280;
+export const THUMBNAIL_WIDTH = 400;
+
+export interface CoverImages {
+  cover_image_url: string;
+  thumbnail_url: string;
+}
+
+export interface CoverImageStore {
+  uploadCover(file: File): Promise<CoverImages>;
+}
+
+export const validateImageFile = (file: File): string | null => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return 'Use a PNG, JPEG, WebP or GIF image.';
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return 'Images must be 5 MB or smaller.';
+  }
+  return null;
+};
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image.'));
+    };
+    image.src = url;
+  });
+
+// Scales down (never up) to maxWidth and re-encodes the image
+export const resizeImage = async (file: File, maxWidth: number, type = 'image/webp', quality = 0.8): Promise<Blob> => {
+  const image = await loadImage(file);
+  const scale = Math.min(1, maxWidth / image.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not resize the image.'))),
+      type,
+      quality
+    );
+  });
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read the image.'));
+    reader.readAsDataURL(blob);
+  });
+
+// Without Storage the images live inside the game row, so keep them small for localStorage
+export const createDataUrlCoverStore = (requireRole: (required: AdminRole) => void): CoverImageStore => ({
+  async uploadCover(file) {
+    requireRole('editor');
+
+    const [cover, thumbnail] = await Promise.all([
+      resizeImage(file, 640, 'image/jpeg', 0.6),
+      resizeImage(file, 240, 'image/jpeg', 0.6)
+    ]);
+    return {
+      cover_image_url: await blobToDataUrl(cover),
+      thumbnail_url: await blobToDataUrl(thumbnail)
+    };
+  }
+});
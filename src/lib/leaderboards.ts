@@ -0,0 +1,85 @@
+import { GameServiceError } from './errors';
+
+export const LEADERBOARD_SIZE = 10;
+export const MAX_PLAYER_NAME = 24;
+// Per browser in the client store, per account or IP in Supabase
+export const SCORE_LIMIT = 10;
+export const SCORE_WINDOW_MINUTES = 10;
+
+const PLAYER_NAME_KEY = 'leaderboardName';
+
+// A score a game reported through the SDK; higher is better
+export interface ScoreEntry {
+  id: string;
+  game_id: string;
+  player_name: string;
+  score: number;
+  created_at: string;
+}
+
+export type ScoreInput = Pick<ScoreEntry, 'game_id' | 'player_name' | 'score'>;
+
+export interface LeaderboardStore {
+  // Throws GameServiceError('rate_limited') after too many scores
+  submitScore(input: ScoreInput): Promise<boolean>;
+  // Best first, ties broken by who got there first
+  getTopScores(gameId: string, limit?: number): Promise<ScoreEntry[]>;
+}
+
+export const rateLimitedScoreError = () =>
+  new GameServiceError('rate_limited', 'Too many scores saved for now. Please try again in a few minutes.');
+
+export const rankScores = (entries: ScoreEntry[]) =>
+  [...entries].sort((a, b) => b.score - a.score || a.created_at.localeCompare(b.created_at));
+
+export const prepareScore = (input: ScoreInput): ScoreInput => {
+  const playerName = input.player_name.trim().slice(0, MAX_PLAYER_NAME);
+  if (!playerName) throw new Error('Enter a name for the leaderboard.');
+  if (!Number.isFinite(input.score)) throw new Error('Scores must be numbers.');
+  return { ...input, player_name: playerName };
+};
+
+export const loadPlayerName = () => {
+  try {
+    return localStorage.getItem(PLAYER_NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const savePlayerName = (name: string) => {
+  try {
+    localStorage.setItem(PLAYER_NAME_KEY, name.trim());
+  } catch (error) {
+    console.warn('Could not save leaderboard name:', error);
+  }
+};
+
+// Keeps the best scores per game so local storage doesn't grow without bound
+const MAX_STORED_PER_GAME = 100;
+
+interface ClientLeaderboardStoreOptions {
+  read: () => ScoreEntry[];
+  write: (entries: ScoreEntry[]) => void;
+}
+
+// Leaderboards for the localStorage and in-memory backends; only this browser's scores
+export const createClientLeaderboardStore = ({ read, write }: ClientLeaderboardStoreOptions): LeaderboardStore => ({
+  async submitScore(input) {
+    const score = prepareScore(input);
+    const entries = read();
+    const windowStart = Date.now() - SCORE_WINDOW_MINUTES * 60 * 1000;
+    if (entries.filter(entry => Date.parse(entry.created_at) > windowStart).length >= SCORE_LIMIT) {
+      throw rateLimitedScoreError();
+    }
+
+    const entry: ScoreEntry = { ...score, id: crypto.randomUUID(), created_at: new Date().toISOString() };
+    const forGame = rankScores([...entries.filter(e => e.game_id === score.game_id), entry]).slice(0, MAX_STORED_PER_GAME);
+    write([...entries.filter(e => e.game_id !== score.game_id), ...forGame]);
+    return true;
+  },
+
+  async getTopScores(gameId, limit = LEADERBOARD_SIZE) {
+    return rankScores(read().filter(entry => entry.game_id === gameId)).slice(0, limit);
+  }
+});
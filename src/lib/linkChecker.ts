@@ -0,0 +1,42 @@
+import { AdminRole } from './auth';
+import { Game } from './gameRepository';
+import { LinkCheckResult, LinkHealth, checkLinks } from './linkHealth';
+
+// Runs the link check and saves the results on each game
+export interface LinkChecker {
+  // Whether status codes and framing headers can be read, or only reachability
+  readonly detailed: boolean;
+  checkGames(games: Game[], onProgress?: (done: number, total: number) => void): Promise<LinkCheckResult[]>;
+}
+
+// Saves check results on a client-side backend. A check isn't an edit, so
+// updated_at stays put and no revision is recorded. False for unknown ids.
+export interface LinkHealthStore {
+  saveLinkHealth(gameId: string, health: LinkHealth): Promise<boolean>;
+}
+
+// Checks from the browser. Cross-origin responses are opaque here, so this
+// only finds hosts that don't answer at all.
+export const createClientLinkChecker = ({
+  store,
+  requireRole
+}: {
+  store: LinkHealthStore;
+  requireRole: (required: AdminRole) => void;
+}): LinkChecker => ({
+  detailed: false,
+
+  async checkGames(games, onProgress) {
+    requireRole('editor');
+
+    const results = await checkLinks(games, {
+      opaque: true,
+      embedOrigin: window.location.origin,
+      onProgress
+    });
+    for (const { gameId, health } of results) {
+      await store.saveLinkHealth(gameId, health);
+    }
+    return results;
+  }
+});
@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { checkLinks } from './linkHealth';
+
+// One path per case, served over real HTTP so the default fetcher is what gets tested
+const routes: Record<string, (res: ServerResponse) => void> = {
+  '/ok': res => res.writeHead(200).end(),
+  '/missing': res => res.writeHead(404).end(),
+  '/moved': res => res.writeHead(302, { Location: '/ok' }).end(),
+  '/deny': res => res.writeHead(200, { 'X-Frame-Options': 'DENY' }).end(),
+  '/ancestors': res => res.writeHead(200, { 'Content-Security-Policy': "default-src 'self'; frame-ancestors 'self'" }).end(),
+  // Never answers
+  '/slow': () => {}
+};
+
+describe('checkLinks against a local server', () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => routes[req.url ?? '']?.(res));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const check = async (path: string) => {
+    const [result] = await checkLinks([{ id: path, url: `${base}${path}` }], {
+      timeoutMs: 300,
+      embedOrigin: 'https://games.example.com'
+    });
+    return result.health;
+  };
+
+  it('passes a page that loads', async () => {
+    expect(await check('/ok')).toMatchObject({ link_status: 200, link_frame_blocked: false, link_error: null });
+  });
+
+  it('records a missing page', async () => {
+    expect(await check('/missing')).toMatchObject({ link_status: 404, link_error: null });
+  });
+
+  it('follows redirects to the final page', async () => {
+    expect(await check('/moved')).toMatchObject({ link_status: 200, link_error: null });
+  });
+
+  it('flags X-Frame-Options: DENY', async () => {
+    expect(await check('/deny')).toMatchObject({ link_status: 200, link_frame_blocked: true });
+  });
+
+  it('flags a CSP frame-ancestors that leaves out the embedding site', async () => {
+    expect(await check('/ancestors')).toMatchObject({ link_status: 200, link_frame_blocked: true });
+  });
+
+  it('gives up on a server that never answers', async () => {
+    const health = await check('/slow');
+
+    expect(health.link_status).toBeNull();
+    expect(health.link_error).toBe('Timed out after 300 ms');
+  });
+
+  it('returns results in the order the games were given', async () => {
+    const results = await checkLinks(['/missing', '/ok', '/deny'].map(path => ({ id: path, url: `${base}${path}` })));
+
+    expect(results.map(result => [result.gameId, result.health.link_status])).toEqual([
+      ['/missing', 404],
+      ['/ok', 200],
+      ['/deny', 200]
+    ]);
+  });
+});
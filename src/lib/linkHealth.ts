@@ -0,0 +1,187 @@
+// Probes game URLs for dead links and pages that refuse to be framed.
+// Shared by the admin UI, the CLI script and the Supabase function, so it has no imports.
+
+// Columns recorded on each game by the last check
+export interface LinkHealth {
+  // HTTP status, null when the request failed or the response was opaque
+  link_status: number | null;
+  link_response_ms: number | null;
+  // X-Frame-Options or CSP frame-ancestors would stop the player's iframe
+  link_frame_blocked: boolean;
+  // Network error or timeout, null when a response came back
+  link_error: string | null;
+  link_checked_at: string;
+}
+
+export interface LinkTarget {
+  id: string;
+  url: string;
+}
+
+export interface LinkCheckResult {
+  gameId: string;
+  // The URL that was probed; embed codes are checked through their iframe src
+  checkedUrl: string | null;
+  health: LinkHealth;
+}
+
+// The subset of fetch's Response the checker reads
+export interface FetchedResponse {
+  status: number;
+  type?: string;
+  headers: { get(name: string): string | null };
+}
+
+// Same shape as the global fetch, so tests can pass a stub
+export type Fetcher = (
+  url: string,
+  init: { method: 'HEAD' | 'GET'; signal: AbortSignal; redirect: 'follow'; mode?: 'no-cors' }
+) => Promise<FetchedResponse>;
+
+export interface LinkCheckOptions {
+  fetcher?: Fetcher;
+  timeoutMs?: number;
+  // Origin the games are embedded from, for SAMEORIGIN and frame-ancestors checks
+  embedOrigin?: string;
+  // Browsers can't read cross-origin responses, so they only learn whether the host answered
+  opaque?: boolean;
+  concurrency?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_CONCURRENCY = 4;
+
+// Pulls the iframe src out of embed code; other embeds can't be probed
+export const linkTargetUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  if (!trimmed.includes('<')) return /^https?:\/\//i.test(trimmed) ? trimmed : null;
+  const match = trimmed.match(/<iframe[^>]*\ssrc\s*=\s*["']?([^"'\s>]+)/i);
+  return match && /^https?:\/\//i.test(match[1]) ? match[1] : null;
+};
+
+const originOf = (url: string) => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+export const isFrameBlocked = (
+  headers: FetchedResponse['headers'],
+  targetUrl: string,
+  embedOrigin?: string
+): boolean => {
+  const frameOptions = headers.get('x-frame-options')?.trim().toLowerCase();
+  if (frameOptions === 'deny') return true;
+  if (frameOptions === 'sameorigin' && originOf(targetUrl) !== embedOrigin) return true;
+
+  const csp = headers.get('content-security-policy') ?? '';
+  const directive = csp
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.toLowerCase().startsWith('frame-ancestors'));
+  if (!directive) return false;
+
+  const sources = directive.split(/\s+/).slice(1);
+  if (sources.includes('*')) return false;
+  if (sources.includes("'self'") && originOf(targetUrl) === embedOrigin) return false;
+  return !sources.some(source => embedOrigin && source.replace(/\/$/, '') === embedOrigin);
+};
+
+const defaultFetcher: Fetcher = (url, init) => fetch(url, init);
+
+const request = async (
+  fetcher: Fetcher,
+  url: string,
+  method: 'HEAD' | 'GET',
+  timeoutMs: number,
+  opaque: boolean
+) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetcher(url, {
+      method,
+      signal: controller.signal,
+      redirect: 'follow',
+      ...(opaque ? { mode: 'no-cors' as const } : {})
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const checkLink = async (target: LinkTarget, options: LinkCheckOptions = {}): Promise<LinkCheckResult> => {
+  const { fetcher = defaultFetcher, timeoutMs = DEFAULT_TIMEOUT_MS, embedOrigin, opaque = false } = options;
+  const checkedUrl = linkTargetUrl(target.url);
+  const health: LinkHealth = {
+    link_status: null,
+    link_response_ms: null,
+    link_frame_blocked: false,
+    link_error: null,
+    link_checked_at: new Date().toISOString()
+  };
+  if (!checkedUrl) {
+    return { gameId: target.id, checkedUrl, health };
+  }
+
+  const started = Date.now();
+  try {
+    let response = await request(fetcher, checkedUrl, 'HEAD', timeoutMs, opaque);
+    // Some servers don't implement HEAD
+    if (response.status === 405 || response.status === 501) {
+      response = await request(fetcher, checkedUrl, 'GET', timeoutMs, opaque);
+    }
+    health.link_response_ms = Date.now() - started;
+
+    if (response.type !== 'opaque') {
+      health.link_status = response.status;
+      health.link_frame_blocked = isFrameBlocked(response.headers, checkedUrl, embedOrigin);
+    }
+  } catch (error) {
+    health.link_response_ms = Date.now() - started;
+    const aborted = error instanceof Error && error.name === 'AbortError';
+    health.link_error = aborted
+      ? `Timed out after ${timeoutMs} ms`
+      : error instanceof Error ? error.message : 'Request failed';
+  }
+
+  return { gameId: target.id, checkedUrl, health };
+};
+
+// Checks every target, a few at a time, and returns results in the same order
+export const checkLinks = async (targets: LinkTarget[], options: LinkCheckOptions = {}) => {
+  const results: LinkCheckResult[] = new Array(targets.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < targets.length) {
+      const index = next++;
+      results[index] = await checkLink(targets[index], options);
+      options.onProgress?.(++done, targets.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, targets.length) }, worker)
+  );
+  return results;
+};
+
+// Checked and found dead, erroring or unframeable; unchecked games are not broken
+export const isBrokenLink = (health: Partial<LinkHealth>) =>
+  Boolean(health.link_checked_at) &&
+  (health.link_error != null || (health.link_status ?? 0) >= 400 || health.link_frame_blocked === true);
+
+export const describeLinkHealth = (health: Partial<LinkHealth>) => {
+  if (!health.link_checked_at) return 'Not checked yet';
+  if (health.link_error) return health.link_error;
+  if (health.link_status !== null && health.link_status !== undefined && health.link_status >= 400) {
+    return `HTTP ${health.link_status}`;
+  }
+  if (health.link_frame_blocked) return 'Refuses to load in a frame';
+  return 'OK';
+};
@@ -0,0 +1,84 @@
+import { AdminSession, AuthService, assertRole, AdminRole } from './auth';
+import { GameServiceError } from './errors';
+
+const PASSCODE_KEY = 'adminPasscodeHash';
+const SESSION_KEY = 'localAdminSession';
+const MIN_PASSCODE_LENGTH = 6;
+
+const listeners = new Set<(session: AdminSession | null) => void>();
+
+const hashPasscode = async (passcode: string): Promise<string> => {
+  const data = new TextEncoder().encode(`unblockedhub:${passcode}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Unlocks are kept per tab, so closing the tab locks admin mode again
+const readSession = (): AdminSession | null => {
+  const stored = sessionStorage.getItem(SESSION_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+const writeSession = (session: AdminSession | null) => {
+  if (session) {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    sessionStorage.removeItem(SESSION_KEY);
+  }
+  listeners.forEach(listener => listener(session));
+};
+
+// Passcode-protected admin mode for the localStorage fallback
+export const localAuthService: AuthService & {
+  hasPasscode(): boolean;
+  requireRole(required: AdminRole): void;
+} = {
+  mode: 'passcode',
+
+  hasPasscode() {
+    return localStorage.getItem(PASSCODE_KEY) !== null;
+  },
+
+  async getSession() {
+    return readSession();
+  },
+
+  // The first sign-in on a device sets the passcode
+  async signIn({ password }) {
+    if (password.length < MIN_PASSCODE_LENGTH) {
+      throw new GameServiceError(
+        'unauthorized',
+        `Passcode must be at least ${MIN_PASSCODE_LENGTH} characters.`
+      );
+    }
+
+    const hash = await hashPasscode(password);
+    const storedHash = localStorage.getItem(PASSCODE_KEY);
+    if (storedHash === null) {
+      localStorage.setItem(PASSCODE_KEY, hash);
+    } else if (storedHash !== hash) {
+      throw new GameServiceError('unauthorized', 'Incorrect passcode.');
+    }
+
+    const session: AdminSession = { role: 'admin', identity: 'Local passcode' };
+    writeSession(session);
+    return session;
+  },
+
+  async signOut() {
+    writeSession(null);
+  },
+
+  onSessionChange(callback) {
+    listeners.add(callback);
+    return () => {
+      listeners.delete(callback);
+    };
+  },
+
+  requireRole(required) {
+    assertRole(readSession(), required);
+  }
+};
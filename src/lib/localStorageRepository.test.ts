@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { AdminRole } from './auth';
+import { localGameHistory, localStorageService } from './localStorageRepository';
+import { describeGameRepositoryContract, sampleGame } from '../test/gameRepositoryContract';
+
+const signInAs = async (role: AdminRole | null) => {
+  // The passcode only ever unlocks admin, so editors are signed in directly
+  if (role) {
+    sessionStorage.setItem('localAdminSession', JSON.stringify({ role, identity: 'test' }));
+  } else {
+    sessionStorage.removeItem('localAdminSession');
+  }
+};
+
+// The backend writes through the history wrapper, so that is what gets checked
+describeGameRepositoryContract('localStorage', async () => {
+  localStorage.clear();
+  sessionStorage.clear();
+  return { repository: localGameHistory.repository, signInAs };
+});
+
+describe('localStorage link health', () => {
+  it('saves check results without counting them as an edit', async () => {
+    localStorage.clear();
+    await signInAs('editor');
+    const game = await localGameHistory.repository.addGame(sampleGame());
+    const revisions = await localGameHistory.history.getRevisions(game!.id);
+
+    const saved = await localStorageService.saveLinkHealth(game!.id, {
+      link_status: 404,
+      link_response_ms: 12,
+      link_frame_blocked: false,
+      link_error: null,
+      link_checked_at: new Date(Date.now() + 1000).toISOString()
+    });
+
+    expect(saved).toBe(true);
+    expect(await localStorageService.getGame(game!.id)).toMatchObject({ link_status: 404, updated_at: game!.updated_at });
+    expect(await localGameHistory.history.getRevisions(game!.id)).toEqual(revisions);
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  Game,
+  GameRepository,
+  applyGameUpdate,
+  createGameRecord
+} from './gameRepository';
+import { localAuthService } from './localAuth';
+import { prepareGameUpdate, prepareNewGame } from './gameValidation';
+import { diffGames } from './gameChanges';
+import { categoryNames, createClientCategoryStore } from './categories';
+import { LocalPlayCounts, createClientPlayAnalytics } from './playAnalytics';
+import { LocalGameHistory, createClientGameHistory } from './gameHistory';
+import { createClientSubmissionStore } from './submissions';
+import { createClientCollectionStore } from './collections';
+import { ScoreEntry, createClientLeaderboardStore } from './leaderboards';
+import { assertNoDuplicates, createClientGameMergeStore, duplicateCandidateOf, findDuplicatesOf } from './duplicates';
+import { LinkHealthStore } from './linkChecker';
+
+const GAMES_KEY = 'unblockedGames';
+const UPDATE_KEY = 'gameUpdate';
+
+const CATEGORIES_KEY = 'unblockedCategories';
+const CATEGORY_UPDATE_KEY = 'categoryUpdate';
+
+const readCategories = () => {
+  const stored = localStorage.getItem(CATEGORIES_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+const readGames = (): Game[] => {
+  const stored = localStorage.getItem(GAMES_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const writeGames = (games: Game[]) => {
+  localStorage.setItem(GAMES_KEY, JSON.stringify(games));
+
+  // Trigger storage event for cross-tab sync
+  localStorage.setItem(UPDATE_KEY, Date.now().toString());
+};
+
+export const isLocalStorageAvailable = () => {
+  try {
+    localStorage.setItem('storageTest', 'ok');
+    localStorage.removeItem('storageTest');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Fallback localStorage service
+export const localStorageService: GameRepository & LinkHealthStore = {
+  kind: 'localStorage',
+  capabilities: { shared: false, persistent: true, liveUpdates: 'cross-tab' },
+
+  getConnectionState() {
+    return 'local';
+  },
+
+  onConnectionStateChange() {
+    return () => {};
+  },
+
+  async getGames() {
+    return readGames();
+  },
+
+  async getGame(id) {
+    return readGames().find(g => g.id === id) ?? null;
+  },
+
+  async addGame(game, options = {}) {
+    localAuthService.requireRole('editor');
+
+    const newGame = createGameRecord(prepareNewGame(game, { categories: categoryNames(readCategories()) }));
+    const games = readGames();
+    if (!options.allowDuplicates) assertNoDuplicates(findDuplicatesOf(newGame, games));
+    writeGames([newGame, ...games]);
+    return newGame;
+  },
+
+  async updateGame(id, updates, options = {}) {
+    localAuthService.requireRole('editor');
+
+    const games = readGames();
+    const gameIndex = games.findIndex(g => g.id === id);
+    if (gameIndex === -1) return null;
+
+    // A game may keep a category that has since been removed
+    const categories = [...categoryNames(readCategories()), games[gameIndex].category];
+    const updatedGame = applyGameUpdate(games[gameIndex], prepareGameUpdate(updates, { categories }));
+    const candidate = duplicateCandidateOf(games[gameIndex], updatedGame);
+    if (candidate && !options.allowDuplicates) assertNoDuplicates(findDuplicatesOf(candidate, games, id));
+    games[gameIndex] = updatedGame;
+    writeGames(games);
+    return updatedGame;
+  },
+
+  async deleteGame(id) {
+    localAuthService.requireRole('admin');
+
+    const games = readGames();
+    const remaining = games.filter(g => g.id !== id);
+    if (remaining.length === games.length) return false;
+
+    writeGames(remaining);
+    return true;
+  },
+
+  async findDuplicates(candidate, excludeId = null) {
+    return findDuplicatesOf(candidate, readGames(), excludeId);
+  },
+
+  async saveLinkHealth(id, health) {
+    localAuthService.requireRole('editor');
+
+    const games = readGames();
+    if (!games.some(g => g.id === id)) return false;
+
+    writeGames(games.map(g => (g.id === id ? { ...g, ...health } : g)));
+    return true;
+  },
+
+  subscribeToChanges(callback) {
+    // Storage events only say that something changed, so diff against the last list we saw
+    let snapshot = readGames();
+
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === UPDATE_KEY) {
+        const games = readGames();
+        const changes = diffGames(snapshot, games);
+        snapshot = games;
+        if (changes.length > 0) callback(changes);
+      }
+    };
+
+    window.addEventListener('storage', handleStorageChange);
+    return () => window.removeEventListener('storage', handleStorageChange);
+  }
+};
+
+const HISTORY_KEY = 'gameHistory';
+
+// Wraps the repository above; everything else should write through localGameHistory.repository
+export const localGameHistory = createClientGameHistory({
+  repository: localStorageService,
+  read: () => {
+    const stored = localStorage.getItem(HISTORY_KEY);
+    return stored ? JSON.parse(stored) : null;
+  },
+  write: (history) => {
+    // Drop older revisions rather than fail the edit when storage is full
+    let revisions = history.revisions;
+    for (;;) {
+      try {
+        const next: LocalGameHistory = { ...history, revisions };
+        localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+        return;
+      } catch (error) {
+        if (revisions.length === 0) throw error;
+        revisions = revisions.slice(0, Math.floor(revisions.length / 2));
+      }
+    }
+  },
+  requireRole: localAuthService.requireRole,
+  getActor: async () => (await localAuthService.getSession())?.identity ?? null
+});
+
+export const localCategoryService = createClientCategoryStore({
+  read: readCategories,
+  write: (categories) => {
+    localStorage.setItem(CATEGORIES_KEY, JSON.stringify(categories));
+    localStorage.setItem(CATEGORY_UPDATE_KEY, Date.now().toString());
+  },
+  repository: localGameHistory.repository,
+  requireRole: localAuthService.requireRole,
+  subscribe: (callback) => {
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === CATEGORY_UPDATE_KEY) callback();
+    };
+    window.addEventListener('storage', handleStorageChange);
+    return () => window.removeEventListener('storage', handleStorageChange);
+  }
+});
+
+const PLAY_COUNTS_KEY = 'playCounts';
+
+// Shared with the merge store, which moves counts between games
+const playCountStorage = {
+  read: (): LocalPlayCounts => {
+    const stored = localStorage.getItem(PLAY_COUNTS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  },
+  write: (counts: LocalPlayCounts) => {
+    localStorage.setItem(PLAY_COUNTS_KEY, JSON.stringify(counts));
+  }
+};
+
+export const localPlayAnalytics = createClientPlayAnalytics(playCountStorage);
+
+const SUBMISSIONS_KEY = 'gameSubmissions';
+
+export const localSubmissionStore = createClientSubmissionStore({
+  read: () => {
+    const stored = localStorage.getItem(SUBMISSIONS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  },
+  write: (submissions) => {
+    localStorage.setItem(SUBMISSIONS_KEY, JSON.stringify(submissions));
+  },
+  repository: localGameHistory.repository,
+  requireRole: localAuthService.requireRole
+});
+
+const COLLECTIONS_KEY = 'gameCollections';
+const COLLECTION_UPDATE_KEY = 'collectionUpdate';
+
+export const localCollectionStore = createClientCollectionStore({
+  read: () => {
+    const stored = localStorage.getItem(COLLECTIONS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  },
+  write: (collections) => {
+    localStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+    localStorage.setItem(COLLECTION_UPDATE_KEY, Date.now().toString());
+  },
+  requireRole: localAuthService.requireRole,
+  subscribe: (callback) => {
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === COLLECTION_UPDATE_KEY) callback();
+    };
+    window.addEventListener('storage', handleStorageChange);
+    return () => window.removeEventListener('storage', handleStorageChange);
+  }
+});
+
+const SCORES_KEY = 'gameScores';
+
+const scoreStorage = {
+  read: (): ScoreEntry[] => {
+    const stored = localStorage.getItem(SCORES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  },
+  write: (entries: ScoreEntry[]) => {
+    localStorage.setItem(SCORES_KEY, JSON.stringify(entries));
+  }
+};
+
+export const localLeaderboardStore = createClientLeaderboardStore(scoreStorage);
+
+const MERGES_KEY = 'gameMerges';
+
+export const localGameMergeStore = createClientGameMergeStore({
+  repository: localGameHistory.repository,
+  collectionStore: localCollectionStore,
+  playCounts: playCountStorage,
+  scores: scoreStorage,
+  read: () => {
+    const stored = localStorage.getItem(MERGES_KEY);
+    return stored ? JSON.parse(stored) : {};
+  },
+  write: (mergedIds) => {
+    localStorage.setItem(MERGES_KEY, JSON.stringify(mergedIds));
+  },
+  requireRole: localAuthService.requireRole
+});
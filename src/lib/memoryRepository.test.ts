@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { AdminRole, AdminSession, assertRole } from './auth';
+import { createMemoryRepository } from './memoryRepository';
+import { createOptimisticWriteTracker } from './gameChanges';
+import { describeGameRepositoryContract, sampleGame } from '../test/gameRepositoryContract';
+
+describeGameRepositoryContract('memory', async () => {
+  let session: AdminSession | null = null;
+  return {
+    repository: createMemoryRepository({ requireRole: (required) => assertRole(session, required) }),
+    async signInAs(role: AdminRole | null) {
+      session = role ? { role, identity: 'test' } : null;
+    }
+  };
+});
+
+describe('memory change listeners', () => {
+  it('hear about a write after the caller has recorded it', async () => {
+    const repository = createMemoryRepository();
+    const tracker = createOptimisticWriteTracker();
+    const echoes = new Promise<boolean[]>(resolve => {
+      repository.subscribeToChanges(changes => resolve(changes.map(tracker.consumeEcho)));
+    });
+
+    const game = await repository.addGame(sampleGame());
+    tracker.record({ type: 'insert', game: game! });
+
+    expect(await echoes).toEqual([true]);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  Game,
+  GameRepository,
+  applyGameUpdate,
+  createGameRecord,
+  sortNewestFirst
+} from './gameRepository';
+import { AdminRole } from './auth';
+import { prepareGameUpdate, prepareNewGame } from './gameValidation';
+import { GameChange, diffGames } from './gameChanges';
+import { LinkHealthStore } from './linkChecker';
+import { assertNoDuplicates, duplicateCandidateOf, findDuplicatesOf } from './duplicates';
+
+interface MemoryRepositoryOptions {
+  initialGames?: Game[];
+  // Throws when the caller lacks the role; omit to allow every mutation
+  requireRole?: (required: AdminRole) => void;
+  // Category names new and edited games may use; omit to allow any
+  getCategoryNames?: () => string[];
+}
+
+// Non-persistent backend, used when localStorage is blocked and for local experiments
+export const createMemoryRepository = ({
+  initialGames = [],
+  requireRole = () => {},
+  getCategoryNames
+}: MemoryRepositoryOptions = {}): GameRepository & LinkHealthStore => {
+  let games = sortNewestFirst(initialGames);
+  const listeners = new Set<(changes: GameChange[]) => void>();
+
+  // Listeners hear about a write after the caller has it back, like a realtime
+  // echo, so the caller can record it as its own first
+  const commit = (next: Game[]) => {
+    const changes = diffGames(games, next);
+    games = next;
+    if (changes.length > 0) setTimeout(() => listeners.forEach(listener => listener(changes)));
+  };
+
+  return {
+    kind: 'memory',
+    capabilities: { shared: false, persistent: false, liveUpdates: 'instance' },
+
+    getConnectionState() {
+      return 'local';
+    },
+
+    onConnectionStateChange() {
+      return () => {};
+    },
+
+    async getGames() {
+      return [...games];
+    },
+
+    async getGame(id) {
+      return games.find(g => g.id === id) ?? null;
+    },
+
+    async addGame(game, options = {}) {
+      requireRole('editor');
+
+      const newGame = createGameRecord(prepareNewGame(game, { categories: getCategoryNames?.() }));
+      if (!options.allowDuplicates) assertNoDuplicates(findDuplicatesOf(newGame, games));
+      commit([newGame, ...games]);
+      return newGame;
+    },
+
+    async updateGame(id, updates, options = {}) {
+      requireRole('editor');
+
+      const existing = games.find(g => g.id === id);
+      if (!existing) return null;
+
+      // A game may keep a category that has since been removed
+      const names = getCategoryNames?.();
+      const categories = names ? [...names, existing.category] : undefined;
+      const updatedGame = applyGameUpdate(existing, prepareGameUpdate(updates, { categories }));
+      const candidate = duplicateCandidateOf(existing, updatedGame);
+      if (candidate && !options.allowDuplicates) assertNoDuplicates(findDuplicatesOf(candidate, games, id));
+      commit(games.map(g => (g.id === id ? updatedGame : g)));
+      return updatedGame;
+    },
+
+    async deleteGame(id) {
+      requireRole('admin');
+
+      if (!games.some(g => g.id === id)) return false;
+      commit(games.filter(g => g.id !== id));
+      return true;
+    },
+
+    async findDuplicates(candidate, excludeId = null) {
+      return findDuplicatesOf(candidate, games, excludeId);
+    },
+
+    async saveLinkHealth(id, health) {
+      requireRole('editor');
+
+      if (!games.some(g => g.id === id)) return false;
+      commit(games.map(g => (g.id === id ? { ...g, ...health } : g)));
+      return true;
+    },
+
+    subscribeToChanges(callback) {
+      listeners.add(callback);
+      return () => {
+        listeners.delete(callback);
+      };
+    }
+  };
+};
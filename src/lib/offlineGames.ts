@@ -0,0 +1,92 @@
+import { Game } from './gameRepository';
+import { isEmbedCode } from './embed';
+
+// Page side of public/sw.js: registering it, choosing which games it keeps
+// cached for offline play, and reporting how much storage that uses
+
+const GAME_CACHE_PREFIX = 'offline-game-';
+
+export interface OfflineSyncResult {
+  ok: boolean;
+  failed: { id: string; message: string }[];
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const isSupported = () => 'serviceWorker' in navigator && 'caches' in window;
+
+// Sends a message to the active worker and waits for its reply; null when
+// there is no worker (unsupported browser, or a dev build that never registers one)
+const askWorker = async <T>(message: unknown): Promise<T | null> => {
+  if (!isSupported() || !(await navigator.serviceWorker.getRegistration())) return null;
+  const worker = (await navigator.serviceWorker.ready).active;
+  if (!worker) return null;
+
+  return new Promise<T>(resolve => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = event => resolve(event.data as T);
+    worker.postMessage(message, [channel.port2]);
+  });
+};
+
+export const registerServiceWorker = () => {
+  if (!isSupported()) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      await navigator.serviceWorker.register('/sw.js');
+      // The build's hashed scripts and styles were fetched before the worker
+      // existed, so hand their URLs over to be cached
+      const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+      await askWorker({ type: 'cache-urls', urls });
+    } catch (error) {
+      console.warn('Service worker registration failed:', error);
+    }
+  });
+};
+
+// Only links on this site can be cached; the worker can't fetch other origins' files
+export const canCacheOffline = (url: string) => {
+  if (!url || isEmbedCode(url)) return false;
+  try {
+    return new URL(url, window.location.href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+export const isOfflineGame = (game: Pick<Game, 'url' | 'offline_available'>) =>
+  Boolean(game.offline_available) && canCacheOffline(game.url);
+
+// Caches every offline game not cached yet and drops the rest
+export const syncOfflineGames = (games: Game[]) =>
+  askWorker<OfflineSyncResult>({
+    type: 'sync-offline-games',
+    games: games.filter(isOfflineGame).map(game => ({ id: game.id, url: game.url }))
+  });
+
+export const getCachedGameIds = async (): Promise<string[]> => {
+  if (!isSupported()) return [];
+  const keys = await caches.keys();
+  return keys.filter(key => key.startsWith(GAME_CACHE_PREFIX)).map(key => key.slice(GAME_CACHE_PREFIX.length));
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
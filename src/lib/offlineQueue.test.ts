@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryRepository } from './memoryRepository';
+import { GameHistory, LocalGameHistory, createClientGameHistory } from './gameHistory';
+import { OfflineQueue, createOfflineQueue } from './offlineQueue';
+import { GameRepository } from './gameRepository';
+import { sampleGame } from '../test/gameRepositoryContract';
+
+// The "server" is a memory repository with a trash, reached through the queue
+const createServer = () => {
+  let saved: LocalGameHistory | null = null;
+  return createClientGameHistory({
+    repository: createMemoryRepository(),
+    read: () => saved,
+    write: (next) => {
+      saved = next;
+    },
+    requireRole: () => {},
+    getActor: async () => 'test'
+  });
+};
+
+describe('offline queue conflicts', () => {
+  let server: { repository: GameRepository; history: GameHistory };
+  let queue: OfflineQueue;
+  let online = true;
+
+  beforeEach(() => {
+    localStorage.clear();
+    online = true;
+    vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+    server = createServer();
+    queue = createOfflineQueue(server.repository, { requireRole: async () => {}, history: server.history });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('restores a game trashed on the server when keeping an offline edit', async () => {
+    const game = await queue.repository.addGame(sampleGame());
+    await queue.repository.getGames();
+
+    online = false;
+    await queue.repository.updateGame(game!.id, { title: 'Mine' });
+    await server.repository.deleteGame(game!.id);
+
+    online = true;
+    await queue.replay();
+    const [conflict] = queue.getConflicts();
+    expect(conflict.reason).toBe('deleted');
+
+    await queue.resolveConflict(conflict.id, 'local');
+
+    expect((await server.repository.getGame(game!.id))?.title).toBe('Mine');
+    expect(await server.history.getTrash()).toEqual([]);
+    expect(queue.getConflicts()).toEqual([]);
+  });
+});
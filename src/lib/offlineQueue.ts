@@ -0,0 +1,325 @@
+import { AdminRole } from './auth';
+import { prepareGameUpdate, prepareNewGame } from './gameValidation';
+import {
+  Game,
+  GameRepository,
+  GameUpdate,
+  NewGame,
+  applyGameUpdate,
+  createGameRecord,
+  toNewGame
+} from './gameRepository';
+import { GameServiceError, isUnauthorizedError, isValidationError } from './errors';
+import { GameHistory } from './gameHistory';
+import { assertNoDuplicates, duplicateCandidateOf, findDuplicatesOf } from './duplicates';
+
+const OUTBOX_KEY = 'gameOutbox';
+const CONFLICTS_KEY = 'gameSyncConflicts';
+// The last games seen online, so the catalog still shows after an offline reload
+const KNOWN_GAMES_KEY = 'knownGames';
+
+// At most one queued mutation per game; later offline edits are folded into it
+export type QueuedMutation =
+  | { type: 'add'; gameId: string; game: NewGame; queuedAt: string }
+  | { type: 'update'; gameId: string; updates: GameUpdate; baseUpdatedAt: string; queuedAt: string }
+  | { type: 'delete'; gameId: string; baseUpdatedAt: string; queuedAt: string };
+
+export type ConflictReason = 'changed' | 'deleted' | 'rejected';
+
+export interface SyncConflict {
+  id: string;
+  reason: ConflictReason;
+  mutation: QueuedMutation;
+  // What we would have written, null for deletes
+  localGame: Game | null;
+  // The row as it is now on the server, null if it no longer exists
+  serverGame: Game | null;
+  // Why the server refused a 'rejected' change
+  message?: string;
+  detectedAt: string;
+}
+
+export interface OfflineQueue {
+  repository: GameRepository;
+  getPendingCount(): number;
+  getConflicts(): SyncConflict[];
+  // Adds games loaded elsewhere (e.g. grid pages) to what stays browsable and editable offline
+  rememberGames(games: Game[]): void;
+  onChange(callback: () => void): () => void;
+  replay(): Promise<void>;
+  resolveConflict(conflictId: string, winner: 'local' | 'server'): Promise<void>;
+}
+
+interface OfflineQueueOptions {
+  requireRole: (required: AdminRole) => Promise<unknown>;
+  // Games deleted on the server while we were offline sit in its trash
+  history: GameHistory;
+}
+
+const readList = <T>(key: string): T[] => {
+  const stored = localStorage.getItem(key);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const writeList = <T>(key: string, list: T[]) => {
+  localStorage.setItem(key, JSON.stringify(list));
+};
+
+// Losing the cache only costs offline browsing, so a full quota is not an error
+const saveKnownGames = (games: Game[]) => {
+  try {
+    localStorage.setItem(KNOWN_GAMES_KEY, JSON.stringify(games));
+  } catch (error) {
+    console.warn('Could not cache games for offline use:', error);
+  }
+};
+
+const isSameVersion = (a: string, b: string) => Date.parse(a) === Date.parse(b);
+
+// Duplicates were checked when the change was queued, or the admin chose their version
+const REPLAY_OPTIONS = { allowDuplicates: true };
+
+// Overlays queued mutations on a list of games so offline edits stay visible
+const applyOutbox = (games: Game[], outbox: QueuedMutation[]): Game[] =>
+  outbox.reduce((list, mutation) => {
+    switch (mutation.type) {
+      case 'add':
+        return list.some(g => g.id === mutation.gameId)
+          ? list
+          : [createGameRecord(mutation.game), ...list];
+      case 'update':
+        return list.map(g => (g.id === mutation.gameId ? applyGameUpdate(g, mutation.updates) : g));
+      case 'delete':
+        return list.filter(g => g.id !== mutation.gameId);
+    }
+  }, games);
+
+// Wraps a server-backed repository so admin edits made offline are kept in a
+// durable outbox and replayed in order once the connection returns
+export const createOfflineQueue = (inner: GameRepository, { requireRole, history }: OfflineQueueOptions): OfflineQueue => {
+  const listeners = new Set<() => void>();
+  let cachedGames: Game[] = readList(KNOWN_GAMES_KEY);
+  let isReplaying = false;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const isOffline = () => inner.getConnectionState() === 'offline' || !navigator.onLine;
+
+  const setOutbox = (outbox: QueuedMutation[]) => {
+    writeList(OUTBOX_KEY, outbox);
+    notify();
+  };
+
+  const addConflict = (conflict: Omit<SyncConflict, 'id' | 'detectedAt'>) => {
+    writeList(CONFLICTS_KEY, [
+      ...readList<SyncConflict>(CONFLICTS_KEY),
+      { ...conflict, id: crypto.randomUUID(), detectedAt: new Date().toISOString() }
+    ]);
+  };
+
+  const knownGames = () => applyOutbox(cachedGames, readList(OUTBOX_KEY));
+
+  const findKnownGame = (id: string) => knownGames().find(g => g.id === id) ?? null;
+
+  const enqueue = (mutation: QueuedMutation) => {
+    const outbox = readList<QueuedMutation>(OUTBOX_KEY);
+    const index = outbox.findIndex(m => m.gameId === mutation.gameId);
+    if (index === -1) {
+      setOutbox([...outbox, mutation]);
+      return;
+    }
+
+    const existing = outbox[index];
+    let merged: QueuedMutation | null = mutation;
+    if (existing.type === 'add' && mutation.type === 'update') {
+      merged = { ...existing, game: { ...existing.game, ...mutation.updates } };
+    } else if (existing.type === 'add' && mutation.type === 'delete') {
+      // The server never saw it, so there is nothing to replay
+      merged = null;
+    } else if (existing.type === 'update' && mutation.type === 'update') {
+      merged = { ...existing, updates: { ...existing.updates, ...mutation.updates } };
+    } else if (existing.type === 'update' && mutation.type === 'delete') {
+      merged = { ...mutation, baseUpdatedAt: existing.baseUpdatedAt };
+    }
+
+    setOutbox(merged
+      ? outbox.map((m, i) => (i === index ? merged : m))
+      : outbox.filter((_, i) => i !== index));
+  };
+
+  // Returns false when the mutation could not be sent and should stay queued
+  const replayMutation = async (mutation: QueuedMutation): Promise<boolean> => {
+    const localGame = mutation.type === 'delete' ? null : findKnownGame(mutation.gameId);
+
+    try {
+      if (mutation.type === 'add') {
+        return (await inner.addGame(mutation.game, REPLAY_OPTIONS)) !== null;
+      }
+
+      const serverGame = await inner.getGame(mutation.gameId);
+      if (!serverGame) {
+        if (mutation.type === 'update') {
+          addConflict({ reason: 'deleted', mutation, localGame, serverGame: null });
+        }
+        return true;
+      }
+      if (!isSameVersion(serverGame.updated_at, mutation.baseUpdatedAt)) {
+        addConflict({ reason: 'changed', mutation, localGame, serverGame });
+        return true;
+      }
+
+      if (mutation.type === 'update') {
+        return (await inner.updateGame(mutation.gameId, mutation.updates, REPLAY_OPTIONS)) !== null;
+      }
+      return inner.deleteGame(mutation.gameId);
+    } catch (error) {
+      // Refused changes would block the queue forever, so they become conflicts
+      if (!isUnauthorizedError(error) && !isValidationError(error)) throw error;
+      const serverGame = mutation.type === 'add' ? null : await inner.getGame(mutation.gameId);
+      addConflict({ reason: 'rejected', mutation, localGame, serverGame, message: error.message });
+      return true;
+    }
+  };
+
+  const queue: OfflineQueue = {
+    rememberGames(games) {
+      const incoming = new Map(games.map(game => [game.id, game]));
+      cachedGames = [...games, ...cachedGames.filter(game => !incoming.has(game.id))];
+      saveKnownGames(cachedGames);
+    },
+
+    repository: {
+      ...inner,
+
+      async getGames() {
+        if (!isOffline()) {
+          cachedGames = await inner.getGames();
+          // An empty list usually means the request failed, so keep the saved copy
+          if (cachedGames.length > 0) saveKnownGames(cachedGames);
+        }
+        return applyOutbox(cachedGames, readList(OUTBOX_KEY));
+      },
+
+      async getGame(id) {
+        return isOffline() ? findKnownGame(id) : inner.getGame(id);
+      },
+
+      async addGame(game, options = {}) {
+        if (!isOffline()) return inner.addGame(game, options);
+
+        await requireRole('editor');
+        // Checked now so bad input isn't queued; the server checks categories on replay
+        const newGame = createGameRecord(prepareNewGame(game));
+        if (!options.allowDuplicates) assertNoDuplicates(findDuplicatesOf(newGame, knownGames()));
+        enqueue({ type: 'add', gameId: newGame.id, game: { ...game, id: newGame.id }, queuedAt: new Date().toISOString() });
+        return newGame;
+      },
+
+      async updateGame(id, updates, options = {}) {
+        if (!isOffline()) return inner.updateGame(id, updates, options);
+
+        await requireRole('editor');
+        const existing = findKnownGame(id);
+        if (!existing) return null;
+
+        const sanitized = prepareGameUpdate(updates);
+        const candidate = duplicateCandidateOf(existing, sanitized);
+        if (candidate && !options.allowDuplicates) assertNoDuplicates(findDuplicatesOf(candidate, knownGames(), id));
+        enqueue({
+          type: 'update',
+          gameId: id,
+          updates: sanitized,
+          baseUpdatedAt: existing.updated_at,
+          queuedAt: new Date().toISOString()
+        });
+        return applyGameUpdate(existing, sanitized);
+      },
+
+      async findDuplicates(candidate, excludeId = null) {
+        return isOffline() ? findDuplicatesOf(candidate, knownGames(), excludeId) : inner.findDuplicates(candidate, excludeId);
+      },
+
+      async deleteGame(id) {
+        if (!isOffline()) return inner.deleteGame(id);
+
+        await requireRole('admin');
+        const existing = findKnownGame(id);
+        if (!existing) return false;
+
+        enqueue({ type: 'delete', gameId: id, baseUpdatedAt: existing.updated_at, queuedAt: new Date().toISOString() });
+        return true;
+      }
+    },
+
+    getPendingCount() {
+      return readList(OUTBOX_KEY).length;
+    },
+
+    getConflicts() {
+      return readList<SyncConflict>(CONFLICTS_KEY);
+    },
+
+    onChange(callback) {
+      listeners.add(callback);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+
+    async replay() {
+      if (isReplaying || isOffline()) return;
+      isReplaying = true;
+      try {
+        // Replay strictly in order and stop at the first failure so later changes don't jump ahead
+        for (const mutation of readList<QueuedMutation>(OUTBOX_KEY)) {
+          if (!(await replayMutation(mutation))) break;
+          setOutbox(readList<QueuedMutation>(OUTBOX_KEY).filter(m => m.gameId !== mutation.gameId));
+        }
+      } catch (error) {
+        console.error('Error replaying offline changes:', error);
+      } finally {
+        isReplaying = false;
+        notify();
+      }
+    },
+
+    async resolveConflict(conflictId, winner) {
+      const conflict = readList<SyncConflict>(CONFLICTS_KEY).find(c => c.id === conflictId);
+      if (!conflict) return;
+
+      // Sending a refused change again would only be refused again
+      if (winner === 'local' && conflict.reason !== 'rejected') {
+        const { mutation, localGame, serverGame } = conflict;
+        let saved = true;
+        if (mutation.type === 'delete') {
+          // False means it is already gone, which is what was wanted
+          await inner.deleteGame(mutation.gameId);
+        } else if (serverGame) {
+          saved = (await inner.updateGame(mutation.gameId, mutation.type === 'add' ? mutation.game : mutation.updates, REPLAY_OPTIONS)) !== null;
+        } else if (localGame) {
+          // A trashed row still holds the id, so bring it back rather than insert it again
+          const trashed = (await history.getTrash()).some(game => game.id === mutation.gameId);
+          if (trashed) {
+            saved = (await history.restoreGame(mutation.gameId)) !== null &&
+              (await inner.updateGame(mutation.gameId, mutation.type === 'add' ? mutation.game : mutation.updates, REPLAY_OPTIONS)) !== null;
+          } else {
+            // Purged for good, so recreate the row under its original id
+            saved = (await inner.addGame(toNewGame(localGame), REPLAY_OPTIONS)) !== null;
+          }
+        }
+        // The conflict stays listed until your version is actually saved
+        if (!saved) throw new GameServiceError('failed', 'Could not save your version. Please try again.');
+      }
+
+      writeList(CONFLICTS_KEY, readList<SyncConflict>(CONFLICTS_KEY).filter(c => c.id !== conflictId));
+      notify();
+    }
+  };
+
+  inner.onConnectionStateChange(state => {
+    if (state === 'connected') queue.replay();
+  });
+  queue.replay();
+
+  return queue;
+};
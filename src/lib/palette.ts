@@ -0,0 +1,8 @@
+// Tailwind background classes games and categories may use.
+// Listed in full so Tailwind keeps them in the build.
+export const GAME_COLORS = [
+  'bg-blue-500', 'bg-red-500', 'bg-green-500', 'bg-yellow-500',
+  'bg-purple-500', 'bg-pink-500', 'bg-indigo-500', 'bg-orange-500'
+];
+
+export const colorLabel = (color: string) => color.replace('bg-', '').replace('-500', '');
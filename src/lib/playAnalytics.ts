@@ -0,0 +1,151 @@
+import { Game, sortNewestFirst } from './gameRepository';
+
+export type SortOrder = 'newest' | 'popular' | 'trending';
+
+export const SORT_ORDERS: { value: SortOrder; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'popular', label: 'Popular' },
+  { value: 'trending', label: 'Trending (last 7 days)' }
+];
+
+export const TRENDING_DAYS = 7;
+
+// Sessions left open in a background tab shouldn't swamp the averages
+export const MAX_SESSION_SECONDS = 4 * 60 * 60;
+
+export interface PlayEvent {
+  game_id: string;
+  started_at: string;
+  duration_seconds: number;
+}
+
+export interface GamePlayStats {
+  game_id: string;
+  plays: number;
+  // Plays in the last TRENDING_DAYS days
+  recent_plays: number;
+  total_seconds: number;
+}
+
+export interface PlayAnalyticsStore {
+  recordPlay(event: PlayEvent): Promise<void>;
+  getStats(): Promise<GamePlayStats[]>;
+}
+
+// Aggregates kept on the client: totals plus per-day play counts for the trending window
+export interface LocalPlayCounts {
+  [gameId: string]: {
+    plays: number;
+    total_seconds: number;
+    daily: Record<string, number>;
+  };
+}
+
+export const createPlayEvent = (gameId: string, startedAt: Date, endedAt = new Date()): PlayEvent => ({
+  game_id: gameId,
+  started_at: startedAt.toISOString(),
+  duration_seconds: Math.min(
+    MAX_SESSION_SECONDS,
+    Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000))
+  )
+});
+
+export const averageSessionSeconds = (stats: GamePlayStats) =>
+  stats.plays > 0 ? stats.total_seconds / stats.plays : 0;
+
+export const formatDuration = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  if (rounded < 60) return `${rounded}s`;
+  const minutes = Math.floor(rounded / 60);
+  if (minutes < 60) return `${minutes}m ${rounded % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export const sortGames = (games: Game[], order: SortOrder, stats: GamePlayStats[]): Game[] => {
+  const newest = sortNewestFirst(games);
+  if (order === 'newest') return newest;
+
+  const byGame = new Map(stats.map(s => [s.game_id, s]));
+  const score = (game: Game) => {
+    const s = byGame.get(game.id);
+    if (!s) return 0;
+    return order === 'popular' ? s.plays : s.recent_plays;
+  };
+  // Array sort is stable, so ties stay newest first
+  return newest.sort((a, b) => score(b) - score(a));
+};
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const trendingDays = (now: Date) =>
+  new Set(
+    Array.from({ length: TRENDING_DAYS }, (_, offset) => dayKey(new Date(now.getTime() - offset * 86400000)))
+  );
+
+export const addPlayToCounts = (counts: LocalPlayCounts, event: PlayEvent, now = new Date()): LocalPlayCounts => {
+  const current = counts[event.game_id] ?? { plays: 0, total_seconds: 0, daily: {} };
+  const day = event.started_at.slice(0, 10);
+  const keep = trendingDays(now);
+
+  // Days that have left the trending window are no longer needed
+  const daily = Object.fromEntries(Object.entries(current.daily).filter(([key]) => keep.has(key)));
+  daily[day] = (daily[day] ?? 0) + 1;
+
+  return {
+    ...counts,
+    [event.game_id]: {
+      plays: current.plays + 1,
+      total_seconds: current.total_seconds + event.duration_seconds,
+      daily
+    }
+  };
+};
+
+// Adds the plays of `fromIds` to `toId` and drops their own counts
+export const mergePlayCounts = (counts: LocalPlayCounts, fromIds: string[], toId: string): LocalPlayCounts => {
+  const merged = [toId, ...fromIds].flatMap(id => (counts[id] ? [counts[id]] : []));
+  if (merged.length === 0) return counts;
+
+  const daily: Record<string, number> = {};
+  merged.forEach(count => Object.entries(count.daily).forEach(([day, plays]) => {
+    daily[day] = (daily[day] ?? 0) + plays;
+  }));
+  const rest = Object.fromEntries(Object.entries(counts).filter(([id]) => id !== toId && !fromIds.includes(id)));
+  return {
+    ...rest,
+    [toId]: {
+      plays: merged.reduce((sum, count) => sum + count.plays, 0),
+      total_seconds: merged.reduce((sum, count) => sum + count.total_seconds, 0),
+      daily
+    }
+  };
+};
+
+export const statsFromCounts = (counts: LocalPlayCounts, now = new Date()): GamePlayStats[] => {
+  const recentDays = trendingDays(now);
+  return Object.entries(counts).map(([gameId, count]) => ({
+    game_id: gameId,
+    plays: count.plays,
+    recent_plays: Object.entries(count.daily)
+      .filter(([day]) => recentDays.has(day))
+      .reduce((sum, [, plays]) => sum + plays, 0),
+    total_seconds: count.total_seconds
+  }));
+};
+
+// Play counts for backends without a server; `read`/`write` decide where they live
+export const createClientPlayAnalytics = ({
+  read,
+  write
+}: {
+  read: () => LocalPlayCounts;
+  write: (counts: LocalPlayCounts) => void;
+}): PlayAnalyticsStore => ({
+  async recordPlay(event) {
+    write(addPlayToCounts(read(), event));
+  },
+
+  async getStats() {
+    return statsFromCounts(read());
+  }
+});
@@ -0,0 +1,112 @@
+// A player's favorites and recently played games, kept in localStorage and
+// synced to their account once they sign in
+
+export const MAX_RECENT_GAMES = 12;
+
+// Lists made while signed out; a signed-in account's lists are kept under their own key
+const STORAGE_KEY = 'playerLists';
+
+export type PlayerListKind = 'favorite' | 'recent';
+
+export interface PlayerListEntry {
+  gameId: string;
+  // When the game was favorited or last played
+  at: string;
+}
+
+export interface PlayerLists {
+  favorites: PlayerListEntry[];
+  recent: PlayerListEntry[];
+}
+
+// Per-user storage on the server
+export interface PlayerListRemote {
+  load(userId: string): Promise<PlayerLists>;
+  put(userId: string, kind: PlayerListKind, entries: PlayerListEntry[]): Promise<void>;
+  remove(userId: string, kind: PlayerListKind, gameIds: string[]): Promise<void>;
+}
+
+export const emptyPlayerLists: PlayerLists = { favorites: [], recent: [] };
+
+const newestFirst = (entries: PlayerListEntry[]) => [...entries].sort((a, b) => b.at.localeCompare(a.at));
+
+const storageKey = (userId: string | null) => (userId ? `${STORAGE_KEY}:${userId}` : STORAGE_KEY);
+
+// `userId` null reads the signed-out lists
+export const loadLocalPlayerLists = (userId: string | null = null): PlayerLists => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? { ...emptyPlayerLists, ...JSON.parse(stored) } : emptyPlayerLists;
+  } catch {
+    return emptyPlayerLists;
+  }
+};
+
+export const saveLocalPlayerLists = (lists: PlayerLists, userId: string | null = null) => {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(lists));
+  } catch (error) {
+    console.warn('Could not save player lists:', error);
+  }
+};
+
+export const clearLocalPlayerLists = (userId: string | null = null) => {
+  localStorage.removeItem(storageKey(userId));
+};
+
+export const toggleFavorite = (lists: PlayerLists, gameId: string): PlayerLists => {
+  const isFavorite = lists.favorites.some(entry => entry.gameId === gameId);
+  return {
+    ...lists,
+    favorites: isFavorite
+      ? lists.favorites.filter(entry => entry.gameId !== gameId)
+      : [{ gameId, at: new Date().toISOString() }, ...lists.favorites]
+  };
+};
+
+export const recordPlay = (lists: PlayerLists, gameId: string): PlayerLists => ({
+  ...lists,
+  recent: [
+    { gameId, at: new Date().toISOString() },
+    ...lists.recent.filter(entry => entry.gameId !== gameId)
+  ].slice(0, MAX_RECENT_GAMES)
+});
+
+// Union of both lists; when a game is in both, the newer timestamp wins
+const mergeEntries = (a: PlayerListEntry[], b: PlayerListEntry[]) => {
+  const byGame = new Map<string, PlayerListEntry>();
+  [...a, ...b].forEach(entry => {
+    const existing = byGame.get(entry.gameId);
+    if (!existing || entry.at > existing.at) byGame.set(entry.gameId, entry);
+  });
+  return newestFirst(Array.from(byGame.values()));
+};
+
+export const mergePlayerLists = (local: PlayerLists, remote: PlayerLists): PlayerLists => ({
+  favorites: mergeEntries(local.favorites, remote.favorites),
+  recent: mergeEntries(local.recent, remote.recent).slice(0, MAX_RECENT_GAMES)
+});
+
+// Points entries for merged games at the game they were merged into; the same
+// object comes back when nothing pointed at a merged game
+export const remapPlayerLists = (lists: PlayerLists, mergedIds: Record<string, string>): PlayerLists => {
+  const touched = (entries: PlayerListEntry[]) => entries.some(entry => mergedIds[entry.gameId]);
+  if (!touched(lists.favorites) && !touched(lists.recent)) return lists;
+
+  const remap = (entries: PlayerListEntry[]) =>
+    mergeEntries(entries.map(entry => ({ ...entry, gameId: mergedIds[entry.gameId] ?? entry.gameId })), []);
+  return {
+    favorites: remap(lists.favorites),
+    recent: remap(lists.recent).slice(0, MAX_RECENT_GAMES)
+  };
+};
+
+// Entries in `next` that are new or newer than in `previous`, and game ids that were dropped
+export const diffEntries = (previous: PlayerListEntry[], next: PlayerListEntry[]) => {
+  const previousAt = new Map(previous.map(entry => [entry.gameId, entry.at]));
+  const nextIds = new Set(next.map(entry => entry.gameId));
+  return {
+    upserts: next.filter(entry => previousAt.get(entry.gameId) !== entry.at),
+    removals: previous.filter(entry => !nextIds.has(entry.gameId)).map(entry => entry.gameId)
+  };
+};
@@ -0,0 +1,59 @@
+// Frame shapes for the game player, remembered per game in this browser
+
+export type PlayerPreset = 'fill' | '16:9' | '4:3' | '1:1' | '9:16' | '800x600' | '1280x720';
+
+interface PresetShape {
+  label: string;
+  // Fixed pixel size, or just a ratio that is scaled to fit
+  width: number;
+  height: number;
+  fixed?: boolean;
+}
+
+const PRESET_SHAPES: Record<Exclude<PlayerPreset, 'fill'>, PresetShape> = {
+  '16:9': { label: 'Widescreen 16:9', width: 16, height: 9 },
+  '4:3': { label: 'Classic 4:3', width: 4, height: 3 },
+  '1:1': { label: 'Square 1:1', width: 1, height: 1 },
+  '9:16': { label: 'Portrait 9:16', width: 9, height: 16 },
+  '800x600': { label: '800 × 600', width: 800, height: 600, fixed: true },
+  '1280x720': { label: '1280 × 720', width: 1280, height: 720, fixed: true }
+};
+
+export const PLAYER_PRESETS: { value: PlayerPreset; label: string }[] = [
+  { value: 'fill', label: 'Fill window' },
+  ...Object.entries(PRESET_SHAPES).map(([value, shape]) => ({ value: value as PlayerPreset, label: shape.label }))
+];
+
+const PRESETS_KEY = 'gamePlayerPresets';
+
+const readPresets = (): Record<string, PlayerPreset> => {
+  const stored = localStorage.getItem(PRESETS_KEY);
+  return stored ? JSON.parse(stored) : {};
+};
+
+export const loadPlayerPreset = (gameId: string): PlayerPreset => {
+  const stored = readPresets()[gameId];
+  return PLAYER_PRESETS.some(preset => preset.value === stored) ? stored : 'fill';
+};
+
+export const savePlayerPreset = (gameId: string, preset: PlayerPreset) => {
+  const presets = readPresets();
+  if (preset === 'fill') {
+    delete presets[gameId];
+  } else {
+    presets[gameId] = preset;
+  }
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+// The frame's size inside the available area, or null to fill it.
+// Fixed sizes shrink (keeping their shape) when the area is smaller.
+export const fitFrame = (preset: PlayerPreset, area: { width: number; height: number }) => {
+  if (preset === 'fill' || area.width === 0 || area.height === 0) return null;
+
+  const shape = PRESET_SHAPES[preset];
+  const maxWidth = shape.fixed ? Math.min(shape.width, area.width) : area.width;
+  const maxHeight = shape.fixed ? Math.min(shape.height, area.height) : area.height;
+  const scale = Math.min(maxWidth / shape.width, maxHeight / shape.height);
+  return { width: Math.floor(shape.width * scale), height: Math.floor(shape.height * scale) };
+};
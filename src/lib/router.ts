@@ -0,0 +1,91 @@
+// Minimal History API router for the hub's few routes:
+//   /                 all games
+//   /category/:name   games in one category
+//   /tag/:name        games with one tag
+//   /game/:id         the detail page for one game
+//   /play/:id         the player overlay for one game
+// Any route may carry a search as ?q=
+
+export type Route =
+  | { view: 'home' }
+  | { view: 'category'; category: string }
+  | { view: 'tag'; tag: string }
+  | { view: 'game'; gameId: string }
+  | { view: 'play'; gameId: string };
+
+export interface AppLocation {
+  route: Route;
+  query: string;
+}
+
+// Marks history entries we pushed, so closing the player or a detail page can go back instead of away
+interface HistoryState {
+  inApp: true;
+}
+
+const listeners = new Set<(location: AppLocation) => void>();
+
+export const parseLocation = (pathname: string, search: string): AppLocation => {
+  const query = new URLSearchParams(search).get('q') ?? '';
+  const [, section, param] = pathname.split('/');
+
+  if (section === 'play' && param) {
+    return { route: { view: 'play', gameId: decodeURIComponent(param) }, query };
+  }
+  if (section === 'game' && param) {
+    return { route: { view: 'game', gameId: decodeURIComponent(param) }, query };
+  }
+  if (section === 'category' && param) {
+    return { route: { view: 'category', category: decodeURIComponent(param) }, query };
+  }
+  if (section === 'tag' && param) {
+    return { route: { view: 'tag', tag: decodeURIComponent(param) }, query };
+  }
+  return { route: { view: 'home' }, query };
+};
+
+export const buildPath = ({ route, query }: AppLocation): string => {
+  let path = '/';
+  if (route.view === 'play') {
+    path = `/play/${encodeURIComponent(route.gameId)}`;
+  } else if (route.view === 'game') {
+    path = `/game/${encodeURIComponent(route.gameId)}`;
+  } else if (route.view === 'category') {
+    path = `/category/${encodeURIComponent(route.category)}`;
+  } else if (route.view === 'tag') {
+    path = `/tag/${encodeURIComponent(route.tag)}`;
+  }
+  return query ? `${path}?${new URLSearchParams({ q: query })}` : path;
+};
+
+export const getCurrentLocation = () => parseLocation(window.location.pathname, window.location.search);
+
+const notify = () => {
+  const location = getCurrentLocation();
+  listeners.forEach(listener => listener(location));
+};
+
+window.addEventListener('popstate', notify);
+
+export const navigate = (location: AppLocation, { replace = false } = {}) => {
+  const path = buildPath(location);
+  if (path === window.location.pathname + window.location.search) return;
+
+  if (replace) {
+    window.history.replaceState(window.history.state, '', path);
+  } else {
+    const state: HistoryState = { inApp: true };
+    window.history.pushState(state, '', path);
+  }
+  notify();
+};
+
+// True when the current entry was pushed by us, so going back stays in the hub
+export const canGoBack = () => (window.history.state as HistoryState | null)?.inApp === true;
+
+export const onLocationChange = (callback: (location: AppLocation) => void) => {
+  listeners.add(callback);
+  return () => {
+    listeners.delete(callback);
+  };
+};
@@ -0,0 +1,147 @@
+import { Game } from './gameRepository';
+
+export interface SearchResult {
+  game: Game;
+  score: number;
+  // Words in the game's text that matched, for highlighting
+  terms: string[];
+}
+
+// How much a match in each field counts towards the score
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  category: 2,
+  description: 1
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+export const tokenize = (text: string) => text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+export const parseTags = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(',') : [];
+  return Array.from(new Set(raw.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+};
+
+const fieldText = (game: Game, field: SearchField) =>
+  field === 'tags' ? (game.tags ?? []).join(' ') : game[field];
+
+// Edit distance counting a swap of neighbouring letters as one typo,
+// giving up early once it exceeds `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words must match exactly; longer ones tolerate one or two typos
+const allowedTypos = (term: string) => (term.length >= 7 ? 2 : term.length >= 4 ? 1 : 0);
+
+// 1 for an exact word, less for prefixes, substrings and typos, 0 for no match
+const matchWord = (term: string, word: string) => {
+  if (word === term) return 1;
+  if (word.startsWith(term)) return 0.8;
+  if (term.length >= 3 && word.includes(term)) return 0.5;
+  const typos = allowedTypos(term);
+  if (typos > 0 && editDistance(term, word, typos) <= typos) return 0.4;
+  return 0;
+};
+
+interface IndexedGame {
+  game: Game;
+  words: Record<SearchField, string[]>;
+}
+
+const indexGame = (game: Game): IndexedGame => ({
+  game,
+  words: {
+    title: tokenize(fieldText(game, 'title')),
+    tags: tokenize(fieldText(game, 'tags')),
+    category: tokenize(fieldText(game, 'category')),
+    description: tokenize(fieldText(game, 'description'))
+  }
+});
+
+// Every query term has to match somewhere; the score adds up each term's best weighted match
+const scoreGame = ({ game, words }: IndexedGame, terms: string[]): SearchResult | null => {
+  let score = 0;
+  const matched = new Set<string>();
+
+  for (const term of terms) {
+    let best = 0;
+    (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+      words[field].forEach(word => {
+        const match = matchWord(term, word);
+        if (match > 0) matched.add(word);
+        best = Math.max(best, match * FIELD_WEIGHTS[field]);
+      });
+    });
+    if (best === 0) return null;
+    score += best;
+  }
+
+  return { game, score, terms: Array.from(matched) };
+};
+
+// Client-side fuzzy ranking, used by local backends and when the server can't be reached
+export const rankGames = (query: string, games: Game[]): SearchResult[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  return games
+    .map(game => scoreGame(indexGame(game), terms))
+    .filter((result): result is SearchResult => result !== null)
+    .sort((a, b) => b.score - a.score);
+};
+
+// The words of `game` that a query matches, for highlighting results the server ranked
+export const matchedTerms = (query: string, game: Game) =>
+  rankGames(query, [game])[0]?.terms ?? [];
+
+// "Did you mean": swaps each unmatched query word for the closest word in the catalog
+export const suggestQuery = (query: string, games: Game[]): string | null => {
+  const vocabulary = new Set<string>();
+  games.forEach(game => {
+    const { words } = indexGame(game);
+    Object.values(words).forEach(list => list.forEach(word => vocabulary.add(word)));
+  });
+
+  let changed = false;
+  const suggestion = tokenize(query).map(term => {
+    if (vocabulary.has(term)) return term;
+
+    let best: string | null = null;
+    let bestDistance = allowedTypos(term) + 2;
+    for (const word of vocabulary) {
+      const distance = editDistance(term, word, bestDistance);
+      if (distance < bestDistance) {
+        best = word;
+        bestDistance = distance;
+      }
+    }
+    if (best && best !== term) changed = true;
+    return best ?? term;
+  });
+
+  return changed ? suggestion.join(' ') : null;
+};
@@ -0,0 +1,146 @@
+import { AdminRole } from './auth';
+import { normalizeUrl } from './catalogTransfer';
+import { GameServiceError } from './errors';
+import { Game, GameRepository } from './gameRepository';
+import { GAME_LIMITS } from './gameValidation';
+import { parseTags } from './search';
+
+export type SubmissionStatus = 'pending' | 'approved' | 'rejected';
+
+// A game suggested by a player, waiting for an editor to review it
+export interface GameSubmission {
+  id: string;
+  title: string;
+  description: string;
+  // The player's pick, which editors may change before approving
+  category: string | null;
+  url: string;
+  tags: string[] | null;
+  submitter_name: string | null;
+  status: SubmissionStatus;
+  rejection_reason: string | null;
+  // An existing game with the same URL, flagged when the suggestion arrives
+  duplicate_of: string | null;
+  // The game created on approval
+  game_id: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export type SubmissionInput = Pick<GameSubmission, 'title' | 'description' | 'category' | 'url' | 'tags' | 'submitter_name'>;
+
+// Anyone can submit; reviewing needs the editor role
+export interface SubmissionStore {
+  // Players can't read suggestions back, so this only says whether it was saved.
+  // Throws GameServiceError('rate_limited') after too many suggestions.
+  submit(input: SubmissionInput): Promise<boolean>;
+  // Newest first
+  getSubmissions(status: SubmissionStatus): Promise<GameSubmission[]>;
+  approve(id: string, gameId: string): Promise<boolean>;
+  reject(id: string, reason: string): Promise<boolean>;
+}
+
+// Per browser in the client store, per account or IP in Supabase
+export const SUBMISSION_LIMIT = 5;
+export const SUBMISSION_WINDOW_MINUTES = 60;
+
+export const MAX_SUBMISSION_TITLE = GAME_LIMITS.title;
+export const MAX_SUBMISSION_DESCRIPTION = GAME_LIMITS.description;
+
+export const rateLimitedError = () =>
+  new GameServiceError(
+    'rate_limited',
+    `You can suggest up to ${SUBMISSION_LIMIT} games an hour. Please try again later.`
+  );
+
+// Players may only suggest plain links; embed code is for editors
+export const validateSubmission = (input: SubmissionInput): string[] => {
+  const errors: string[] = [];
+  if (!input.title.trim()) errors.push('Enter the game\'s name.');
+  if (input.title.length > MAX_SUBMISSION_TITLE) errors.push(`Keep the name under ${MAX_SUBMISSION_TITLE} characters.`);
+  if (input.description.length > MAX_SUBMISSION_DESCRIPTION) {
+    errors.push(`Keep the description under ${MAX_SUBMISSION_DESCRIPTION} characters.`);
+  }
+  if (!/^https?:\/\/\S+$/i.test(input.url.trim())) errors.push('Enter a link starting with http:// or https://.');
+  return errors;
+};
+
+export const findDuplicateGame = (url: string, games: Game[]) =>
+  games.find(game => normalizeUrl(game.url) === normalizeUrl(url)) ?? null;
+
+const cleanInput = (input: SubmissionInput): SubmissionInput => ({
+  title: input.title.trim(),
+  description: input.description.trim(),
+  category: input.category || null,
+  url: input.url.trim(),
+  tags: parseTags(input.tags),
+  submitter_name: input.submitter_name?.trim() || null
+});
+
+export const prepareSubmission = (input: SubmissionInput): SubmissionInput => {
+  const errors = validateSubmission(input);
+  if (errors.length > 0) throw new Error(errors.join(' '));
+  return cleanInput(input);
+};
+
+interface ClientSubmissionStoreOptions {
+  read: () => GameSubmission[];
+  write: (submissions: GameSubmission[]) => void;
+  // Checked for duplicate URLs
+  repository: GameRepository;
+  requireRole: (required: AdminRole) => void;
+}
+
+// Submission store for the localStorage and in-memory backends
+export const createClientSubmissionStore = ({
+  read,
+  write,
+  repository,
+  requireRole
+}: ClientSubmissionStoreOptions): SubmissionStore => {
+  const review = (id: string, changes: Partial<GameSubmission>) => {
+    const submissions = read();
+    if (!submissions.some(s => s.id === id && s.status === 'pending')) return false;
+    write(submissions.map(s => (s.id === id ? { ...s, ...changes, reviewed_at: new Date().toISOString() } : s)));
+    return true;
+  };
+
+  return {
+    async submit(input) {
+      const cleaned = prepareSubmission(input);
+      const windowStart = Date.now() - SUBMISSION_WINDOW_MINUTES * 60 * 1000;
+      const submissions = read();
+      if (submissions.filter(s => Date.parse(s.created_at) > windowStart).length >= SUBMISSION_LIMIT) {
+        throw rateLimitedError();
+      }
+
+      const submission: GameSubmission = {
+        ...cleaned,
+        id: crypto.randomUUID(),
+        status: 'pending',
+        rejection_reason: null,
+        duplicate_of: findDuplicateGame(cleaned.url, await repository.getGames())?.id ?? null,
+        game_id: null,
+        created_at: new Date().toISOString(),
+        reviewed_at: null
+      };
+      write([submission, ...submissions]);
+      return true;
+    },
+
+    async getSubmissions(status) {
+      requireRole('editor');
+      return read().filter(s => s.status === status);
+    },
+
+    async approve(id, gameId) {
+      requireRole('editor');
+      return review(id, { status: 'approved', game_id: gameId });
+    },
+
+    async reject(id, reason) {
+      requireRole('editor');
+      return review(id, { status: 'rejected', rejection_reason: reason.trim() || null });
+    }
+  };
+};
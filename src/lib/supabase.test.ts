@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AdminRole } from './auth';
+import { GameServiceError } from './errors';
+import { GameRepository } from './gameRepository';
+import { PlayEvent } from './playAnalytics';
+import { describeGameRepositoryContract, sampleGame } from '../test/gameRepositoryContract';
+
+type Row = Record<string, unknown>;
+
+interface FakeError {
+  code: string;
+  message: string;
+}
+
+// Just enough of the Supabase client for gameService: tables in memory, one
+// signed-in user whose role is read from admin_users, and errors on demand
+const fake = vi.hoisted(() => ({
+  tables: {} as Record<string, Row[]>,
+  userId: null as string | null,
+  // Returned by the next insert or update instead of writing
+  nextWriteError: null as FakeError | null,
+  // Refuses inserts containing a matching row, like a constraint would
+  rejectRow: null as ((table: string, row: Row) => FakeError | null) | null
+}));
+
+class FakeQuery implements PromiseLike<{ data: unknown; error: FakeError | null }> {
+  private action: 'select' | 'insert' | 'update' = 'select';
+  private values: Row | Row[] = [];
+  private filters: ((row: Row) => boolean)[] = [];
+  private sortColumn: string | null = null;
+  private ascending = true;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private table: string) {}
+
+  select() {
+    return this;
+  }
+
+  insert(rows: Row[]) {
+    this.action = 'insert';
+    this.values = rows;
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.values = values;
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: unknown) {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  order(column: string, { ascending = true } = {}) {
+    this.sortColumn = column;
+    this.ascending = ascending;
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<T1, T2>(
+    onFulfilled?: ((value: { data: unknown; error: FakeError | null }) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ) {
+    return Promise.resolve(this.run()).then(onFulfilled, onRejected);
+  }
+
+  private run(): { data: unknown; error: FakeError | null } {
+    const rows = (fake.tables[this.table] ??= []);
+
+    if (this.action !== 'select' && fake.nextWriteError) {
+      const error = fake.nextWriteError;
+      fake.nextWriteError = null;
+      return { data: null, error };
+    }
+
+    let result: Row[];
+    if (this.action === 'insert') {
+      const rejection = (this.values as Row[]).map(row => fake.rejectRow?.(this.table, row)).find(Boolean);
+      if (rejection) return { data: null, error: rejection };
+
+      const now = new Date().toISOString();
+      result = (this.values as Row[]).map(row => ({
+        id: crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+        deleted_at: null,
+        ...row
+      }));
+      if (result.some(row => rows.some(existing => existing.id === row.id))) {
+        return { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint "games_pkey"' } };
+      }
+      rows.push(...result);
+    } else {
+      result = rows.filter(row => this.filters.every(filter => filter(row)));
+      if (this.action === 'update') {
+        result.forEach(row => Object.assign(row, this.values));
+      }
+    }
+
+    if (this.sortColumn) {
+      const column = this.sortColumn;
+      const direction = this.ascending ? 1 : -1;
+      result = [...result].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * direction);
+    }
+
+    const copies = result.map(row => ({ ...row }));
+    if (this.mode === 'many') return { data: copies, error: null };
+    if (this.mode === 'single' && copies.length !== 1) {
+      return { data: null, error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' } };
+    }
+    return { data: copies[0] ?? null, error: null };
+  }
+}
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: (table: string) => new FakeQuery(table),
+    // Every live game is a candidate; gameService narrows them down itself
+    rpc: async (name: string, args: { exclude_id: string | null }) => ({
+      data: name === 'find_duplicate_games'
+        ? (fake.tables.games ?? []).filter(row => row.deleted_at === null && row.id !== args.exclude_id)
+        : null,
+      error: null
+    }),
+    auth: {
+      getSession: async () => ({
+        data: { session: fake.userId ? { user: { id: fake.userId, email: 'admin@example.com' } } : null }
+      })
+    }
+  })
+}));
+
+const signInAs = async (role: AdminRole | null) => {
+  fake.userId = role ? 'user-1' : null;
+  fake.tables.admin_users = role ? [{ user_id: 'user-1', role }] : [];
+};
+
+const loadGameService = async () => {
+  vi.stubEnv('VITE_SUPABASE_URL', 'https://project.supabase.co');
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon-key');
+  return (await import('./supabase')).gameService;
+};
+
+const resetTables = () => {
+  fake.tables = {};
+  fake.nextWriteError = null;
+  fake.rejectRow = null;
+};
+
+describeGameRepositoryContract('supabase', async () => {
+  resetTables();
+  return { repository: await loadGameService(), signInAs };
+});
+
+describe('supabase gameService errors', () => {
+  let repository: GameRepository;
+
+  beforeEach(async () => {
+    resetTables();
+    repository = await loadGameService();
+    await signInAs('admin');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  const failure = (promise: Promise<unknown>) =>
+    promise.then(() => null, (error: unknown) => error as GameServiceError);
+
+  it('maps a check constraint to the field it guards', async () => {
+    fake.nextWriteError = { code: '23514', message: 'new row violates check constraint "games_color_check"' };
+    const error = await failure(repository.addGame(sampleGame()));
+
+    expect(error?.code).toBe('invalid');
+    expect(error?.fieldErrors.color).toBeTruthy();
+  });
+
+  it('reports row level security refusals as unauthorized', async () => {
+    const game = await repository.addGame(sampleGame());
+    fake.nextWriteError = { code: '42501', message: 'new row violates row-level security policy' };
+
+    expect((await failure(repository.updateGame(game!.id, { title: 'Other' })))?.code).toBe('unauthorized');
+  });
+
+  it('reports any other failed write as failed', async () => {
+    const game = await repository.addGame(sampleGame());
+    fake.nextWriteError = { code: '08006', message: 'connection failure' };
+
+    expect((await failure(repository.deleteGame(game!.id)))?.code).toBe('failed');
+  });
+});
+
+describe('supabase playAnalyticsService', () => {
+  let recordPlay: (event: PlayEvent) => Promise<void>;
+  const play = (gameId: string): PlayEvent => ({ game_id: gameId, started_at: new Date().toISOString(), duration_seconds: 30 });
+  const pending = () => JSON.parse(localStorage.getItem('pendingPlayEvents') ?? '[]') as PlayEvent[];
+
+  beforeEach(async () => {
+    resetTables();
+    localStorage.clear();
+    await loadGameService();
+    const { playAnalyticsService } = await import('./supabase');
+    recordPlay = event => playAnalyticsService.recordPlay(event);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('keeps plays for later when the request fails', async () => {
+    fake.nextWriteError = { code: '', message: 'TypeError: Failed to fetch' };
+    await recordPlay(play('game-1'));
+
+    expect(pending().map(event => event.game_id)).toEqual(['game-1']);
+  });
+
+  it('drops a play the server refuses and records the rest', async () => {
+    localStorage.setItem('pendingPlayEvents', JSON.stringify([play('purged'), play('game-1')]));
+    fake.rejectRow = (_table, row) =>
+      row.game_id === 'purged' ? { code: '23503', message: 'violates foreign key constraint "play_events_game_id_fkey"' } : null;
+
+    await recordPlay(play('game-2'));
+
+    expect(fake.tables.play_events.map(row => row.game_id)).toEqual(['game-1', 'game-2']);
+    expect(pending()).toEqual([]);
+  });
+
+  it('keeps only the newest plays while offline', async () => {
+    localStorage.setItem('pendingPlayEvents', JSON.stringify(Array.from({ length: 150 }, (_, i) => play(`game-${i}`))));
+    fake.nextWriteError = { code: '', message: 'TypeError: Failed to fetch' };
+
+    await recordPlay(play('latest'));
+
+    expect(pending()).toHaveLength(100);
+    expect(pending().at(-1)?.game_id).toBe('latest');
+  });
+});
@@ -1,4 +1,21 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, PostgrestError, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { AdminRole, AdminSession, AuthService, PlayerAccountService, assertRole } from './auth';
+import { GameServiceError } from './errors';
+import { ConnectionState, Game, GameRepository } from './gameRepository';
+import { CategoryStore, slugify } from './categories';
+import { COVER_WIDTH, CoverImageStore, THUMBNAIL_WIDTH, resizeImage } from './images';
+import { PlayerListKind, PlayerListRemote, emptyPlayerLists } from './playerLists';
+import { GamePlayStats, PlayAnalyticsStore, PlayEvent } from './playAnalytics';
+import { GameCatalog } from './gameCatalog';
+import { LinkChecker } from './linkChecker';
+import { LinkCheckResult } from './linkHealth';
+import { GameHistory, revisionSnapshot, snapshotUpdate } from './gameHistory';
+import { SubmissionStore, prepareSubmission, rateLimitedError } from './submissions';
+import { Collection, CollectionStore } from './collections';
+import { GameField, invalidGameError, prepareGameUpdate, prepareNewGame } from './gameValidation';
+import { LEADERBOARD_SIZE, LeaderboardStore, prepareScore, rateLimitedScoreError } from './leaderboards';
+import { GameBundleStore, hostedBundleUrl, uploadBundleFiles } from './gameBundles';
+import { GameMergeStore, assertNoDuplicates, duplicateCandidateOf, findDuplicatesOf } from './duplicates';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -9,24 +26,150 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
-export interface Game {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  color: string;
-  url: string;
-  created_at: string;
-  updated_at: string;
-}
+// Row-level security violations come back as Postgres error 42501
+const isPermissionError = (error: PostgrestError) => error.code === '42501';
+
+const unauthorizedError = () =>
+  new GameServiceError('unauthorized', 'Your account is not allowed to change games.');
+
+// Constraints from the migrations, mapped back to the form field they guard
+const CONSTRAINT_ERRORS: [string, GameField, string][] = [
+  ['games_title_check', 'title', 'Enter a title under 100 characters.'],
+  ['games_description_check', 'description', 'Keep the description under 1000 characters.'],
+  ['games_color_check', 'color', 'Pick one of the listed colors.'],
+  ['games_url_check', 'url', 'The link, embed code or upload does not match the chosen source.'],
+  ['games_source_kind_check', 'source_kind', 'Pick where the game comes from.'],
+  ['games_status_check', 'status', 'Pick draft, published or hidden.'],
+  ['games_how_to_play_check', 'how_to_play', 'Keep how to play under 2000 characters.'],
+  ['games_players_check', 'max_players', 'Player counts are whole numbers from 1 to 100, fewest first.'],
+  ['games_input_types_check', 'input_types', 'Pick keyboard, mouse or touch.'],
+  ['games_developer_check', 'developer', 'Keep the developer under 100 characters, with an http(s) link.'],
+  ['games_category_fkey', 'category', 'That category no longer exists.']
+];
+
+// Turns a failed game write into a typed error; `action` completes "Could not ..."
+const gameWriteError = (error: PostgrestError, action: string) => {
+  if (isPermissionError(error)) return unauthorizedError();
+
+  const constraint = CONSTRAINT_ERRORS.find(([name]) => error.message.includes(name));
+  if (constraint) {
+    const [, field, message] = constraint;
+    return invalidGameError({ [field]: message });
+  }
+
+  console.error(`Could not ${action}:`, error);
+  return new GameServiceError('failed', `Could not ${action}. Please try again.`);
+};
+
+// Supabase Auth sign-in, with the role looked up in `admin_users`
+export const authService: AuthService = {
+  mode: 'supabase',
+
+  async getSession() {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return null;
+
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select('role')
+      .eq('user_id', session.user.id)
+      .maybeSingle();
+
+    // Offline admins keep the last role we saw; RLS still checks it when changes replay
+    const roleCacheKey = `adminRole:${session.user.id}`;
+    let role: AdminRole | null;
+    if (error) {
+      console.error('Error fetching admin role:', error);
+      role = localStorage.getItem(roleCacheKey) as AdminRole | null;
+    } else {
+      role = data ? (data.role as AdminRole) : null;
+      if (role) {
+        localStorage.setItem(roleCacheKey, role);
+      } else {
+        localStorage.removeItem(roleCacheKey);
+      }
+    }
+    if (!role) return null;
+
+    return { role, identity: session.user.email ?? session.user.id };
+  },
+
+  async signIn({ email, password }) {
+    const { error } = await supabase.auth.signInWithPassword({ email: email ?? '', password });
+    if (error) {
+      throw new GameServiceError('unauthorized', error.message);
+    }
+
+    const session = await this.getSession();
+    if (!session) {
+      await supabase.auth.signOut();
+      throw new GameServiceError('unauthorized', 'This account does not have admin access.');
+    }
+    return session;
+  },
+
+  async signOut() {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Error signing out:', error);
+    }
+  },
+
+  onSessionChange(callback) {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(() => {
+      // Defer the role lookup so it doesn't run inside the auth callback
+      setTimeout(async () => {
+        callback(await this.getSession());
+      }, 0);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }
+};
+
+export const requireRole = async (required: AdminRole): Promise<AdminSession> => {
+  const session = await authService.getSession();
+  assertRole(session, required);
+  return session as AdminSession;
+};
+
+// Tracks browser connectivity and the realtime channel status
+let connectionState: ConnectionState = navigator.onLine ? 'connected' : 'offline';
+const connectionListeners = new Set<(state: ConnectionState) => void>();
+
+const setConnectionState = (state: ConnectionState) => {
+  if (state === connectionState) return;
+  connectionState = state;
+  connectionListeners.forEach(listener => listener(state));
+};
+
+window.addEventListener('online', () => setConnectionState('connected'));
+window.addEventListener('offline', () => setConnectionState('offline'));
 
 // Game management functions
-export const gameService = {
-  // Get all games
-  async getGames(): Promise<Game[]> {
+export const gameService: GameRepository = {
+  kind: 'supabase',
+  capabilities: { shared: true, persistent: true, liveUpdates: 'realtime' },
+
+  getConnectionState() {
+    return connectionState;
+  },
+
+  onConnectionStateChange(callback) {
+    connectionListeners.add(callback);
+    return () => {
+      connectionListeners.delete(callback);
+    };
+  },
+
+  // Get all games, leaving out the trash
+  async getGames() {
     const { data, error } = await supabase
       .from('games')
       .select('*')
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
     
     if (error) {
@@ -37,70 +180,907 @@ export const gameService = {
     return data || [];
   },
 
+  // Get a single game
+  async getGame(id) {
+    const { data, error } = await supabase
+      .from('games')
+      .select('*')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching game:', error);
+      return null;
+    }
+
+    return data;
+  },
+
   // Add a new game
-  async addGame(game: Omit<Game, 'id' | 'created_at' | 'updated_at'>): Promise<Game | null> {
+  async addGame(game, options = {}) {
+    await requireRole('editor');
+
+    const prepared = prepareNewGame(game);
+    if (!options.allowDuplicates) assertNoDuplicates(await gameService.findDuplicates(prepared));
+
     const { data, error } = await supabase
       .from('games')
-      .insert([game])
+      .insert([prepared])
       .select()
       .single();
     
-    if (error) {
-      console.error('Error adding game:', error);
-      return null;
-    }
+    if (error) throw gameWriteError(error, 'add the game');
     
     return data;
   },
 
   // Update a game
-  async updateGame(id: string, updates: Partial<Omit<Game, 'id' | 'created_at' | 'updated_at'>>): Promise<Game | null> {
+  async updateGame(id, updates, options = {}) {
+    await requireRole('editor');
+
+    const prepared = prepareGameUpdate(updates);
+    if (!options.allowDuplicates && (prepared.title !== undefined || prepared.url !== undefined)) {
+      const existing = await gameService.getGame(id);
+      const candidate = existing && duplicateCandidateOf(existing, prepared);
+      if (candidate) assertNoDuplicates(await gameService.findDuplicates(candidate, id));
+    }
+
     const { data, error } = await supabase
       .from('games')
-      .update({ ...updates, updated_at: new Date().toISOString() })
+      .update({ ...prepared, updated_at: new Date().toISOString() })
       .eq('id', id)
       .select()
-      .single();
+      .maybeSingle();
     
-    if (error) {
-      console.error('Error updating game:', error);
-      return null;
-    }
+    if (error) throw gameWriteError(error, 'update the game');
     
     return data;
   },
 
-  // Delete a game
-  async deleteGame(id: string): Promise<boolean> {
-    const { error } = await supabase
+  // Move a game to the trash; gameHistoryService restores or purges it
+  async deleteGame(id) {
+    await requireRole('admin');
+
+    const { data, error } = await supabase
       .from('games')
-      .delete()
-      .eq('id', id);
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select('id');
+    
+    if (error) throw gameWriteError(error, 'move the game to the trash');
     
+    // No rows means the id was unknown
+    return data.length > 0;
+  },
+
+  // The database narrows the catalog to likely matches; the same rules as the
+  // other backends then decide which ones are duplicates
+  async findDuplicates(candidate, excludeId = null) {
+    const { data, error } = await supabase.rpc('find_duplicate_games', {
+      candidate_title: candidate.title,
+      candidate_url: candidate.url,
+      exclude_id: excludeId
+    });
+
     if (error) {
-      console.error('Error deleting game:', error);
-      return false;
+      // Not being able to check shouldn't block the save
+      console.error('Error checking for duplicate games:', error);
+      return [];
     }
-    
-    return true;
+
+    return findDuplicatesOf(candidate, data || [], excludeId);
   },
 
   // Subscribe to real-time changes
-  subscribeToChanges(callback: (games: Game[]) => void) {
+  subscribeToChanges(callback) {
     const channel = supabase
       .channel('games-changes')
       .on('postgres_changes', 
         { event: '*', schema: 'public', table: 'games' },
-        async () => {
-          // Fetch updated games list
-          const games = await this.getGames();
-          callback(games);
+        (payload: RealtimePostgresChangesPayload<Game>) => {
+          if (payload.eventType === 'DELETE') {
+            if (payload.old.id) callback([{ type: 'delete', id: payload.old.id }]);
+          } else if (payload.new.deleted_at) {
+            // Moved to the trash
+            callback([{ type: 'delete', id: payload.new.id, title: payload.new.title }]);
+          } else {
+            callback([{ type: payload.eventType === 'INSERT' ? 'insert' : 'update', game: payload.new }]);
+          }
         }
       )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          setConnectionState('connected');
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          setConnectionState('offline');
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+};
+// Category management; renames cascade to games through the foreign key
+export const categoryService: CategoryStore = {
+  async getCategories() {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching categories:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async addCategory(input) {
+    await requireRole('editor');
+
+    const { data, error } = await supabase
+      .from('categories')
+      .insert([{ ...input, name: input.name.trim(), slug: slugify(input.name) }])
+      .select()
+      .single();
+
+    if (error) {
+      if (isPermissionError(error)) throw unauthorizedError();
+      console.error('Error adding category:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  async updateCategory(id, updates) {
+    await requireRole('editor');
+
+    const changes = updates.name
+      ? { ...updates, name: updates.name.trim(), slug: slugify(updates.name) }
+      : updates;
+    const { data, error } = await supabase
+      .from('categories')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (isPermissionError(error)) throw unauthorizedError();
+      console.error('Error updating category:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  async deleteCategory(id) {
+    await requireRole('admin');
+
+    // The foreign key refuses to delete categories that games still use
+    const { data, error } = await supabase
+      .from('categories')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      if (isPermissionError(error)) throw unauthorizedError();
+      console.error('Error deleting category:', error);
+      return false;
+    }
+
+    return data.length > 0;
+  },
+
+  async mergeCategories(sourceId, targetId) {
+    await requireRole('admin');
+
+    const { error } = await supabase.rpc('merge_categories', { source_id: sourceId, target_id: targetId });
+
+    if (error) {
+      if (isPermissionError(error)) throw unauthorizedError();
+      console.error('Error merging categories:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  subscribeToChanges(callback) {
+    const channel = supabase
+      .channel('categories-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'categories' }, () => callback())
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
   }
-};
\ No newline at end of file
+};
+
+const COVER_BUCKET = 'game-covers';
+
+// Cover uploads go to Storage as a full-size cover plus a card thumbnail
+export const coverImageService: CoverImageStore = {
+  async uploadCover(file) {
+    await requireRole('editor');
+
+    const [cover, thumbnail] = await Promise.all([
+      resizeImage(file, COVER_WIDTH),
+      resizeImage(file, THUMBNAIL_WIDTH)
+    ]);
+    const folder = crypto.randomUUID();
+    const bucket = supabase.storage.from(COVER_BUCKET);
+
+    const upload = async (name: string, blob: Blob) => {
+      const path = `${folder}/${name}`;
+      const { error } = await bucket.upload(path, blob, { contentType: blob.type, cacheControl: '31536000' });
+      if (error) {
+        console.error('Error uploading cover image:', error);
+        throw new Error('Could not upload the cover image.');
+      }
+      return bucket.getPublicUrl(path).data.publicUrl;
+    };
+
+    return {
+      cover_image_url: await upload('cover.webp', cover),
+      thumbnail_url: await upload('thumbnail.webp', thumbnail)
+    };
+  }
+};
+
+const BUNDLE_BUCKET = 'game-bundles';
+
+// Game zips are unpacked into Storage under a new id; the site serves them from /hosted/<id>/
+export const bundleService: GameBundleStore = {
+  async uploadBundle(bundle, onProgress) {
+    await requireRole('editor');
+
+    const bundleId = crypto.randomUUID();
+    const bucket = supabase.storage.from(BUNDLE_BUCKET);
+    const uploaded: string[] = [];
+
+    try {
+      await uploadBundleFiles(bundle, async (file) => {
+        const path = `${bundleId}/${file.path}`;
+        const { error } = await bucket.upload(path, await file.read(), {
+          contentType: file.contentType,
+          cacheControl: '31536000'
+        });
+        if (error) throw error;
+        uploaded.push(path);
+      }, onProgress);
+    } catch (error) {
+      console.error('Error uploading game bundle:', error);
+      // Best effort: only admins may delete, and a half bundle is never referenced anyway
+      if (uploaded.length > 0) await bucket.remove(uploaded);
+      throw new Error('Could not upload the game files. Please try again.');
+    }
+
+    return hostedBundleUrl(bundleId);
+  }
+};
+
+// Player accounts: any Supabase Auth user, admin role or not
+export const playerAccountService: PlayerAccountService = {
+  async getUserId() {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  },
+
+  onUserChange(callback) {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      callback(session?.user.id ?? null);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  },
+
+  async signIn(email, password) {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw new Error(error.message);
+  },
+
+  async signUp(email, password) {
+    const { error } = await supabase.auth.signUp({ email, password });
+    if (error) throw new Error(error.message);
+  },
+
+  async signOut() {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Error signing out:', error);
+    }
+  }
+};
+
+// Favorites and recently played games for each player
+export const playerListService: PlayerListRemote = {
+  async load(userId) {
+    const { data, error } = await supabase
+      .from('player_game_lists')
+      .select('game_id, kind, updated_at')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching player lists:', error);
+      return emptyPlayerLists;
+    }
+
+    const entriesOf = (kind: PlayerListKind) =>
+      data.filter(row => row.kind === kind).map(row => ({ gameId: row.game_id, at: row.updated_at }));
+    return { favorites: entriesOf('favorite'), recent: entriesOf('recent') };
+  },
+
+  async put(userId, kind, entries) {
+    const { error } = await supabase
+      .from('player_game_lists')
+      .upsert(entries.map(entry => ({ user_id: userId, kind, game_id: entry.gameId, updated_at: entry.at })));
+
+    if (error) {
+      console.error('Error saving player list:', error);
+    }
+  },
+
+  async remove(userId, kind, gameIds) {
+    const { error } = await supabase
+      .from('player_game_lists')
+      .delete()
+      .eq('user_id', userId)
+      .eq('kind', kind)
+      .in('game_id', gameIds);
+
+    if (error) {
+      console.error('Error removing from player list:', error);
+    }
+  }
+};
+
+// Plays that couldn't be sent (usually offline) wait here until the next successful write
+const PENDING_PLAYS_KEY = 'pendingPlayEvents';
+// The newest plays are kept if the browser stays offline for a long time
+const MAX_PENDING_PLAYS = 100;
+// Last stats we fetched, so sort orders still work offline
+const PLAY_STATS_CACHE_KEY = 'playStatsCache';
+
+const readStored = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Failed requests have no Postgres code; connection and resource errors (classes
+// 08, 53, 57) may pass later too. Anything else, like a purged game's foreign key,
+// would be refused again.
+const isRetryableError = (error: PostgrestError) => !error.code || /^(08|53|57)/.test(error.code);
+
+const savePendingPlays = (events: PlayEvent[]) => {
+  if (events.length === 0) {
+    localStorage.removeItem(PENDING_PLAYS_KEY);
+  } else {
+    localStorage.setItem(PENDING_PLAYS_KEY, JSON.stringify(events.slice(-MAX_PENDING_PLAYS)));
+  }
+};
+
+export const playAnalyticsService: PlayAnalyticsStore = {
+  async recordPlay(event) {
+    const events = [...readStored<PlayEvent[]>(PENDING_PLAYS_KEY, []), event];
+    const { error } = await supabase.from('play_events').insert(events);
+
+    if (!error) {
+      savePendingPlays([]);
+    } else if (isRetryableError(error)) {
+      console.warn('Could not record play, keeping it for later:', error);
+      savePendingPlays(events);
+    } else {
+      // One refused play fails the whole insert, so send them one at a time and drop the refused ones
+      const kept: PlayEvent[] = [];
+      for (const pending of events) {
+        const { error: eventError } = await supabase.from('play_events').insert([pending]);
+        if (!eventError) continue;
+        if (isRetryableError(eventError)) {
+          kept.push(pending);
+        } else {
+          console.warn('Dropping a play the server refused:', eventError);
+        }
+      }
+      savePendingPlays(kept);
+    }
+  },
+
+  async getStats() {
+    const { data, error } = await supabase
+      .from('game_play_stats')
+      .select('game_id, plays, recent_plays, total_seconds');
+
+    if (error) {
+      console.error('Error fetching play stats:', error);
+      return readStored<GamePlayStats[]>(PLAY_STATS_CACHE_KEY, []);
+    }
+
+    localStorage.setItem(PLAY_STATS_CACHE_KEY, JSON.stringify(data));
+    return data;
+  }
+};
+
+// Filtering, search ranking and paging run in Postgres; when the server can't be
+// reached, reads go to `fallback` instead
+export const createGameCatalogService = (fallback: GameCatalog): GameCatalog => ({
+  async getPage(query, offset, limit) {
+    // One extra row tells us whether another page exists
+    const { data, error } = await supabase
+      .rpc('list_games', {
+        filter_category: query.category,
+        filter_tag: query.tag,
+        search_text: query.search.trim(),
+        sort_order: query.sort,
+        hide_broken: query.hideBroken,
+        filter_publication: query.publication
+      })
+      .range(offset, offset + limit);
+
+    if (error) {
+      console.warn('Could not load games from the server, using the local copy:', error);
+      return fallback.getPage(query, offset, limit);
+    }
+
+    return { games: (data as Game[]).slice(0, limit), hasMore: data.length > limit };
+  },
+
+  async getGamesByIds(ids) {
+    if (ids.length === 0) return [];
+    const { data, error } = await supabase.from('games').select('*').in('id', ids).is('deleted_at', null);
+
+    if (error) {
+      console.warn('Could not load games from the server, using the local copy:', error);
+      return fallback.getGamesByIds(ids);
+    }
+
+    return data;
+  },
+
+  // The view runs with the caller's permissions, so only editors' counts include unpublished games
+  async getCategoryCounts(includeUnpublished) {
+    const { data, error } = await supabase.from('game_category_counts').select('category, games');
+
+    if (error) {
+      console.warn('Could not load category counts, using the local copy:', error);
+      return fallback.getCategoryCounts(includeUnpublished);
+    }
+
+    return Object.fromEntries(data.map(row => [row.category, row.games]));
+  },
+
+  // Players can't read scheduled games yet, only when they are due
+  async getScheduledReleases() {
+    const { data, error } = await supabase
+      .from('scheduled_game_releases')
+      .select('id, publish_at')
+      .order('publish_at', { ascending: true });
+
+    if (error) {
+      console.warn('Could not load scheduled games, using the local copy:', error);
+      return fallback.getScheduledReleases();
+    }
+
+    return data;
+  },
+
+  async getRelatedGames(game, limit) {
+    const { data, error } = await supabase.rpc('related_games', { game_id: game.id, max_results: limit });
+
+    if (error) {
+      console.warn('Could not load related games, using the local copy:', error);
+      return fallback.getRelatedGames(game, limit);
+    }
+
+    return data as Game[];
+  },
+
+  // No local fallback: the copy here only holds the pages seen so far
+  async getOfflineGames() {
+    const { data, error } = await supabase
+      .from('games')
+      .select('*')
+      .eq('offline_available', true)
+      .is('deleted_at', null);
+
+    if (error) throw new Error(`Could not load offline games: ${error.message}`);
+
+    return data;
+  },
+
+  async suggestSearch(search) {
+    const { data, error } = await supabase.rpc('suggest_search', { search_text: search });
+
+    if (error) {
+      console.warn('Could not load search suggestions:', error);
+      return fallback.suggestSearch(search);
+    }
+
+    return data;
+  }
+});
+
+// Links are probed by the `check-game-links` function, which can read status codes
+// and framing headers that the browser can't, and saves the results itself
+export const linkCheckerService: LinkChecker = {
+  detailed: true,
+
+  async checkGames(games, onProgress) {
+    await requireRole('editor');
+
+    const { data, error } = await supabase.functions.invoke('check-game-links', {
+      body: { ids: games.map(game => game.id) }
+    });
+    if (error) {
+      console.error('Error checking game links:', error);
+      throw new Error('Could not run the link check.');
+    }
+
+    onProgress?.(games.length, games.length);
+    return (data as { results: LinkCheckResult[] }).results;
+  }
+};
+
+// Revisions are written by a trigger on games; trashed games are rows with deleted_at set
+export const gameHistoryService: GameHistory = {
+  async getRevisions(gameId) {
+    const { data, error } = await supabase
+      .from('game_revisions')
+      .select('id, game_id, action, actor_email, changed_at, before, after')
+      .eq('game_id', gameId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching revisions:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async getTrash() {
+    const { data, error } = await supabase
+      .from('games')
+      .select('*')
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching trash:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async restoreGame(id) {
+    await requireRole('admin');
+
+    const { data, error } = await supabase
+      .from('games')
+      .update({ deleted_at: null, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select()
+      .maybeSingle();
+
+    if (error) throw gameWriteError(error, 'restore the game');
+
+    return data;
+  },
+
+  async purgeGame(id) {
+    await requireRole('admin');
+
+    const { data, error } = await supabase
+      .from('games')
+      .delete()
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select('id');
+
+    if (error) throw gameWriteError(error, 'delete the game');
+
+    return data.length > 0;
+  },
+
+  async revertToRevision(revision) {
+    await requireRole('editor');
+
+    const snapshot = revisionSnapshot(revision);
+    if (!snapshot) return null;
+    const changes = prepareGameUpdate(snapshotUpdate(snapshot));
+
+    // Also takes the game out of the trash
+    const { data, error } = await supabase
+      .from('games')
+      .update({ ...changes, deleted_at: null, updated_at: new Date().toISOString() })
+      .eq('id', revision.game_id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw gameWriteError(error, 'revert the game');
+    if (data) return data;
+
+    // Purged, so bring it back under the same id
+    const { data: inserted, error: insertError } = await supabase
+      .from('games')
+      .insert([{ ...changes, id: revision.game_id }])
+      .select()
+      .single();
+
+    if (insertError) throw gameWriteError(insertError, 're-create the game');
+
+    return inserted;
+  }
+};
+
+// Approvals and rejections only apply to pending suggestions
+const reviewSubmission = async (id: string, changes: Record<string, unknown>) => {
+  await requireRole('editor');
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('game_submissions')
+    .update({ ...changes, reviewed_by: user?.id ?? null, reviewed_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    if (isPermissionError(error)) throw unauthorizedError();
+    console.error('Error reviewing submission:', error);
+    return false;
+  }
+
+  return data.length > 0;
+};
+
+// Suggestions are rate limited and checked for duplicate URLs by a trigger
+export const submissionService: SubmissionStore = {
+  async submit(input) {
+    // No .select(): players can't read suggestions back
+    const { error } = await supabase.from('game_submissions').insert([prepareSubmission(input)]);
+
+    if (error) {
+      if (error.hint === 'rate_limited') throw rateLimitedError();
+      console.error('Error submitting game:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  async getSubmissions(status) {
+    await requireRole('editor');
+
+    const { data, error } = await supabase
+      .from('game_submissions')
+      .select('id, title, description, category, url, tags, submitter_name, status, rejection_reason, duplicate_of, game_id, created_at, reviewed_at')
+      .eq('status', status)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching submissions:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async approve(id, gameId) {
+    return reviewSubmission(id, { status: 'approved', game_id: gameId });
+  },
+
+  async reject(id, reason) {
+    return reviewSubmission(id, { status: 'rejected', rejection_reason: reason.trim() || null });
+  }
+};
+
+interface CollectionRow extends Omit<Collection, 'game_ids'> {
+  collection_games: { game_id: string; position: number }[];
+}
+
+const toCollection = ({ collection_games, ...collection }: CollectionRow): Collection => ({
+  ...collection,
+  game_ids: [...collection_games].sort((a, b) => a.position - b.position).map(entry => entry.game_id)
+});
+
+const COLLECTION_COLUMNS = 'id, name, slug, sort_order, is_featured, created_at, collection_games(game_id, position)';
+
+// Collections and their ordered games; reordering goes through set_collection_games
+export const collectionService: CollectionStore = {
+  async getCollections() {
+    const { data, error } = await supabase
+      .from('collections')
+      .select(COLLECTION_COLUMNS)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching collections:', error);
+      return [];
+    }
+
+    return (data as CollectionRow[]).map(toCollection);
+  },
+
+  async addCollection(name) {
+    await requireRole('editor');
+
+    const { data: last } = await supabase
+      .from('collections')
+      .select('sort_order')
+      .order('sort_order', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const { data, error } = await supabase
+      .from('collections')
+      .insert([{ name: name.trim(), slug: slugify(name), sort_order: (last?.sort_order ?? -1) + 1 }])
+      .select(COLLECTION_COLUMNS)
+      .single();
+
+    if (error) {
+      if (isPermissionError(error)) throw unauthorizedError();
+      console.error('Error adding collection:', error);
+      return null;
+    }
+
+    return toCollection(data as CollectionRow);
+  },
+
+  async updateCollection(id, updates) {
+    await requireRole('editor');
+
+    // Only one collection can be featured
+    if (updates.is_featured) {
+      const { error } = await supabase
+        .from('collections')
+        .update({ is_featured: false })
+        .neq('id', id)
+        .eq('is_featured', true);
+      if (error) {
+        if (isPermissionError(error)) throw unauthorizedError();
+        console.error('Error un-featuring collections:', error);
+        return null;
+      }
+    }
+
+    const changes = updates.name
+      ? { ...updates, name: updates.name.trim(), slug: slugify(updates.name) }
+      : updates;
+    const { data, error } = await supabase
+      .from('collections')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(COLLECTION_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (isPermissionError(error)) throw unauthorizedError();
+      console.error('Error updating collection:', error);
+      return null;
+    }
+
+    return data ? toCollection(data as CollectionRow) : null;
+  },
+
+  async setCollectionGames(id, gameIds) {
+    await requireRole('editor');
+
+    const { error } = await supabase.rpc('set_collection_games', { target_id: id, game_ids: gameIds });
+
+    if (error) {
+      if (isPermissionError(error)) throw unauthorizedError();
+      console.error('Error saving collection games:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  async deleteCollection(id) {
+    await requireRole('admin');
+
+    const { data, error } = await supabase
+      .from('collections')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      if (isPermissionError(error)) throw unauthorizedError();
+      console.error('Error deleting collection:', error);
+      return false;
+    }
+
+    return data.length > 0;
+  },
+
+  // set_collection_games touches the collection row, so one table covers reorders too
+  subscribeToChanges(callback) {
+    const channel = supabase
+      .channel('collections-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'collections' }, () => callback())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+};
+
+// Scores are rate limited by a trigger and read back through the game_leaderboard view
+export const leaderboardService: LeaderboardStore = {
+  async submitScore(input) {
+    // No .select(): players can't read game_scores directly
+    const { error } = await supabase.from('game_scores').insert([prepareScore(input)]);
+
+    if (error) {
+      if (error.hint === 'rate_limited') throw rateLimitedScoreError();
+      console.error('Error submitting score:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  async getTopScores(gameId, limit = LEADERBOARD_SIZE) {
+    const { data, error } = await supabase
+      .from('game_leaderboard')
+      .select('id, game_id, player_name, score, created_at')
+      .eq('game_id', gameId)
+      .order('score', { ascending: false })
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching leaderboard:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+};
+
+// merge_games moves everything in one transaction, so a failed merge changes nothing
+export const gameMergeService: GameMergeStore = {
+  async mergeGames(keepId, mergedIds) {
+    await requireRole('admin');
+
+    const { error } = await supabase.rpc('merge_games', { keep_id: keepId, merged_ids: mergedIds });
+
+    if (error) {
+      if (isPermissionError(error)) throw unauthorizedError();
+      console.error('Error merging games:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  async getMergedIds() {
+    const { data, error } = await supabase.from('game_merges').select('merged_id, kept_id');
+
+    if (error) {
+      console.error('Error fetching merged games:', error);
+      return {};
+    }
+
+    return Object.fromEntries((data || []).map(row => [row.merged_id, row.kept_id]));
+  }
+};
@@ -0,0 +1,107 @@
+// Just enough of the zip format to unpack game uploads in the browser: stored and
+// deflated entries, read from the central directory. No zip64, no encryption.
+
+export interface ZipEntry {
+  path: string;
+  compressedSize: number;
+  size: number;
+  isDirectory: boolean;
+  // Decompresses the entry; only call it once the entry has been accepted
+  read(): Promise<Blob>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+// The end record is 22 bytes plus a comment of up to 64 KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+class ZipError extends Error {}
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+const findEndRecord = async (file: Blob) => {
+  const start = Math.max(0, file.size - MAX_END_RECORD_SEARCH);
+  const view = await readBytes(file, start, file.size);
+  for (let offset = view.byteLength - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return {
+        entryCount: view.getUint16(offset + 10, true),
+        directorySize: view.getUint32(offset + 12, true),
+        directoryOffset: view.getUint32(offset + 16, true)
+      };
+    }
+  }
+  throw new ZipError('This is not a zip file.');
+};
+
+// Stops as soon as the output passes the size the directory declared, so a
+// doctored entry can't inflate far beyond the limits it was checked against
+const inflate = (data: Blob, size: number, path: string) => {
+  let inflated = 0;
+  const limit = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      inflated += chunk.byteLength;
+      if (inflated > size) controller.error(new ZipError(`${path} is damaged.`));
+      else controller.enqueue(chunk);
+    }
+  });
+  return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw')).pipeThrough(limit)).blob();
+};
+
+export const readZipEntries = async (file: Blob): Promise<ZipEntry[]> => {
+  const { entryCount, directorySize, directoryOffset } = await findEndRecord(file);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipError('Zip64 archives are not supported; zip fewer or smaller files.');
+  }
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > directory.byteLength || directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ZipError('The zip file is damaged.');
+    }
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const headerOffset = directory.getUint32(offset + 42, true);
+    const path = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x1) throw new ZipError(`${path} is encrypted.`);
+    const isDirectory = path.endsWith('/');
+    if (!isDirectory && method !== STORED && method !== DEFLATED) {
+      throw new ZipError(`${path} uses a compression method browsers can't unpack.`);
+    }
+
+    entries.push({
+      path,
+      compressedSize,
+      size,
+      isDirectory,
+      async read() {
+        // The local header's name and extra fields may differ in length from the directory's
+        const header = await readBytes(file, headerOffset, headerOffset + 30);
+        if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) throw new ZipError(`${path} is damaged.`);
+        const dataStart = headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+        const data = file.slice(dataStart, dataStart + compressedSize);
+        const blob = method === STORED ? data : await inflate(data, size, path);
+        if (blob.size !== size) throw new ZipError(`${path} is damaged.`);
+        return blob;
+      }
+    });
+  }
+
+  return entries;
+};
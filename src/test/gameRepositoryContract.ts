@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AdminRole } from '../lib/auth';
+import { GameServiceError, GameServiceErrorCode } from '../lib/errors';
+import { GameRepository, NewGame } from '../lib/gameRepository';
+
+export interface RepositoryHarness {
+  repository: GameRepository;
+  // Signs in with `role`, or signs out with null
+  signInAs(role: AdminRole | null): Promise<void>;
+}
+
+export const sampleGame = (overrides: Partial<NewGame> = {}): NewGame => ({
+  title: 'Slope',
+  description: 'Roll down the slope.',
+  category: 'Arcade',
+  color: 'bg-blue-500',
+  url: 'https://example.com/slope',
+  ...overrides
+});
+
+const expectServiceError = async (promise: Promise<unknown>, code: GameServiceErrorCode) => {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(GameServiceError);
+  expect((error as GameServiceError).code).toBe(code);
+  return error as GameServiceError;
+};
+
+// The promises in gameRepository.ts's GameRepository comment, checked against one backend.
+// `setup` runs before every test and must return an empty catalog.
+export const describeGameRepositoryContract = (name: string, setup: () => Promise<RepositoryHarness>) => {
+  describe(`${name} repository contract`, () => {
+    let harness: RepositoryHarness;
+    let repository: GameRepository;
+
+    beforeEach(async () => {
+      harness = await setup();
+      repository = harness.repository;
+      await harness.signInAs('admin');
+    });
+
+    describe('addGame', () => {
+      it('returns the saved row with a uuid and timestamps', async () => {
+        const game = await repository.addGame(sampleGame());
+
+        expect(game).toMatchObject({ title: 'Slope', category: 'Arcade', url: 'https://example.com/slope' });
+        expect(game?.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+        expect(game?.created_at).toBeTruthy();
+        expect(game?.updated_at).toBeTruthy();
+        expect(await repository.getGame(game!.id)).toMatchObject({ id: game!.id, title: 'Slope' });
+      });
+
+      it('keeps an id the caller supplies', async () => {
+        const id = crypto.randomUUID();
+        expect((await repository.addGame(sampleGame({ id })))?.id).toBe(id);
+      });
+
+      it('lists games newest first', async () => {
+        const first = await repository.addGame(sampleGame({ title: 'First', url: 'https://example.com/first' }));
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const second = await repository.addGame(sampleGame({ title: 'Second', url: 'https://example.com/second' }));
+
+        expect((await repository.getGames()).map(game => game.id)).toEqual([second!.id, first!.id]);
+      });
+
+      it('rejects invalid fields with per-field messages', async () => {
+        const error = await expectServiceError(repository.addGame(sampleGame({ title: ' ', color: 'plaid' })), 'invalid');
+
+        expect(error.fieldErrors.title).toBeTruthy();
+        expect(error.fieldErrors.color).toBeTruthy();
+        expect(await repository.getGames()).toEqual([]);
+      });
+    });
+
+    describe('updateGame', () => {
+      it('returns the saved row', async () => {
+        const game = await repository.addGame(sampleGame());
+        const updated = await repository.updateGame(game!.id, { title: 'Slope 2', tags: ['ball'] });
+
+        expect(updated).toMatchObject({ id: game!.id, title: 'Slope 2', tags: ['ball'], created_at: game!.created_at });
+        expect((await repository.getGame(game!.id))?.title).toBe('Slope 2');
+      });
+
+      it('returns null for an unknown id', async () => {
+        expect(await repository.updateGame(crypto.randomUUID(), { title: 'Nobody' })).toBeNull();
+      });
+
+      it('rejects invalid fields and keeps the game as it was', async () => {
+        const game = await repository.addGame(sampleGame());
+        await expectServiceError(repository.updateGame(game!.id, { url: 'not a link' }), 'invalid');
+
+        expect((await repository.getGame(game!.id))?.url).toBe('https://example.com/slope');
+      });
+    });
+
+    describe('duplicates', () => {
+      it('refuses a link variant or similar title of a live game', async () => {
+        const game = await repository.addGame(sampleGame());
+
+        const error = await expectServiceError(
+          repository.addGame(sampleGame({ title: 'Other', url: 'http://www.example.com/slope/?utm_source=ad' })),
+          'duplicate'
+        );
+        expect(error.duplicates).toEqual([{ game, reason: 'url' }]);
+        await expectServiceError(repository.addGame(sampleGame({ title: 'Slope Unblocked', url: 'https://example.com/other' })), 'duplicate');
+        expect(await repository.getGames()).toHaveLength(1);
+      });
+
+      it('saves a duplicate the caller allows', async () => {
+        await repository.addGame(sampleGame());
+
+        expect(await repository.addGame(sampleGame(), { allowDuplicates: true })).not.toBeNull();
+        expect(await repository.getGames()).toHaveLength(2);
+      });
+
+      it('checks updates that change the title or url, against other games only', async () => {
+        const slope = await repository.addGame(sampleGame());
+        const run = await repository.addGame(sampleGame({ title: 'Run 3', url: 'https://example.com/run-3' }));
+
+        expect((await repository.updateGame(slope!.id, { title: 'Slope', description: 'Faster.' }))?.description).toBe('Faster.');
+        await expectServiceError(repository.updateGame(run!.id, { url: 'https://example.com/slope' }), 'duplicate');
+        expect((await repository.getGame(run!.id))?.url).toBe('https://example.com/run-3');
+      });
+
+      it('finds the games a candidate looks like', async () => {
+        const game = await repository.addGame(sampleGame());
+
+        expect(await repository.findDuplicates({ title: 'Slope', url: 'https://example.com/new' })).toEqual([
+          { game, reason: 'title' }
+        ]);
+        expect(await repository.findDuplicates({ title: 'Slope', url: game!.url }, game!.id)).toEqual([]);
+      });
+
+      it('ignores games in the trash', async () => {
+        const game = await repository.addGame(sampleGame());
+        await repository.deleteGame(game!.id);
+
+        expect(await repository.addGame(sampleGame())).not.toBeNull();
+      });
+    });
+
+    describe('deleteGame', () => {
+      it('takes the game out of the catalog', async () => {
+        const game = await repository.addGame(sampleGame());
+
+        expect(await repository.deleteGame(game!.id)).toBe(true);
+        expect(await repository.getGame(game!.id)).toBeNull();
+        expect(await repository.getGames()).toEqual([]);
+      });
+
+      it('returns false for an unknown or already deleted id', async () => {
+        const game = await repository.addGame(sampleGame());
+        await repository.deleteGame(game!.id);
+
+        expect(await repository.deleteGame(game!.id)).toBe(false);
+        expect(await repository.deleteGame(crypto.randomUUID())).toBe(false);
+      });
+    });
+
+    describe('roles', () => {
+      it('refuses every change when signed out', async () => {
+        const game = await repository.addGame(sampleGame());
+        await harness.signInAs(null);
+
+        await expectServiceError(repository.addGame(sampleGame({ title: 'Other' })), 'unauthorized');
+        await expectServiceError(repository.updateGame(game!.id, { title: 'Other' }), 'unauthorized');
+        await expectServiceError(repository.deleteGame(game!.id), 'unauthorized');
+        expect((await repository.getGames()).map(g => g.title)).toEqual(['Slope']);
+      });
+
+      it('lets editors add and update but not delete', async () => {
+        await harness.signInAs('editor');
+        const game = await repository.addGame(sampleGame());
+
+        expect((await repository.updateGame(game!.id, { title: 'Slope 2' }))?.title).toBe('Slope 2');
+        await expectServiceError(repository.deleteGame(game!.id), 'unauthorized');
+        expect(await repository.getGame(game!.id)).not.toBeNull();
+      });
+    });
+  });
+};
@@ -0,0 +1,57 @@
+// Probes game URLs and records their link health on the games table.
+// Called from the admin UI by editors; body: { ids?: string[] } (all games when omitted).
+// Set SITE_ORIGIN to the hub's public origin so SAMEORIGIN/frame-ancestors are judged correctly.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { checkLinks } from '../../../src/lib/linkHealth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+
+  // Ask as the caller, so has_game_role sees their auth.uid()
+  const caller = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  });
+  const { data: allowed } = await caller.rpc('has_game_role', { required: 'editor' });
+  if (!allowed) {
+    return json({ error: 'Only editors can check game links.' }, 403);
+  }
+
+  const { ids } = await req.json().catch(() => ({ ids: undefined }));
+  const service = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
+  let query = service.from('games').select('id, url').is('deleted_at', null);
+  if (Array.isArray(ids)) {
+    query = query.in('id', ids);
+  }
+  const { data: games, error } = await query;
+  if (error) {
+    return json({ error: error.message }, 500);
+  }
+
+  const results = await checkLinks(games, { embedOrigin: Deno.env.get('SITE_ORIGIN') });
+
+  // Only the link columns change, so updated_at (and offline edit conflicts) are left alone
+  for (const { gameId, health } of results) {
+    const { error: updateError } = await service.from('games').update(health).eq('id', gameId);
+    if (updateError) {
+      console.error(`Could not save link health for ${gameId}:`, updateError);
+    }
+  }
+
+  return json({ results });
+});
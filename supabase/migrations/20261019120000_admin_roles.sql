@@ -0,0 +1,77 @@
+/*
+  # Role-based admin access for games
+
+  1. New Tables
+    - `admin_users`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `role` (text, 'admin' or 'editor')
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `has_game_role(required text)` returns true when the signed-in user
+      has the required role (admins satisfy every role)
+
+  3. Security
+    - Drop the open "Anyone can manage games" policy
+    - Editors and admins can insert and update games
+    - Only admins can delete games
+    - Users can read their own role; admins manage everyone's roles
+*/
+
+CREATE TABLE IF NOT EXISTS admin_users (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('admin', 'editor')),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so policies can check roles without reading admin_users through RLS
+CREATE OR REPLACE FUNCTION has_game_role(required text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE user_id = auth.uid()
+      AND (role = 'admin' OR role = required)
+  );
+$$;
+
+CREATE POLICY "Users can read their own role"
+  ON admin_users
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage roles"
+  ON admin_users
+  FOR ALL
+  TO authenticated
+  USING (has_game_role('admin'))
+  WITH CHECK (has_game_role('admin'));
+
+-- Replace the open policy with role-aware ones
+DROP POLICY IF EXISTS "Anyone can manage games" ON games;
+
+CREATE POLICY "Editors can insert games"
+  ON games
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_game_role('editor'));
+
+CREATE POLICY "Editors can update games"
+  ON games
+  FOR UPDATE
+  TO authenticated
+  USING (has_game_role('editor'))
+  WITH CHECK (has_game_role('editor'));
+
+CREATE POLICY "Admins can delete games"
+  ON games
+  FOR DELETE
+  TO authenticated
+  USING (has_game_role('admin'));
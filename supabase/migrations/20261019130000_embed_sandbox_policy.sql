@@ -0,0 +1,11 @@
+/*
+  # Per-game frame policies for sandboxed embeds
+
+  1. Changes
+    - `games.sandbox_policy` (text, nullable) iframe sandbox tokens; embed code
+      falls back to a default policy that never grants same-origin access
+    - `games.allow_policy` (text, nullable) iframe permissions policy
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS sandbox_policy text;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS allow_policy text;
@@ -0,0 +1,110 @@
+/*
+  # Data-driven game categories
+
+  1. New Tables
+    - `categories`
+      - `id` (uuid, primary key)
+      - `name` (text, unique, shown in filters and the game form)
+      - `slug` (text, unique)
+      - `sort_order` (integer, filter chip order)
+      - `icon` (text, icon key understood by the app)
+      - `color` (text, background color class)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Seeds the categories the app used to hard-code, plus any other
+      category already used by a game
+    - `games.category` now references `categories.name`; renaming a category
+      cascades to its games, and categories in use cannot be deleted
+
+  3. New Functions
+    - `merge_categories(source_id, target_id)` moves every game to the target
+      category and deletes the source, in one transaction
+
+  4. Security
+    - Anyone can read categories
+    - Editors and admins can insert and update categories
+    - Only admins can delete (and so merge) categories
+*/
+
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  slug text NOT NULL UNIQUE,
+  sort_order integer NOT NULL DEFAULT 0,
+  icon text,
+  color text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read categories"
+  ON categories
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Editors can insert categories"
+  ON categories
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_game_role('editor'));
+
+CREATE POLICY "Editors can update categories"
+  ON categories
+  FOR UPDATE
+  TO authenticated
+  USING (has_game_role('editor'))
+  WITH CHECK (has_game_role('editor'));
+
+CREATE POLICY "Admins can delete categories"
+  ON categories
+  FOR DELETE
+  TO authenticated
+  USING (has_game_role('admin'));
+
+INSERT INTO categories (name, slug, sort_order, icon, color) VALUES
+  ('Arcade', 'arcade', 0, 'gamepad', 'bg-blue-500'),
+  ('Puzzle', 'puzzle', 1, 'puzzle', 'bg-purple-500'),
+  ('Multiplayer', 'multiplayer', 2, 'users', 'bg-green-500'),
+  ('Action', 'action', 3, 'swords', 'bg-red-500'),
+  ('Strategy', 'strategy', 4, 'brain', 'bg-indigo-500'),
+  ('Sports', 'sports', 5, 'trophy', 'bg-orange-500')
+ON CONFLICT DO NOTHING;
+
+-- Keep any category games already use so the foreign key can be added
+INSERT INTO categories (name, slug, sort_order)
+SELECT DISTINCT category, trim(both '-' from lower(regexp_replace(category, '[^a-zA-Z0-9]+', '-', 'g'))), 100
+FROM games
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE games
+  ADD CONSTRAINT games_category_fkey
+  FOREIGN KEY (category) REFERENCES categories(name)
+  ON UPDATE CASCADE;
+
+-- Runs as the caller, so the games update and category delete go through RLS
+CREATE OR REPLACE FUNCTION merge_categories(source_id uuid, target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  source_name text;
+  target_name text;
+BEGIN
+  SELECT name INTO source_name FROM categories WHERE id = source_id;
+  SELECT name INTO target_name FROM categories WHERE id = target_id;
+  IF source_name IS NULL OR target_name IS NULL OR source_id = target_id THEN
+    RAISE EXCEPTION 'Cannot merge these categories';
+  END IF;
+
+  UPDATE games SET category = target_name, updated_at = now() WHERE category = source_name;
+  DELETE FROM categories WHERE id = source_id;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS categories_sort_order_idx ON categories(sort_order);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE categories;
@@ -0,0 +1,46 @@
+/*
+  # Cover images for games
+
+  1. Changes
+    - `games.cover_image_url` (text, nullable) full-size cover
+    - `games.thumbnail_url` (text, nullable) small version shown on cards
+
+  2. Storage
+    - Public `game-covers` bucket for uploaded covers
+
+  3. Security
+    - Anyone can read covers
+    - Editors and admins can upload and replace covers
+    - Only admins can delete covers
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS cover_image_url text;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS thumbnail_url text;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('game-covers', 'game-covers', true, 5242880, ARRAY['image/webp', 'image/png', 'image/jpeg', 'image/gif'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can read game covers"
+  ON storage.objects
+  FOR SELECT
+  TO public
+  USING (bucket_id = 'game-covers');
+
+CREATE POLICY "Editors can upload game covers"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'game-covers' AND has_game_role('editor'));
+
+CREATE POLICY "Editors can replace game covers"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'game-covers' AND has_game_role('editor'));
+
+CREATE POLICY "Admins can delete game covers"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'game-covers' AND has_game_role('admin'));
@@ -0,0 +1,49 @@
+/*
+  # Favorites and recently played games per player
+
+  1. New Tables
+    - `player_game_lists`
+      - `user_id` (uuid, references auth.users)
+      - `kind` (text, 'favorite' or 'recent')
+      - `game_id` (uuid, references games)
+      - `updated_at` (timestamp, when favorited or last played)
+      - primary key (`user_id`, `kind`, `game_id`)
+
+  2. Security
+    - Players can only read and change their own rows
+*/
+
+CREATE TABLE IF NOT EXISTS player_game_lists (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('favorite', 'recent')),
+  game_id uuid NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, kind, game_id)
+);
+
+ALTER TABLE player_game_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can read their own lists"
+  ON player_game_lists
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Players can add to their own lists"
+  ON player_game_lists
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Players can update their own lists"
+  ON player_game_lists
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Players can remove from their own lists"
+  ON player_game_lists
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
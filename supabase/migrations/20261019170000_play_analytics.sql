@@ -0,0 +1,56 @@
+/*
+  # Play analytics
+
+  1. New Tables
+    - `play_events`
+      - `id` (uuid, primary key)
+      - `game_id` (uuid, references games)
+      - `started_at` (timestamp, when the player opened the game)
+      - `duration_seconds` (integer, until the player overlay closed)
+
+  2. New Views
+    - `game_play_stats` per-game totals: `plays`, `recent_plays` (last 7
+      days) and `total_seconds`, used by the Popular and Trending sort orders
+      and the admin stats view
+
+  3. Security
+    - Anyone can record a play; durations are capped at four hours
+    - Raw events are only readable by editors and admins
+    - The stats view runs as its owner, so everyone can read the aggregates
+*/
+
+CREATE TABLE IF NOT EXISTS play_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  duration_seconds integer NOT NULL DEFAULT 0
+    CHECK (duration_seconds BETWEEN 0 AND 14400)
+);
+
+CREATE INDEX IF NOT EXISTS play_events_game_started_idx
+  ON play_events (game_id, started_at);
+
+ALTER TABLE play_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can record plays"
+  ON play_events
+  FOR INSERT
+  TO public
+  WITH CHECK (started_at <= now() + interval '5 minutes');
+
+CREATE POLICY "Editors can read plays"
+  ON play_events
+  FOR SELECT
+  TO authenticated
+  USING (has_game_role('editor'));
+
+CREATE OR REPLACE VIEW game_play_stats AS
+  SELECT
+    game_id,
+    count(*)::integer AS plays,
+    (count(*) FILTER (WHERE started_at > now() - interval '7 days'))::integer AS recent_plays,
+    coalesce(sum(duration_seconds), 0)::integer AS total_seconds
+  FROM play_events
+  GROUP BY game_id;
+
+GRANT SELECT ON game_play_stats TO anon, authenticated;
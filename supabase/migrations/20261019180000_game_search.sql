@@ -0,0 +1,61 @@
+/*
+  # Tags and ranked full-text search for games
+
+  1. Changes
+    - `games.tags` (text[], lower-case keywords, defaults to empty)
+
+  2. New Functions
+    - `games_search_document(title, description, category, tags)` builds the
+      weighted search document: title first, then tags and category, then
+      description
+    - `search_games(search)` returns matching game ids with a rank, best
+      first. Every word must match as a prefix; titles within a typo or two
+      of the search still match through trigram similarity
+
+  3. Indexes
+    - GIN index on the search document
+    - Trigram index on `title`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION games_search_document(title text, description text, category text, tags text[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(array_to_string(tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(category, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'C');
+$$;
+
+CREATE INDEX IF NOT EXISTS games_search_idx
+  ON games USING gin (games_search_document(title, description, category, tags));
+
+CREATE INDEX IF NOT EXISTS games_title_trgm_idx
+  ON games USING gin (title gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION search_games(search text)
+RETURNS TABLE (id uuid, rank real)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & ')) AS terms
+    FROM regexp_split_to_table(lower(search), '[^a-z0-9]+') AS word
+    WHERE word <> ''
+  )
+  SELECT g.id,
+    greatest(
+      ts_rank(games_search_document(g.title, g.description, g.category, g.tags), query.terms),
+      similarity(g.title, search)
+    ) AS rank
+  FROM games g, query
+  WHERE games_search_document(g.title, g.description, g.category, g.tags) @@ query.terms
+     OR g.title % search
+  ORDER BY rank DESC;
+$$;
@@ -0,0 +1,86 @@
+/*
+  # Paged, filtered game listing
+
+  1. New Functions
+    - `list_games(filter_category, search_text, sort_order)` returns games in
+      one category (or all when null), matching the search, ordered by search
+      rank and then by 'newest', 'popular' or 'trending'. Callers page through
+      it with a range (LIMIT/OFFSET)
+    - `suggest_search(search_text)` replaces each search word with the closest
+      word in the catalog, or returns null when nothing would change
+
+  2. New Views
+    - `game_category_counts` number of games in each category, for the
+      category filter without loading every game
+
+  3. Indexes
+    - `games (category, created_at)` for category pages in the default order
+*/
+
+CREATE INDEX IF NOT EXISTS games_category_created_idx
+  ON games (category, created_at DESC);
+
+CREATE OR REPLACE FUNCTION list_games(
+  filter_category text DEFAULT NULL,
+  search_text text DEFAULT '',
+  sort_order text DEFAULT 'newest'
+)
+RETURNS SETOF games
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT g.*
+  FROM games g
+  LEFT JOIN search_games(search_text) s ON s.id = g.id
+  LEFT JOIN game_play_stats p ON p.game_id = g.id
+  WHERE (filter_category IS NULL OR g.category = filter_category)
+    AND (coalesce(trim(search_text), '') = '' OR s.id IS NOT NULL)
+  ORDER BY
+    s.rank DESC NULLS LAST,
+    CASE sort_order
+      WHEN 'popular' THEN coalesce(p.plays, 0)
+      WHEN 'trending' THEN coalesce(p.recent_plays, 0)
+      ELSE 0
+    END DESC,
+    g.created_at DESC,
+    g.id;
+$$;
+
+CREATE OR REPLACE FUNCTION suggest_search(search_text text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  WITH vocabulary AS (
+    SELECT word
+    FROM ts_stat('SELECT games_search_document(title, description, category, tags) FROM games')
+  ),
+  terms AS (
+    SELECT term, word_index
+    FROM regexp_split_to_table(lower(search_text), '[^a-z0-9]+') WITH ORDINALITY AS t(term, word_index)
+    WHERE term <> ''
+  ),
+  closest AS (
+    SELECT t.word_index, t.term,
+      (
+        SELECT v.word
+        FROM vocabulary v
+        WHERE similarity(v.word, t.term) > 0.3
+        ORDER BY similarity(v.word, t.term) DESC
+        LIMIT 1
+      ) AS word
+    FROM terms t
+  )
+  SELECT CASE
+    WHEN bool_or(word IS NOT NULL AND word <> term)
+      THEN string_agg(coalesce(word, term), ' ' ORDER BY word_index)
+  END
+  FROM closest;
+$$;
+
+CREATE OR REPLACE VIEW game_category_counts AS
+  SELECT category, count(*)::integer AS games
+  FROM games
+  GROUP BY category;
+
+GRANT SELECT ON game_category_counts TO anon, authenticated;
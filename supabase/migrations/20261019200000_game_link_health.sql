@@ -0,0 +1,60 @@
+/*
+  # Link health for game URLs
+
+  1. Changes
+    - New columns on `games`, written by the link checker (the
+      `check-game-links` function or `npm run check-links`):
+      - `link_status` (integer, HTTP status of the last check)
+      - `link_response_ms` (integer)
+      - `link_frame_blocked` (boolean, X-Frame-Options or CSP
+        frame-ancestors would stop the player's iframe)
+      - `link_error` (text, network error or timeout)
+      - `link_checked_at` (timestamp)
+    - `list_games` gains `hide_broken`, which leaves out games whose last
+      check failed; unchecked games are always listed
+
+  2. Security
+    - The columns are covered by the existing games policies; the checker
+      writes them with the service role key
+*/
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS link_status integer,
+  ADD COLUMN IF NOT EXISTS link_response_ms integer,
+  ADD COLUMN IF NOT EXISTS link_frame_blocked boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS link_error text,
+  ADD COLUMN IF NOT EXISTS link_checked_at timestamptz;
+
+DROP FUNCTION IF EXISTS list_games(text, text, text);
+
+CREATE OR REPLACE FUNCTION list_games(
+  filter_category text DEFAULT NULL,
+  search_text text DEFAULT '',
+  sort_order text DEFAULT 'newest',
+  hide_broken boolean DEFAULT false
+)
+RETURNS SETOF games
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT g.*
+  FROM games g
+  LEFT JOIN search_games(search_text) s ON s.id = g.id
+  LEFT JOIN game_play_stats p ON p.game_id = g.id
+  WHERE (filter_category IS NULL OR g.category = filter_category)
+    AND (coalesce(trim(search_text), '') = '' OR s.id IS NOT NULL)
+    AND (
+      NOT hide_broken
+      OR g.link_checked_at IS NULL
+      OR (g.link_error IS NULL AND coalesce(g.link_status, 0) < 400 AND NOT g.link_frame_blocked)
+    )
+  ORDER BY
+    s.rank DESC NULLS LAST,
+    CASE sort_order
+      WHEN 'popular' THEN coalesce(p.plays, 0)
+      WHEN 'trending' THEN coalesce(p.recent_plays, 0)
+      ELSE 0
+    END DESC,
+    g.created_at DESC,
+    g.id;
+$$;
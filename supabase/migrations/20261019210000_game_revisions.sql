@@ -0,0 +1,176 @@
+/*
+  # Edit history and soft deletes for games
+
+  1. Changes
+    - `games.deleted_at` (timestamp) marks a game as moved to the trash.
+      Deleting from the app now sets it; a real DELETE only happens when an
+      admin empties a game from the trash
+    - `list_games`, `suggest_search` and `game_category_counts` leave out
+      trashed games
+
+  2. New Tables
+    - `game_revisions`, one row per change to a game, written by a trigger
+      - `id` (uuid, primary key)
+      - `game_id` (uuid, kept after the game is purged so its history survives)
+      - `action` ('create', 'update', 'delete', 'restore' or 'purge')
+      - `actor` (uuid, the signed-in user, null for service-role writes)
+      - `actor_email` (text)
+      - `changed_at` (timestamp)
+      - `before` / `after` (jsonb snapshots of the row, null where the row
+        did not exist)
+    - Updates that only touch the link checker's columns are not recorded
+
+  3. Security
+    - Editors and admins can read revisions; nobody writes them directly
+    - Trashed games stay readable like any other row, so realtime clients
+      see them leave the catalog
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS games_deleted_at_idx ON games (deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS game_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge')),
+  actor uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email text,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  before jsonb,
+  after jsonb
+);
+
+CREATE INDEX IF NOT EXISTS game_revisions_game_idx ON game_revisions (game_id, changed_at DESC);
+
+ALTER TABLE game_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Editors can read revisions"
+  ON game_revisions
+  FOR SELECT
+  TO authenticated
+  USING (has_game_role('editor'));
+
+-- Security definer so the trigger can write revisions and look up the actor's email
+CREATE OR REPLACE FUNCTION record_game_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_columns text[] := ARRAY[
+    'link_status', 'link_response_ms', 'link_frame_blocked', 'link_error', 'link_checked_at', 'updated_at'
+  ];
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+  change text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    change := 'create';
+  ELSIF TG_OP = 'DELETE' THEN
+    change := 'purge';
+  ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    change := 'delete';
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    change := 'restore';
+  ELSIF (old_row - link_columns) = (new_row - link_columns) THEN
+    -- Link checks and no-op saves aren't edits
+    RETURN NEW;
+  ELSE
+    change := 'update';
+  END IF;
+
+  INSERT INTO game_revisions (game_id, action, actor, actor_email, before, after)
+  VALUES (
+    coalesce(NEW.id, OLD.id),
+    change,
+    auth.uid(),
+    (SELECT email FROM auth.users WHERE id = auth.uid()),
+    old_row,
+    new_row
+  );
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS games_record_revision ON games;
+
+CREATE TRIGGER games_record_revision
+  AFTER INSERT OR UPDATE OR DELETE ON games
+  FOR EACH ROW
+  EXECUTE FUNCTION record_game_revision();
+
+CREATE OR REPLACE FUNCTION list_games(
+  filter_category text DEFAULT NULL,
+  search_text text DEFAULT '',
+  sort_order text DEFAULT 'newest',
+  hide_broken boolean DEFAULT false
+)
+RETURNS SETOF games
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT g.*
+  FROM games g
+  LEFT JOIN search_games(search_text) s ON s.id = g.id
+  LEFT JOIN game_play_stats p ON p.game_id = g.id
+  WHERE g.deleted_at IS NULL
+    AND (filter_category IS NULL OR g.category = filter_category)
+    AND (coalesce(trim(search_text), '') = '' OR s.id IS NOT NULL)
+    AND (
+      NOT hide_broken
+      OR g.link_checked_at IS NULL
+      OR (g.link_error IS NULL AND coalesce(g.link_status, 0) < 400 AND NOT g.link_frame_blocked)
+    )
+  ORDER BY
+    s.rank DESC NULLS LAST,
+    CASE sort_order
+      WHEN 'popular' THEN coalesce(p.plays, 0)
+      WHEN 'trending' THEN coalesce(p.recent_plays, 0)
+      ELSE 0
+    END DESC,
+    g.created_at DESC,
+    g.id;
+$$;
+
+CREATE OR REPLACE FUNCTION suggest_search(search_text text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  WITH vocabulary AS (
+    SELECT word
+    FROM ts_stat(
+      'SELECT games_search_document(title, description, category, tags) FROM games WHERE deleted_at IS NULL'
+    )
+  ),
+  terms AS (
+    SELECT term, word_index
+    FROM regexp_split_to_table(lower(search_text), '[^a-z0-9]+') WITH ORDINALITY AS t(term, word_index)
+    WHERE term <> ''
+  ),
+  closest AS (
+    SELECT t.word_index, t.term,
+      (
+        SELECT v.word
+        FROM vocabulary v
+        WHERE similarity(v.word, t.term) > 0.3
+        ORDER BY similarity(v.word, t.term) DESC
+        LIMIT 1
+      ) AS word
+    FROM terms t
+  )
+  SELECT CASE
+    WHEN bool_or(word IS NOT NULL AND word <> term)
+      THEN string_agg(coalesce(word, term), ' ' ORDER BY word_index)
+  END
+  FROM closest;
+$$;
+
+CREATE OR REPLACE VIEW game_category_counts AS
+  SELECT category, count(*)::integer AS games
+  FROM games
+  WHERE deleted_at IS NULL
+  GROUP BY category;
@@ -0,0 +1,130 @@
+/*
+  # Player game suggestions
+
+  1. New Tables
+    - `game_submissions`
+      - `id` (uuid, primary key)
+      - `title`, `description`, `category`, `url`, `tags` as suggested
+      - `submitter_name` (text, optional)
+      - `submitter_id` (uuid, the signed-in player, null for anonymous)
+      - `client_key` (text, hash of the account or IP, for rate limiting)
+      - `status` ('pending', 'approved' or 'rejected')
+      - `rejection_reason` (text)
+      - `duplicate_of` (uuid, a game that already has this URL)
+      - `game_id` (uuid, the game created on approval)
+      - `reviewed_by`, `reviewed_at`, `created_at`
+
+  2. New Functions
+    - `prepare_game_submission()` trigger fills in the submitter, flags
+      duplicate URLs (compared like the catalog import: trimmed, lower-case,
+      without trailing slashes) and allows 5 suggestions per hour per
+      account or IP
+
+  3. Security
+    - Anyone can insert a pending suggestion with a plain http(s) link
+    - Signed-in players can read their own suggestions
+    - Editors and admins can read and review every suggestion
+    - Admins can delete suggestions
+*/
+
+CREATE TABLE IF NOT EXISTS game_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL CHECK (char_length(trim(title)) BETWEEN 1 AND 100),
+  description text NOT NULL DEFAULT '' CHECK (char_length(description) <= 1000),
+  category text,
+  url text NOT NULL CHECK (url ~* '^https?://\S+$' AND char_length(url) <= 2000),
+  tags text[],
+  submitter_name text CHECK (char_length(submitter_name) <= 100),
+  submitter_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  client_key text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  rejection_reason text,
+  duplicate_of uuid REFERENCES games(id) ON DELETE SET NULL,
+  game_id uuid REFERENCES games(id) ON DELETE SET NULL,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS game_submissions_status_idx ON game_submissions (status, created_at DESC);
+CREATE INDEX IF NOT EXISTS game_submissions_client_idx ON game_submissions (client_key, created_at DESC);
+
+ALTER TABLE game_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so anonymous inserts can count earlier suggestions and look up games
+CREATE OR REPLACE FUNCTION prepare_game_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  forwarded_for text := split_part(
+    coalesce(current_setting('request.headers', true)::json->>'x-forwarded-for', ''), ',', 1
+  );
+BEGIN
+  NEW.submitter_id := auth.uid();
+  NEW.client_key := md5(coalesce(auth.uid()::text, nullif(trim(forwarded_for), ''), 'unknown'));
+
+  IF (
+    SELECT count(*) FROM game_submissions
+    WHERE client_key = NEW.client_key
+      AND created_at > now() - interval '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many game suggestions' USING HINT = 'rate_limited';
+  END IF;
+
+  NEW.duplicate_of := (
+    SELECT id FROM games
+    WHERE deleted_at IS NULL
+      AND lower(regexp_replace(trim(url), '/+$', '')) = lower(regexp_replace(trim(NEW.url), '/+$', ''))
+    LIMIT 1
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS game_submissions_prepare ON game_submissions;
+
+CREATE TRIGGER game_submissions_prepare
+  BEFORE INSERT ON game_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_game_submission();
+
+CREATE POLICY "Anyone can suggest games"
+  ON game_submissions
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND rejection_reason IS NULL
+    AND game_id IS NULL
+    AND reviewed_by IS NULL
+    AND reviewed_at IS NULL
+  );
+
+CREATE POLICY "Players can read their own suggestions"
+  ON game_submissions
+  FOR SELECT
+  TO authenticated
+  USING (submitter_id = auth.uid());
+
+CREATE POLICY "Editors can read suggestions"
+  ON game_submissions
+  FOR SELECT
+  TO authenticated
+  USING (has_game_role('editor'));
+
+CREATE POLICY "Editors can review suggestions"
+  ON game_submissions
+  FOR UPDATE
+  TO authenticated
+  USING (has_game_role('editor'))
+  WITH CHECK (has_game_role('editor'));
+
+CREATE POLICY "Admins can delete suggestions"
+  ON game_submissions
+  FOR DELETE
+  TO authenticated
+  USING (has_game_role('admin'));
@@ -0,0 +1,107 @@
+/*
+  # Curated game collections
+
+  1. New Tables
+    - `collections`
+      - `id` (uuid, primary key)
+      - `name` (text, unique, e.g. "Staff Picks")
+      - `slug` (text, unique)
+      - `sort_order` (integer, row order on the home page)
+      - `is_featured` (boolean, shown as the hero carousel; at most one)
+      - `created_at`, `updated_at` (timestamps)
+    - `collection_games`, the ordered games in each collection
+      - `collection_id` (uuid, references collections, cascades)
+      - `game_id` (uuid, references games, cascades when a game is purged)
+      - `position` (integer)
+
+  2. New Functions
+    - `set_collection_games(target_id, game_ids)` replaces a collection's
+      games in the given order, in one transaction
+
+  3. Security
+    - Anyone can read collections
+    - Editors and admins can create, edit and reorder collections
+    - Only admins can delete collections
+*/
+
+CREATE TABLE IF NOT EXISTS collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  slug text NOT NULL UNIQUE,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_featured boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS collections_one_featured_idx ON collections (is_featured) WHERE is_featured;
+
+CREATE TABLE IF NOT EXISTS collection_games (
+  collection_id uuid NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  game_id uuid NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  PRIMARY KEY (collection_id, game_id)
+);
+
+CREATE INDEX IF NOT EXISTS collection_games_order_idx ON collection_games (collection_id, position);
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_games ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read collections"
+  ON collections
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Editors can insert collections"
+  ON collections
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_game_role('editor'));
+
+CREATE POLICY "Editors can update collections"
+  ON collections
+  FOR UPDATE
+  TO authenticated
+  USING (has_game_role('editor'))
+  WITH CHECK (has_game_role('editor'));
+
+CREATE POLICY "Admins can delete collections"
+  ON collections
+  FOR DELETE
+  TO authenticated
+  USING (has_game_role('admin'));
+
+CREATE POLICY "Anyone can read collection games"
+  ON collection_games
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Editors can manage collection games"
+  ON collection_games
+  FOR ALL
+  TO authenticated
+  USING (has_game_role('editor'))
+  WITH CHECK (has_game_role('editor'));
+
+-- Runs as the caller, so the policies above decide who may reorder
+CREATE OR REPLACE FUNCTION set_collection_games(target_id uuid, game_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM collection_games WHERE collection_id = target_id;
+
+  INSERT INTO collection_games (collection_id, game_id, position)
+  SELECT target_id, ids.game_id, min(ids.game_index)::integer
+  FROM unnest(game_ids) WITH ORDINALITY AS ids(game_id, game_index)
+  GROUP BY ids.game_id;
+
+  -- One change on collections is enough for clients to reload
+  UPDATE collections SET updated_at = now() WHERE id = target_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE collections;
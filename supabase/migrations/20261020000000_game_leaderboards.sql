@@ -0,0 +1,108 @@
+/*
+  # Game SDK origins and leaderboards
+
+  1. Changes
+    - `games.sdk_origins` (text, nullable) space-separated origins allowed to
+      post SDK messages; blank means the game link's own origin
+
+  2. New Tables
+    - `game_scores`
+      - `id` (uuid, primary key)
+      - `game_id` (uuid, references games)
+      - `player_name` (text, 1-24 characters)
+      - `score` (double precision, higher is better)
+      - `user_id` (uuid, the signed-in player, null for anonymous)
+      - `client_key` (text, hash of the account or IP, for rate limiting)
+      - `created_at` (timestamp)
+
+  3. New Views
+    - `game_leaderboard` scores without the user and client columns, so
+      anyone can read leaderboards without seeing who sent them
+
+  4. New Functions
+    - `prepare_game_score()` trigger fills in the player and allows 10 scores
+      per 10 minutes per account or IP
+
+  5. Security
+    - Anyone can submit a score for a game that isn't in the trash
+    - Raw scores are only readable by editors and admins
+    - Admins can delete scores
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS sdk_origins text;
+
+CREATE TABLE IF NOT EXISTS game_scores (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  player_name text NOT NULL CHECK (char_length(trim(player_name)) BETWEEN 1 AND 24),
+  score double precision NOT NULL CHECK (score = score AND abs(score) < 1e15),
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  client_key text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS game_scores_ranking_idx ON game_scores (game_id, score DESC, created_at);
+CREATE INDEX IF NOT EXISTS game_scores_client_idx ON game_scores (client_key, created_at DESC);
+
+ALTER TABLE game_scores ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so anonymous inserts can count earlier scores
+CREATE OR REPLACE FUNCTION prepare_game_score()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  forwarded_for text := split_part(
+    coalesce(current_setting('request.headers', true)::json->>'x-forwarded-for', ''), ',', 1
+  );
+BEGIN
+  NEW.user_id := auth.uid();
+  NEW.client_key := md5(coalesce(auth.uid()::text, nullif(trim(forwarded_for), ''), 'unknown'));
+  NEW.created_at := now();
+
+  IF (
+    SELECT count(*) FROM game_scores
+    WHERE client_key = NEW.client_key
+      AND created_at > now() - interval '10 minutes'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'Too many scores' USING HINT = 'rate_limited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS game_scores_prepare ON game_scores;
+
+CREATE TRIGGER game_scores_prepare
+  BEFORE INSERT ON game_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_game_score();
+
+CREATE POLICY "Anyone can submit scores"
+  ON game_scores
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM games WHERE games.id = game_id AND games.deleted_at IS NULL)
+  );
+
+CREATE POLICY "Editors can read scores"
+  ON game_scores
+  FOR SELECT
+  TO authenticated
+  USING (has_game_role('editor'));
+
+CREATE POLICY "Admins can delete scores"
+  ON game_scores
+  FOR DELETE
+  TO authenticated
+  USING (has_game_role('admin'));
+
+CREATE OR REPLACE VIEW game_leaderboard AS
+  SELECT id, game_id, player_name, score, created_at
+  FROM game_scores;
+
+GRANT SELECT ON game_leaderboard TO anon, authenticated;
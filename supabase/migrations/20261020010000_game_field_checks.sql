@@ -0,0 +1,39 @@
+/*
+  # Game field checks
+
+  Mirrors the client validation in src/lib/gameValidation.ts so rows written
+  by other tools follow the same rules. The client maps these constraint
+  names back to form fields.
+
+  1. Changes
+    - `games_title_check` title is 1-100 characters
+    - `games_description_check` description is at most 1000 characters
+    - `games_color_check` color is one of the palette classes
+    - `games_url_check` url is an http(s) link or embed code, within length
+
+  2. Notes
+    - Added NOT VALID so existing rows are left as they are; only new
+      inserts and updates are checked
+*/
+
+ALTER TABLE games
+  ADD CONSTRAINT games_title_check
+  CHECK (char_length(trim(title)) BETWEEN 1 AND 100) NOT VALID;
+
+ALTER TABLE games
+  ADD CONSTRAINT games_description_check
+  CHECK (char_length(coalesce(description, '')) <= 1000) NOT VALID;
+
+ALTER TABLE games
+  ADD CONSTRAINT games_color_check
+  CHECK (color IN (
+    'bg-blue-500', 'bg-red-500', 'bg-green-500', 'bg-yellow-500',
+    'bg-purple-500', 'bg-pink-500', 'bg-indigo-500', 'bg-orange-500'
+  )) NOT VALID;
+
+ALTER TABLE games
+  ADD CONSTRAINT games_url_check
+  CHECK (
+    (position('<' in url) > 0 AND char_length(url) <= 20000)
+    OR (url ~* '^https?://[^\s<>]+$' AND char_length(url) <= 2000)
+  ) NOT VALID;
@@ -0,0 +1,18 @@
+/*
+  # Offline games
+
+  Lets admins mark self-hosted games for offline play. The app's service
+  worker (public/sw.js) precaches the page and files of every marked game.
+
+  1. Changes
+    - `games.offline_available` (boolean, default false)
+
+  2. Notes
+    - Only games served from the app's own origin can be cached; the admin
+      form only offers the option for those, and the client ignores the flag
+      on other links
+    - No new policies: the column is covered by the existing games policies
+*/
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS offline_available boolean NOT NULL DEFAULT false;
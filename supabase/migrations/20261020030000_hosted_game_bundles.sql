@@ -0,0 +1,80 @@
+/*
+  # Hosted game bundles
+
+  Admins can upload a zip of a static HTML5 game instead of linking one. The
+  browser checks and unpacks the zip (src/lib/gameBundles.ts) and uploads each
+  file to Storage under a fresh bundle id. The game is then played from
+  /hosted/<bundle id>/index.html on the site, which proxies to the bucket.
+
+  1. Changes
+    - `games.source_kind` (text, default 'external') says what `url` holds:
+      'external' a link, 'embed' pasted embed code, 'hosted' a bundle path
+    - Existing embed code rows are marked 'embed'
+    - `games_url_check` is replaced so each kind's url has the right shape
+
+  2. Storage
+    - Public `game-bundles` bucket, files up to 20 MB of the allowed types
+
+  3. Security
+    - Anyone can read bundle files
+    - Editors and admins can upload bundles
+    - Only admins can delete bundle files
+
+  4. Notes
+    - Bundles are never overwritten; a new upload gets a new id, so files can
+      be cached for good
+    - Bundles of deleted games are kept so restoring from the trash works
+*/
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS source_kind text NOT NULL DEFAULT 'external';
+
+UPDATE games SET source_kind = 'embed' WHERE position('<' in url) > 0;
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_source_kind_check;
+ALTER TABLE games
+  ADD CONSTRAINT games_source_kind_check
+  CHECK (source_kind IN ('external', 'embed', 'hosted'));
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_url_check;
+ALTER TABLE games
+  ADD CONSTRAINT games_url_check
+  CHECK (
+    (source_kind = 'embed' AND position('<' in url) > 0 AND char_length(url) <= 20000)
+    OR (source_kind = 'external' AND url ~* '^https?://[^\s<>]+$' AND char_length(url) <= 2000)
+    OR (source_kind = 'hosted' AND url ~* '^/hosted/[0-9a-f-]{36}/index\.html$')
+  ) NOT VALID;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'game-bundles',
+  'game-bundles',
+  true,
+  20971520,
+  ARRAY[
+    'text/html', 'text/javascript', 'text/css', 'text/plain', 'application/json', 'application/xml',
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml', 'image/x-icon', 'image/bmp',
+    'audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/mp4', 'video/mp4', 'video/webm',
+    'font/woff', 'font/woff2', 'font/ttf', 'font/otf',
+    'application/wasm', 'application/octet-stream'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can read game bundles"
+  ON storage.objects
+  FOR SELECT
+  TO public
+  USING (bucket_id = 'game-bundles');
+
+CREATE POLICY "Editors can upload game bundles"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'game-bundles' AND has_game_role('editor'));
+
+CREATE POLICY "Admins can delete game bundles"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'game-bundles' AND has_game_role('admin'));
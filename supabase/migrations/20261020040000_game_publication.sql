@@ -0,0 +1,119 @@
+/*
+  # Draft, scheduled and hidden games
+
+  1. Changes
+    - `games.status` (text, default 'published') 'draft', 'published' or 'hidden'
+    - `games.publish_at` (timestamp, nullable) a published game with a future
+      `publish_at` is scheduled and goes live at that time
+    - `is_game_live(status, publish_at)` true for published games whose time
+      has come; existing games are published with no `publish_at`, so they
+      stay live
+    - `list_games` takes `filter_publication` ('all', 'draft', 'scheduled',
+      'published' or 'hidden') for the admins' filter
+    - `game_category_counts` now runs with the caller's permissions, so
+      players' counts only include live games
+    - `scheduled_game_releases` view: the id and time of each scheduled game,
+      so open pages can fetch and announce it when it goes live
+
+  2. Security
+    - "Anyone can read games" is replaced: everyone can read live games,
+      editors and admins can read every game
+    - Realtime follows the same policies, so players aren't told about a
+      game before it is live
+    - `scheduled_game_releases` exposes only ids and times, never content
+
+  3. Notes
+    - Nothing is written when a scheduled game goes live, so there is no
+      realtime event; clients time it themselves from the releases view
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'published';
+ALTER TABLE games ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_status_check;
+ALTER TABLE games
+  ADD CONSTRAINT games_status_check
+  CHECK (status IN ('draft', 'published', 'hidden'));
+
+CREATE INDEX IF NOT EXISTS games_publish_at_idx
+  ON games (publish_at)
+  WHERE status = 'published' AND publish_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION is_game_live(game_status text, game_publish_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT game_status = 'published' AND (game_publish_at IS NULL OR game_publish_at <= now());
+$$;
+
+DROP POLICY IF EXISTS "Anyone can read games" ON games;
+
+CREATE POLICY "Anyone can read live games"
+  ON games
+  FOR SELECT
+  TO public
+  USING (is_game_live(status, publish_at));
+
+CREATE POLICY "Editors can read every game"
+  ON games
+  FOR SELECT
+  TO authenticated
+  USING (has_game_role('editor'));
+
+DROP FUNCTION IF EXISTS list_games(text, text, text, boolean);
+
+CREATE OR REPLACE FUNCTION list_games(
+  filter_category text DEFAULT NULL,
+  search_text text DEFAULT '',
+  sort_order text DEFAULT 'newest',
+  hide_broken boolean DEFAULT false,
+  filter_publication text DEFAULT 'all'
+)
+RETURNS SETOF games
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT g.*
+  FROM games g
+  LEFT JOIN search_games(search_text) s ON s.id = g.id
+  LEFT JOIN game_play_stats p ON p.game_id = g.id
+  WHERE g.deleted_at IS NULL
+    AND (filter_category IS NULL OR g.category = filter_category)
+    AND (coalesce(trim(search_text), '') = '' OR s.id IS NOT NULL)
+    AND (
+      NOT hide_broken
+      OR g.link_checked_at IS NULL
+      OR (g.link_error IS NULL AND coalesce(g.link_status, 0) < 400 AND NOT g.link_frame_blocked)
+    )
+    AND CASE filter_publication
+      WHEN 'draft' THEN g.status = 'draft'
+      WHEN 'hidden' THEN g.status = 'hidden'
+      WHEN 'scheduled' THEN g.status = 'published' AND g.publish_at > now()
+      WHEN 'published' THEN is_game_live(g.status, g.publish_at)
+      ELSE true
+    END
+  ORDER BY
+    s.rank DESC NULLS LAST,
+    CASE sort_order
+      WHEN 'popular' THEN coalesce(p.plays, 0)
+      WHEN 'trending' THEN coalesce(p.recent_plays, 0)
+      ELSE 0
+    END DESC,
+    g.created_at DESC,
+    g.id;
+$$;
+
+CREATE OR REPLACE VIEW game_category_counts
+WITH (security_invoker = true) AS
+  SELECT category, count(*)::integer AS games
+  FROM games
+  WHERE deleted_at IS NULL
+  GROUP BY category;
+
+CREATE OR REPLACE VIEW scheduled_game_releases AS
+  SELECT id, publish_at
+  FROM games
+  WHERE status = 'published' AND publish_at > now() AND deleted_at IS NULL;
+
+GRANT SELECT ON scheduled_game_releases TO anon, authenticated;
@@ -0,0 +1,121 @@
+/*
+  # Game detail metadata
+
+  1. Changes
+    - `games.how_to_play` (text) controls and instructions
+    - `games.min_players`, `games.max_players` (integer, 1-100, nullable)
+    - `games.input_types` (text[]) any of 'keyboard', 'mouse', 'touch'
+    - `games.mobile_friendly` (boolean, nullable) null when nobody has said
+    - `games.developer`, `games.developer_url` (text) credit for the game
+    - `list_games` takes `filter_tag` to list the games with one tag
+    - `related_games(game_id, max_results)` live games sharing tags or the
+      category with a game, most shared tags first
+
+  2. Security
+    - Same checks as the admin form, so other clients can't store what it
+      would reject
+    - `related_games` runs with the caller's permissions and only returns
+      live games
+
+  3. Notes
+    - Every new column is optional, so existing games need no backfill
+*/
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS how_to_play text;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS min_players integer;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS max_players integer;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS input_types text[] NOT NULL DEFAULT '{}';
+ALTER TABLE games ADD COLUMN IF NOT EXISTS mobile_friendly boolean;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS developer text;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS developer_url text;
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_how_to_play_check;
+ALTER TABLE games
+  ADD CONSTRAINT games_how_to_play_check
+  CHECK (char_length(coalesce(how_to_play, '')) <= 2000);
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_players_check;
+ALTER TABLE games
+  ADD CONSTRAINT games_players_check
+  CHECK (
+    (min_players IS NULL OR min_players BETWEEN 1 AND 100)
+    AND (max_players IS NULL OR max_players BETWEEN 1 AND 100)
+    AND (min_players IS NULL OR max_players IS NULL OR min_players <= max_players)
+  );
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_input_types_check;
+ALTER TABLE games
+  ADD CONSTRAINT games_input_types_check
+  CHECK (input_types <@ ARRAY['keyboard', 'mouse', 'touch']::text[]);
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_developer_check;
+ALTER TABLE games
+  ADD CONSTRAINT games_developer_check
+  CHECK (
+    char_length(trim(coalesce(developer, ''))) <= 100
+    AND (coalesce(developer_url, '') = '' OR (developer_url ~* '^https?://\S+$' AND char_length(developer_url) <= 2000))
+  );
+
+DROP FUNCTION IF EXISTS list_games(text, text, text, boolean, text);
+
+CREATE OR REPLACE FUNCTION list_games(
+  filter_category text DEFAULT NULL,
+  search_text text DEFAULT '',
+  sort_order text DEFAULT 'newest',
+  hide_broken boolean DEFAULT false,
+  filter_publication text DEFAULT 'all',
+  filter_tag text DEFAULT NULL
+)
+RETURNS SETOF games
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT g.*
+  FROM games g
+  LEFT JOIN search_games(search_text) s ON s.id = g.id
+  LEFT JOIN game_play_stats p ON p.game_id = g.id
+  WHERE g.deleted_at IS NULL
+    AND (filter_category IS NULL OR g.category = filter_category)
+    AND (filter_tag IS NULL OR filter_tag = ANY (g.tags))
+    AND (coalesce(trim(search_text), '') = '' OR s.id IS NOT NULL)
+    AND (
+      NOT hide_broken
+      OR g.link_checked_at IS NULL
+      OR (g.link_error IS NULL AND coalesce(g.link_status, 0) < 400 AND NOT g.link_frame_blocked)
+    )
+    AND CASE filter_publication
+      WHEN 'draft' THEN g.status = 'draft'
+      WHEN 'hidden' THEN g.status = 'hidden'
+      WHEN 'scheduled' THEN g.status = 'published' AND g.publish_at > now()
+      WHEN 'published' THEN is_game_live(g.status, g.publish_at)
+      ELSE true
+    END
+  ORDER BY
+    s.rank DESC NULLS LAST,
+    CASE sort_order
+      WHEN 'popular' THEN coalesce(p.plays, 0)
+      WHEN 'trending' THEN coalesce(p.recent_plays, 0)
+      ELSE 0
+    END DESC,
+    g.created_at DESC,
+    g.id;
+$$;
+
+CREATE OR REPLACE FUNCTION related_games(game_id uuid, max_results integer DEFAULT 8)
+RETURNS SETOF games
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT other.*
+  FROM games source
+  JOIN games other ON other.id <> source.id
+  WHERE source.id = game_id
+    AND other.deleted_at IS NULL
+    AND is_game_live(other.status, other.publish_at)
+    AND (other.category = source.category OR other.tags && source.tags)
+  ORDER BY
+    cardinality(ARRAY(SELECT unnest(other.tags) INTERSECT SELECT unnest(source.tags))) * 2
+      + CASE WHEN other.category = source.category THEN 1 ELSE 0 END DESC,
+    other.created_at DESC
+  LIMIT max_results;
+$$;
@@ -0,0 +1,123 @@
+/*
+  # Merging duplicate games
+
+  1. New Tables
+    - `game_merges`, where each merged game went
+      - `merged_id` (uuid, primary key) the duplicate that was merged away
+      - `kept_id` (uuid, references games, cascades when the kept game is purged)
+      - `merged_at` (timestamp)
+
+  2. New Functions
+    - `merge_games(keep_id, merged_ids)` moves plays, scores, favorites,
+      recent plays and collection places from the merged games to the kept
+      one, records where they went and moves the merged games to the trash,
+      in one transaction
+
+  3. Security
+    - Anyone can read `game_merges`, so browsers can repoint lists they saved
+      before signing in
+    - Only admins can merge; the function checks the role itself because it
+      has to write tables players own rows in
+
+  4. Notes
+    - `merged_id` has no foreign key: the redirect outlives purging the duplicate
+    - Restoring a merged game from the trash drops its redirect, but the plays
+      and favorites it handed over stay with the kept game
+*/
+
+CREATE TABLE IF NOT EXISTS game_merges (
+  merged_id uuid PRIMARY KEY,
+  kept_id uuid NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  merged_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS game_merges_kept_idx ON game_merges (kept_id);
+
+ALTER TABLE game_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read game merges"
+  ON game_merges
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Security definer so other players' favorites and anonymous plays can move too
+CREATE OR REPLACE FUNCTION merge_games(keep_id uuid, merged_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_game_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can merge games' USING ERRCODE = '42501';
+  END IF;
+
+  IF keep_id = ANY (merged_ids) OR cardinality(merged_ids) = 0 THEN
+    RAISE EXCEPTION 'Pick a game to keep and at least one other game to merge into it';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM games
+    WHERE deleted_at IS NULL AND (id = keep_id OR id = ANY (merged_ids))
+  ) <> cardinality(ARRAY(SELECT DISTINCT unnest(merged_ids))) + 1 THEN
+    RAISE EXCEPTION 'Every game in a merge must exist and not be in the trash';
+  END IF;
+
+  UPDATE play_events SET game_id = keep_id WHERE game_id = ANY (merged_ids);
+  UPDATE game_scores SET game_id = keep_id WHERE game_id = ANY (merged_ids);
+
+  -- The kept game takes the earliest place any of the copies had
+  INSERT INTO collection_games (collection_id, game_id, position)
+  SELECT collection_id, keep_id, min(position)
+  FROM collection_games
+  WHERE game_id = ANY (merged_ids)
+  GROUP BY collection_id
+  ON CONFLICT (collection_id, game_id) DO UPDATE
+    SET position = least(collection_games.position, EXCLUDED.position);
+  DELETE FROM collection_games WHERE game_id = ANY (merged_ids);
+
+  UPDATE collections SET updated_at = now()
+  WHERE id IN (SELECT collection_id FROM collection_games WHERE game_id = keep_id);
+
+  INSERT INTO player_game_lists (user_id, kind, game_id, updated_at)
+  SELECT user_id, kind, keep_id, max(updated_at)
+  FROM player_game_lists
+  WHERE game_id = ANY (merged_ids)
+  GROUP BY user_id, kind
+  ON CONFLICT (user_id, kind, game_id) DO UPDATE
+    SET updated_at = greatest(player_game_lists.updated_at, EXCLUDED.updated_at);
+  DELETE FROM player_game_lists WHERE game_id = ANY (merged_ids);
+
+  -- Games merged into one of these earlier now lead to the kept game
+  UPDATE game_merges SET kept_id = keep_id WHERE kept_id = ANY (merged_ids);
+
+  INSERT INTO game_merges (merged_id, kept_id)
+  SELECT DISTINCT unnest(merged_ids), keep_id
+  ON CONFLICT (merged_id) DO UPDATE
+    SET kept_id = EXCLUDED.kept_id, merged_at = now();
+
+  UPDATE games SET deleted_at = now() WHERE id = ANY (merged_ids);
+END;
+$$;
+
+-- A merged game restored from the trash is a game of its own again
+CREATE OR REPLACE FUNCTION forget_restored_merge()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM game_merges WHERE merged_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS games_forget_restored_merge ON games;
+
+CREATE TRIGGER games_forget_restored_merge
+  AFTER UPDATE OF deleted_at ON games
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION forget_restored_merge();
@@ -0,0 +1,68 @@
+/*
+  # Rate limit keys the caller can't choose
+
+  1. New Functions
+    - `request_client_key()` hashes the signed-in account, or else the
+      caller's address as the proxy in front of the API saw it: the
+      `cf-connecting-ip` or `x-real-ip` header, then the last
+      `x-forwarded-for` hop
+
+  2. Changed Functions
+    - `prepare_game_submission()` keys its 5 suggestions per hour on
+      `request_client_key()` and stamps `created_at` itself, so backdated
+      suggestions can't slip out of the hour being counted
+
+  3. Notes
+    - The first `x-forwarded-for` entry comes from the client, so anyone
+      could send a new one with each request and never hit the limit. Proxies
+      overwrite the headers used here and append to the end of the list.
+*/
+
+CREATE OR REPLACE FUNCTION request_client_key()
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  headers json := coalesce(current_setting('request.headers', true), '{}')::json;
+  address text := coalesce(
+    nullif(trim(headers->>'cf-connecting-ip'), ''),
+    nullif(trim(headers->>'x-real-ip'), ''),
+    nullif(trim(regexp_replace(coalesce(headers->>'x-forwarded-for', ''), '^.*,', '')), '')
+  );
+BEGIN
+  RETURN md5(coalesce(auth.uid()::text, address, 'unknown'));
+END;
+$$;
+
+-- Security definer so anonymous inserts can count earlier suggestions and look up games
+CREATE OR REPLACE FUNCTION prepare_game_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.submitter_id := auth.uid();
+  NEW.client_key := request_client_key();
+  NEW.created_at := now();
+
+  IF (
+    SELECT count(*) FROM game_submissions
+    WHERE client_key = NEW.client_key
+      AND created_at > now() - interval '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many game suggestions' USING HINT = 'rate_limited';
+  END IF;
+
+  NEW.duplicate_of := (
+    SELECT id FROM games
+    WHERE deleted_at IS NULL
+      AND lower(regexp_replace(trim(url), '/+$', '')) = lower(regexp_replace(trim(NEW.url), '/+$', ''))
+    LIMIT 1
+  );
+
+  RETURN NEW;
+END;
+$$;
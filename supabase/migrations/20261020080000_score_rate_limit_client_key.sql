@@ -0,0 +1,32 @@
+/*
+  # Score rate limit on the shared client key
+
+  1. Changed Functions
+    - `prepare_game_score()` keys its 10 scores per 10 minutes on
+      `request_client_key()`, so changing `x-forwarded-for` no longer gets
+      around it
+*/
+
+-- Security definer so anonymous inserts can count earlier scores
+CREATE OR REPLACE FUNCTION prepare_game_score()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.user_id := auth.uid();
+  NEW.client_key := request_client_key();
+  NEW.created_at := now();
+
+  IF (
+    SELECT count(*) FROM game_scores
+    WHERE client_key = NEW.client_key
+      AND created_at > now() - interval '10 minutes'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'Too many scores' USING HINT = 'rate_limited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,48 @@
+/*
+  # Only admins move games in and out of the trash
+
+  1. New Functions
+    - `guard_game_trash()` trigger refuses changes to `games.deleted_at`
+      unless the caller is an admin. Editors can still update every other
+      column, but trashing is an update, so "Admins can delete games" alone
+      didn't stop them from trashing or restoring games through the API
+
+  2. Security
+    - "Anyone can read live games" now leaves out trashed games
+    - Service-role and direct database writes aren't checked; they have no
+      signed-in caller to check
+
+  3. Notes
+    - Players no longer receive the realtime update that trashes a game,
+      the same as for games that are hidden; they stop seeing it on reload
+*/
+
+CREATE OR REPLACE FUNCTION guard_game_trash()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') AND NOT has_game_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can trash or restore games' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS games_guard_trash ON games;
+
+CREATE TRIGGER games_guard_trash
+  BEFORE UPDATE OF deleted_at ON games
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS DISTINCT FROM NEW.deleted_at)
+  EXECUTE FUNCTION guard_game_trash();
+
+DROP POLICY IF EXISTS "Anyone can read live games" ON games;
+
+CREATE POLICY "Anyone can read live games"
+  ON games
+  FOR SELECT
+  TO public
+  USING (deleted_at IS NULL AND is_game_live(status, publish_at));
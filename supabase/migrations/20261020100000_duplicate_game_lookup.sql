@@ -0,0 +1,52 @@
+/*
+  # Looking up likely duplicates of a game
+
+  1. New Functions
+    - `game_link_key(url)` the link a game loads, without scheme, `www.`,
+      query, fragment or trailing slashes; embed code is keyed by its iframe
+      src
+    - `find_duplicate_games(candidate_title, candidate_url, exclude_id)`
+      live games with the same link key or a similar title (trigram
+      `%`), at most 20. The app applies its own rules to these, so the
+      query only has to be generous and fast
+
+  2. Indexes
+    - Index on `game_link_key(url)` for live games; titles use the trigram
+      index from the search migration
+
+  3. Security
+    - Runs with the caller's permissions, so it only sees games they can read
+*/
+
+CREATE OR REPLACE FUNCTION game_link_key(url text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(regexp_replace(regexp_replace(
+    trim(coalesce(substring(url FROM '<iframe[^>]*\ssrc\s*=\s*["'']?([^"''\s>]+)'), url)),
+    '^https?://(www\.)?', '', 'i'),
+    '[?#].*$', ''),
+    '/+$', ''));
+$$;
+
+CREATE INDEX IF NOT EXISTS games_link_key_idx
+  ON games (game_link_key(url))
+  WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION find_duplicate_games(
+  candidate_title text,
+  candidate_url text,
+  exclude_id uuid DEFAULT NULL
+)
+RETURNS SETOF games
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM games
+  WHERE deleted_at IS NULL
+    AND id IS DISTINCT FROM exclude_id
+    AND (game_link_key(url) = game_link_key(candidate_url) OR title % candidate_title)
+  LIMIT 20;
+$$;
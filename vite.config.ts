@@ -1,10 +1,55 @@
-import { defineConfig } from 'vite';
+/// <reference types="vitest/config" />
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Uploaded game bundles live in the `game-bundles` Storage bucket but are played
+// from /hosted/<id>/ on our own site (see src/lib/gameBundles.ts)
+const bundleStorageUrl = (supabaseUrl: string) =>
+  `${supabaseUrl.replace(/\/$/, '')}/storage/v1/object/public/game-bundles`;
+
+// Netlify proxies /hosted/* to Storage; the rule must come before the app's catch-all
+const hostedBundleRedirect = (supabaseUrl: string | undefined): Plugin => {
+  let outDir = 'dist';
+  return {
+    name: 'hosted-bundle-redirect',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir);
+    },
+    async closeBundle() {
+      if (!supabaseUrl) return;
+      const redirectsPath = resolve(outDir, '_redirects');
+      const redirects = await readFile(redirectsPath, 'utf8');
+      await writeFile(redirectsPath, `/hosted/*  ${bundleStorageUrl(supabaseUrl)}/:splat  200\n${redirects}`);
+    }
+  };
+};
+
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  optimizeDeps: {
-    exclude: ['lucide-react'],
-  },
+export default defineConfig(({ mode }) => {
+  const supabaseUrl = loadEnv(mode, process.cwd(), 'VITE_').VITE_SUPABASE_URL;
+
+  return {
+    plugins: [react(), hostedBundleRedirect(supabaseUrl)],
+    optimizeDeps: {
+      exclude: ['lucide-react'],
+    },
+    server: {
+      proxy: supabaseUrl
+        ? {
+            '/hosted': {
+              target: bundleStorageUrl(supabaseUrl),
+              changeOrigin: true,
+              rewrite: (path) => path.replace(/^\/hosted/, ''),
+            },
+          }
+        : undefined,
+    },
+    test: {
+      // Repositories and services read localStorage, window and navigator
+      environment: 'happy-dom',
+    },
+  };
 });